@@ -0,0 +1,100 @@
+// The OCR route with Vision replaced by a stubbed fetch
+
+import { mkdtemp, rm } from 'fs/promises';
+import { NextRequest } from 'next/server';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let POST: typeof import('./route').POST;
+let cacheDirectory: string;
+
+const image = (text: string) => ({
+  image: { content: Buffer.from(text).toString('base64') },
+  features: [{ type: 'DOCUMENT_TEXT_DETECTION', maxResults: 1 }]
+});
+
+const post = (body: string) =>
+  POST(new NextRequest('http://localhost/api/google-vision-ocr', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body
+  }));
+
+// Vision's answer for one batch: one text annotation per image
+const visionResponse = (init: RequestInit | undefined) => {
+  const { requests } = JSON.parse(String(init?.body));
+  return new Response(JSON.stringify({
+    responses: requests.map(() => ({ textAnnotations: [{ description: 'TOTAL 5.48' }] }))
+  }));
+};
+
+// The route builds its file cache when loaded - keep it out of .next
+beforeAll(async () => {
+  cacheDirectory = await mkdtemp(path.join(tmpdir(), 'ocr-route-'));
+  process.env.OCR_CACHE_DIR = cacheDirectory;
+  ({ POST } = await import('./route'));
+});
+
+afterAll(() => rm(cacheDirectory, { recursive: true, force: true }));
+
+beforeEach(() => {
+  vi.stubEnv('GOOGLE_CLOUD_VISION_API_KEY', 'vision-test-key');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('POST /api/google-vision-ocr', () => {
+  it('rejects a body that is not a JSON object', async () => {
+    for (const body of ['null', '[]', '42']) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('fails only the batch whose Vision call hit a network error', async () => {
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(async (_url: string, init?: RequestInit) => visionResponse(init))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    // Vision takes 16 images per call, so the last one goes in a second batch
+    const requests = Array.from({ length: 17 }, (_, index) => image(`receipt ${index}`));
+    const response = await post(JSON.stringify({ requests }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(body.summary).toMatchObject({ images: 17, succeeded: 16, failed: 1, batches: 2 });
+    expect(body.responses[15].textAnnotations).toHaveLength(1);
+    expect(body.responses[16].error).toMatchObject({ code: 502, status: 'BATCH_FAILED' });
+  });
+
+  it('answers an image sent again from the cache, unless bypassCache is set', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => visionResponse(init));
+    vi.stubGlobal('fetch', fetchMock);
+    const requests = [image('cached receipt')];
+
+    expect((await post(JSON.stringify({ requests }))).status).toBe(200);
+    expect((await post(JSON.stringify({ requests }))).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    expect((await post(JSON.stringify({ requests, bypassCache: true }))).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't answer a request for other features from the cache", async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => visionResponse(init));
+    vi.stubGlobal('fetch', fetchMock);
+    const document = image('receipt read two ways');
+    const text = { ...document, features: [{ type: 'TEXT_DETECTION', maxResults: 1 }] };
+
+    await post(JSON.stringify({ requests: [document] }));
+    await post(JSON.stringify({ requests: [text] }));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
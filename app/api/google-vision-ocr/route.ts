@@ -1,9 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { FileOCRCache } from '../../lib/fileOCRCache';
+import { DEFAULT_OCR_CACHE_TTL_MS, hashVisionRequest, readCache, writeCache } from '../../lib/ocrCache';
+import { createRateLimiter, getClientId, RateLimitDecision, readLimit } from '../../lib/rateLimit';
+import {
+  chunkVisionRequests,
+  imageContentLength,
+  MAX_BODY_BYTES,
+  MAX_IMAGES_PER_CALL,
+  MAX_PAYLOAD_CHARS,
+  VISION_BATCH_CHARS,
+  VISION_BATCH_SIZE,
+  VisionImageError,
+  VisionImageRequest
+} from '../../lib/visionBatch';
 
 // Google Cloud Vision API endpoint
 const GOOGLE_VISION_API_URL = 'https://vision.googleapis.com/v1/images:annotate';
 
+// One entry of Vision's responses[] - only the fields this route looks at
+interface VisionImageResponse {
+  textAnnotations?: unknown[];
+  fullTextAnnotation?: unknown;
+  error?: VisionImageError;
+}
+
+interface VisionBatchFailure {
+  status: number;
+  error: string;
+  details: string;
+}
+
+// Every call spends our Vision key, so each client is limited. Daily quotas count images, not calls,
+// and the total quota caps what the key can spend in a day. Counters are in memory (per server instance) - pass a shared RateLimitStore to enforce them across instances.
+const ocrRateLimiter = createRateLimiter('ocr', {
+  burst: readLimit(process.env.OCR_RATE_LIMIT_BURST, 10),
+  perMinute: readLimit(process.env.OCR_RATE_LIMIT_PER_MINUTE, 20),
+  dailyQuotaPerClient: readLimit(process.env.OCR_DAILY_QUOTA_PER_CLIENT, 200),
+  dailyQuotaTotal: readLimit(process.env.OCR_DAILY_QUOTA_TOTAL, 1000)
+});
+
+// Vision responses by image and request hash, so a photo sent again doesn't cost another call
+const ocrCache = new FileOCRCache<VisionImageResponse>(
+  process.env.OCR_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'ocr'),
+  {
+    maxEntries: readLimit(process.env.OCR_CACHE_MAX_ENTRIES, 1000),
+    maxBytes: readLimit(process.env.OCR_CACHE_MAX_MB, 100) * 1024 * 1024
+  }
+);
+const OCR_CACHE_TTL_MS = readLimit(process.env.OCR_CACHE_TTL_HOURS, DEFAULT_OCR_CACHE_TTL_MS / 3600000) * 3600000;
+
+// Origins allowed to call this route from another site; same-origin calls need no CORS
+const ALLOWED_ORIGINS = (process.env.OCR_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
 export async function POST(request: NextRequest) {
+  return withCors(request, await handleOCRRequest(request));
+}
+
+async function handleOCRRequest(request: NextRequest): Promise<NextResponse> {
   try {
     // Get API key from environment variables
     const apiKey = process.env.GOOGLE_CLOUD_VISION_API_KEY;
@@ -20,8 +77,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse request body
-    const body = await request.json();
+    // Parse request body - oversized bodies are refused before they are read into memory
+    const body = await readJsonBody(request, MAX_BODY_BYTES);
+    if (body === TOO_LARGE) {
+      return NextResponse.json(
+        { error: 'Request is too large - send fewer or smaller images per request' },
+        { status: 413 }
+      );
+    }
+
+    // null, arrays and bare values are valid JSON but not a request
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request format - expected a JSON object' },
+        { status: 400 }
+      );
+    }
     
     // Handle test requests
     if (body.test) {
@@ -41,9 +112,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate image content
-    const imageContent = body.requests[0]?.image?.content;
-    if (!imageContent) {
+    const requests: VisionImageRequest[] = body.requests;
+
+    if (requests.length > MAX_IMAGES_PER_CALL) {
+      return NextResponse.json(
+        { error: `Too many images - send at most ${MAX_IMAGES_PER_CALL} per request` },
+        { status: 413 }
+      );
+    }
+
+    const payloadChars = requests.reduce((sum, imageRequest) => sum + imageContentLength(imageRequest), 0);
+    if (payloadChars > MAX_PAYLOAD_CHARS) {
+      return NextResponse.json(
+        { error: 'Images are too large to process together - send fewer per request' },
+        { status: 413 }
+      );
+    }
+
+    // Images without content fail on their own; the rest still go to Vision
+    const validIndexes = requests
+      .map((imageRequest, index) => imageContentLength(imageRequest) > 0 ? index : -1)
+      .filter(index => index !== -1);
+
+    if (requests.length === 1 && validIndexes.length === 0) {
       console.error('❌ Invalid request format - missing image content');
       return NextResponse.json(
         { error: 'Invalid request format - image content is required' },
@@ -51,82 +142,127 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const responses: VisionImageResponse[] = requests.map(() => ({
+      error: { code: 400, message: 'Image content is required', status: 'INVALID_ARGUMENT' }
+    }));
+
+    // Clients over a limit are turned away before their images are hashed or the cache is read
+    const clientId = getClientId(request);
+    const admission = await ocrRateLimiter.admit(clientId);
+    if (!admission.allowed) {
+      return rateLimited(clientId, admission);
+    }
+
+    // Images seen before, with the same features, are answered from the cache and never reach Vision (or the quota)
+    const bypassCache = body.bypassCache === true;
+    const cacheKeys = new Map<number, string>();
+    const uncachedIndexes: number[] = [];
+    for (const index of validIndexes) {
+      const key = await hashVisionRequest(requests[index]).catch(() => undefined);
+      if (key) cacheKeys.set(index, key);
+
+      const cached = key && !bypassCache ? await readCache(ocrCache, key) : undefined;
+      if (cached) {
+        responses[index] = cached;
+      } else {
+        uncachedIndexes.push(index);
+      }
+    }
+
+    // Only the images Vision will actually read count against the daily quotas
+    const charge = await ocrRateLimiter.charge(clientId, uncachedIndexes.length);
+    if (!charge.allowed) {
+      return rateLimited(clientId, charge);
+    }
+
     console.log('🔍 Processing OCR request with Google Cloud Vision...');
     console.log('📊 Request info:', {
-      requestsCount: body.requests.length,
-      imageContentLength: imageContent.length,
-      featuresCount: body.requests[0]?.features?.length || 0
+      requestsCount: requests.length,
+      imageContentLength: payloadChars,
+      featuresCount: requests[0]?.features?.length || 0,
+      cached: validIndexes.length - uncachedIndexes.length,
+      bypassCache
     });
 
-    // Make request to Google Cloud Vision API
-    const visionApiUrl = `${GOOGLE_VISION_API_URL}?key=${apiKey}`;
-    const response = await fetch(visionApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body)
-    });
+    const batches = chunkVisionRequests(uncachedIndexes.map(index => requests[index]), VISION_BATCH_SIZE, VISION_BATCH_CHARS);
+    let lastFailure: VisionBatchFailure | undefined;
+    let offset = 0;
 
-    console.log('📡 Google Vision API response status:', response.status);
+    // One batch at a time - keeps a large import inside Vision's per-minute quota
+    for (const batch of batches) {
+      const indexes = uncachedIndexes.slice(offset, offset + batch.length);
+      offset += batch.length;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Google Vision API error:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorText
-      });
-      
-      // Provide more specific error messages
-      let userFriendlyError = 'OCR processing failed';
-      if (response.status === 400) {
-        userFriendlyError = 'Invalid image format or API request';
-      } else if (response.status === 403) {
-        userFriendlyError = 'API key invalid or permissions denied';
-      } else if (response.status === 429) {
-        userFriendlyError = 'API quota exceeded - try again later';
+      const outcome = await annotateBatch(apiKey, batch);
+      if ('failure' in outcome) {
+        lastFailure = outcome.failure;
+        indexes.forEach(index => {
+          responses[index] = {
+            error: { code: outcome.failure.status, message: outcome.failure.error, status: 'BATCH_FAILED' }
+          };
+        });
+      } else {
+        for (const [position, index] of indexes.entries()) {
+          responses[index] = outcome.responses[position]
+            ?? { error: { code: 500, message: 'Vision returned no result for this image' } };
+
+          const key = cacheKeys.get(index);
+          if (key && !responses[index].error) {
+            await writeCache(ocrCache, key, responses[index], OCR_CACHE_TTL_MS);
+          }
+        }
       }
-      
-      return NextResponse.json(
-        { 
-          error: userFriendlyError, 
-          details: errorText,
-          status: response.status 
-        },
-        { status: response.status }
-      );
     }
 
-    const data = await response.json();
-    
-    // Log basic response info
+    const failed = responses.filter(response => response.error).length;
     console.log('📥 Google Vision response received:', {
-      hasResponses: !!data.responses,
-      responsesCount: data.responses?.length || 0,
-      hasTextAnnotations: !!(data.responses?.[0]?.textAnnotations),
-      textAnnotationsCount: data.responses?.[0]?.textAnnotations?.length || 0,
-      hasFullTextAnnotation: !!(data.responses?.[0]?.fullTextAnnotation),
-      hasError: !!(data.responses?.[0]?.error)
+      images: requests.length,
+      batches: batches.length,
+      succeeded: requests.length - failed,
+      failed,
+      hasTextAnnotations: responses.some(response => response.textAnnotations?.length),
+      hasFullTextAnnotation: responses.some(response => response.fullTextAnnotation)
     });
-    
-    // Check for Vision API errors in response
-    if (data.responses?.[0]?.error) {
-      const visionError = data.responses[0].error;
-      console.error('❌ Google Vision API returned error in response:', visionError);
-      return NextResponse.json(
-        { 
-          error: 'Vision API processing error', 
-          details: visionError.message,
-          code: visionError.code 
-        },
-        { status: 400 }
-      );
+
+    // A single image keeps the original contract: failures come back as an error status
+    if (requests.length === 1) {
+      if (lastFailure) {
+        return NextResponse.json(
+          { 
+            error: lastFailure.error, 
+            details: lastFailure.details,
+            status: lastFailure.status 
+          },
+          { status: lastFailure.status }
+        );
+      }
+
+      const visionError = responses[0].error;
+      if (visionError) {
+        console.error('❌ Google Vision API returned error in response:', visionError);
+        return NextResponse.json(
+          { 
+            error: 'Vision API processing error', 
+            details: visionError.message,
+            code: visionError.code 
+          },
+          { status: 400 }
+        );
+      }
     }
     
     console.log('✅ Google Cloud Vision OCR completed successfully');
     
-    return NextResponse.json(data);
+    // Batches always succeed as a whole - each image reports its own error in responses[i].error
+    return NextResponse.json({
+      responses,
+      summary: {
+        images: requests.length,
+        succeeded: requests.length - failed,
+        failed,
+        batches: batches.length
+      }
+    });
 
   } catch (error) {
     console.error('❌ OCR API route error:', error);
@@ -151,14 +287,109 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle CORS for development
+const TOO_LARGE = Symbol('too large');
+
+// The JSON body, or TOO_LARGE as soon as the declared or actual size passes maxBytes
+async function readJsonBody(request: NextRequest, maxBytes: number): Promise<any> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) {
+    return TOO_LARGE;
+  }
+  if (!request.body) {
+    return request.json();
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return TOO_LARGE;
+    }
+    chunks.push(value);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function rateLimited(clientId: string, limit: RateLimitDecision): NextResponse {
+  console.warn(`🚦 OCR ${limit.reason} limit hit`, { clientId, retryAfter: limit.retryAfterSeconds });
+  return NextResponse.json(
+    { error: limit.message, reason: limit.reason, retryAfter: limit.retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+  );
+}
+
+// One images:annotate call for up to VISION_BATCH_SIZE images
+async function annotateBatch(
+  apiKey: string,
+  batch: VisionImageRequest[]
+): Promise<{ responses: VisionImageResponse[] } | { failure: VisionBatchFailure }> {
+  const visionApiUrl = `${GOOGLE_VISION_API_URL}?key=${apiKey}`;
+  let response: Response;
+  try {
+    response = await fetch(visionApiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ requests: batch })
+    });
+  } catch (error) {
+    // Only this batch's images fail - results from the cache and earlier batches still go back
+    console.error('❌ Network error calling Google Vision API:', error);
+    return {
+      failure: {
+        status: 502,
+        error: 'Network error connecting to Google Vision API',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+
+  console.log('📡 Google Vision API response status:', response.status);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('❌ Google Vision API error:', {
+      status: response.status,
+      statusText: response.statusText,
+      error: errorText
+    });
+    
+    // Provide more specific error messages
+    let userFriendlyError = 'OCR processing failed';
+    if (response.status === 400) {
+      userFriendlyError = 'Invalid image format or API request';
+    } else if (response.status === 403) {
+      userFriendlyError = 'API key invalid or permissions denied';
+    } else if (response.status === 429) {
+      userFriendlyError = 'API quota exceeded - try again later';
+    }
+
+    return { failure: { status: response.status, error: userFriendlyError, details: errorText } };
+  }
+
+  const data = await response.json();
+  return { responses: data.responses || [] };
+}
+
+// CORS preflight - only origins listed in OCR_ALLOWED_ORIGINS may call the route cross-site
 export async function OPTIONS(request: NextRequest) {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
+  return withCors(request, new NextResponse(null, { status: 204 }));
+}
+
+function withCors(request: NextRequest, response: NextResponse): NextResponse {
+  const origin = request.headers.get('origin');
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    response.headers.set('Access-Control-Allow-Origin', origin);
+    response.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    response.headers.set('Access-Control-Allow-Headers', 'Content-Type');
+    response.headers.set('Access-Control-Expose-Headers', 'Retry-After');
+    response.headers.set('Vary', 'Origin');
+  }
+  return response;
 } 
\ No newline at end of file
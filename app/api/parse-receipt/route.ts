@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWithProvider, parseWithAllProviders } from '../../lib/receiptParsingService';
+import { getParserProvider, listParserProviders } from '../../lib/receiptParserProviders';
+import type { LayoutRow } from '../../lib/receiptLayout';
+import { RECEIPT_REGION_KINDS } from '../../lib/receiptPreprocessing';
+
+// Long receipts run to a few thousand characters - anything far beyond that is not OCR output
+const MAX_OCR_TEXT_LENGTH = 20000;
+const MAX_LAYOUT_ROWS = 1000;
+
+// Layout rows are optional, but when sent every row must have the shape the parsers expect
+function isValidLayoutRows(rows: unknown): rows is LayoutRow[] {
+  return Array.isArray(rows) && rows.length <= MAX_LAYOUT_ROWS && rows.every(row =>
+    row && typeof row === 'object' &&
+    typeof row.text === 'string' &&
+    typeof row.name === 'string' &&
+    (row.price === undefined || (typeof row.price === 'number' && Number.isFinite(row.price))) &&
+    (row.flag === undefined || typeof row.flag === 'string') &&
+    (row.region === undefined || RECEIPT_REGION_KINDS.includes(row.region))
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // null, arrays and bare values are valid JSON but not a request
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request format - expected a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Handle test requests
+    if (body.test) {
+      return NextResponse.json({
+        available: true,
+        providers: listParserProviders().map(provider => ({
+          id: provider.id,
+          name: provider.name,
+          configured: provider.isConfigured()
+        }))
+      });
+    }
+
+    // Validate request format
+    if (typeof body.ocrText !== 'string' || body.ocrText.trim().length === 0) {
+      console.error('❌ Invalid request format - missing OCR text');
+      return NextResponse.json(
+        { error: 'Invalid request format - ocrText is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.ocrText.length > MAX_OCR_TEXT_LENGTH) {
+      console.error('❌ OCR text too long:', body.ocrText.length);
+      return NextResponse.json(
+        { error: `OCR text is too long - maximum is ${MAX_OCR_TEXT_LENGTH} characters` },
+        { status: 413 }
+      );
+    }
+
+    const mode = body.mode ?? 'single';
+    if (mode !== 'single' && mode !== 'consensus') {
+      return NextResponse.json(
+        { error: 'Invalid mode - expected "single" or "consensus"' },
+        { status: 400 }
+      );
+    }
+
+    if (body.provider !== undefined && (typeof body.provider !== 'string' || !getParserProvider(body.provider))) {
+      return NextResponse.json(
+        { error: `Unknown parser provider: ${body.provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.rows !== undefined && !isValidLayoutRows(body.rows)) {
+      return NextResponse.json(
+        { error: `Invalid layout rows - expected up to ${MAX_LAYOUT_ROWS} rows with text, name and optional price, flag and region` },
+        { status: 400 }
+      );
+    }
+
+    console.log('🧠 Processing receipt parse request...', {
+      mode,
+      provider: body.provider || 'default',
+      ocrTextLength: body.ocrText.length,
+      layoutRows: body.rows?.length ?? 0
+    });
+
+    const result = mode === 'consensus'
+      ? await parseWithAllProviders(body.ocrText, body.rows)
+      : await parseWithProvider(body.ocrText, body.provider, body.rows);
+
+    console.log('✅ Receipt parsed:', {
+      storeName: result.storeName,
+      itemCount: result.items.length
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('❌ Receipt parsing route error:', error);
+
+    const errorMessage = error instanceof Error && error.message.includes('JSON')
+      ? 'Invalid JSON in request'
+      : 'Internal server error during receipt parsing';
+
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: error instanceof SyntaxError ? 400 : 500 }
+    );
+  }
+}
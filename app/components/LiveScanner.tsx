@@ -1,9 +1,21 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { detectReceiptQuad, Quad } from '../lib/documentDetection';
+import { warpPerspective } from '../lib/perspectiveWarp';
+import { measureFrameQuality } from '../lib/frameFusion';
+import { encodeBlobInBrowser } from '../lib/browserCanvasAdapter';
+import { analyzeImageQuality, RGBAImage } from '../lib/imageCore';
+import { analyzeLighting } from '../lib/lightingAnalysis';
+import { analyzeReceiptImage, ReceiptAnalysis } from '../lib/receiptPreprocessing';
+import ScanGuidance from './ScanGuidance';
 
 interface LiveScannerProps {
   onCapture: (imageBlob: Blob) => void;
+  // Long receipts: every segment captured in multi-shot mode, top to bottom, each overlapping the one before
+  onCaptureSegments?: (segments: Blob[]) => void;
+  // Multi-frame mode: the sharpest recent video frames of the receipt, flattened, best first
+  onCaptureFrames?: (frames: Blob[]) => void;
   onClose: () => void;
   isProcessing?: boolean;
 }
@@ -13,10 +25,29 @@ interface DetectedRect {
   y: number;
   width: number;
   height: number;
+  // Receipt corners in frame pixels - top-left, top-right, bottom-right, bottom-left
+  corners: Quad;
   confidence: number;
 }
 
-export default function LiveScanner({ onCapture, onClose, isProcessing = false }: LiveScannerProps) {
+interface BufferedFrame {
+  image: RGBAImage;
+  score: number;
+  time: number;
+}
+
+// Multi-frame mode samples the video this often (flattening every frame would stall the preview),
+// keeps the sharpest few frames of the last couple of seconds, and fuses them on capture
+const FRAME_SAMPLE_INTERVAL = 150;
+const FRAME_WINDOW = 2000;
+const FRAME_BUFFER_SIZE = 4;
+const FRAME_WARP_SIZE = 1200;
+// Lighting and focus guidance is measured on a small flattened copy of the receipt, twice a second.
+// It runs on the main thread between video frames, so it only takes the measurements ScanGuidance shows.
+const GUIDANCE_INTERVAL = 500;
+const GUIDANCE_SIZE = 600;
+
+export default function LiveScanner({ onCapture, onCaptureSegments, onCaptureFrames, onClose, isProcessing = false }: LiveScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -29,6 +60,31 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
   const [scanQuality, setScanQuality] = useState<'poor' | 'good' | 'excellent'>('poor');
   const [autoCapture, setAutoCapture] = useState(false);
   const [countdown, setCountdown] = useState<number | null>(null);
+  // Multi-shot mode for receipts longer than the frame
+  const [multiShot, setMultiShot] = useState(false);
+  const [segments, setSegments] = useState<Blob[]>([]);
+  const [lastSegmentUrl, setLastSegmentUrl] = useState<string | null>(null);
+  // Multi-frame mode - several sharp frames are fused and read together
+  const [multiFrame, setMultiFrame] = useState(false);
+  const [bufferedFrames, setBufferedFrames] = useState(0);
+  const frameBufferRef = useRef<BufferedFrame[]>([]);
+  const bufferedCountRef = useRef(0);
+  // Glare, shadows and blur on the receipt in view
+  const [guidance, setGuidance] = useState<ReceiptAnalysis>();
+  const lastGuidanceRef = useRef(0);
+  const lastSampleRef = useRef(0);
+
+  // Preview of the last segment, so the next shot can start where it ended
+  useEffect(() => {
+    const lastSegment = segments[segments.length - 1];
+    if (!lastSegment) {
+      setLastSegmentUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(lastSegment);
+    setLastSegmentUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [segments]);
 
   // Initialize camera
   useEffect(() => {
@@ -76,90 +132,26 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
     }
   }, []);
 
-  // Document detection using edge detection
+  // Receipt detection - the four corners of the brightest sheet in the frame
   const detectDocument = useCallback((imageData: ImageData): DetectedRect | null => {
-    const { data, width, height } = imageData;
-    
-    // Convert to grayscale and find edges
-    const gray = new Uint8Array(width * height);
-    for (let i = 0; i < data.length; i += 4) {
-      const idx = i / 4;
-      gray[idx] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    
-    // Simple edge detection using Sobel operator
-    const edges = new Uint8Array(width * height);
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = y * width + x;
-        
-        // Sobel X
-        const gx = (
-          -gray[(y-1)*width + (x-1)] + gray[(y-1)*width + (x+1)] +
-          -2*gray[y*width + (x-1)] + 2*gray[y*width + (x+1)] +
-          -gray[(y+1)*width + (x-1)] + gray[(y+1)*width + (x+1)]
-        );
-        
-        // Sobel Y
-        const gy = (
-          -gray[(y-1)*width + (x-1)] - 2*gray[(y-1)*width + x] - gray[(y-1)*width + (x+1)] +
-          gray[(y+1)*width + (x-1)] + 2*gray[(y+1)*width + x] + gray[(y+1)*width + (x+1)]
-        );
-        
-        edges[idx] = Math.min(255, Math.sqrt(gx*gx + gy*gy));
-      }
-    }
-    
-    // Find rectangular regions (simplified approach)
-    const threshold = 30; // Reduced threshold for better detection
-    let minX = width, maxX = 0, minY = height, maxY = 0;
-    let edgeCount = 0;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        if (edges[y * width + x] > threshold) {
-          edgeCount++;
-          minX = Math.min(minX, x);
-          maxX = Math.max(maxX, x);
-          minY = Math.min(minY, y);
-          maxY = Math.max(maxY, y);
-        }
-      }
-    }
-    
+    const detected = detectReceiptQuad(imageData);
+
     // Debug logging every 60 frames (about once per second at 60fps)
     if (Math.random() < 0.016) {
-      console.log(`🔍 Detection debug: edges=${edgeCount}, threshold=${threshold}, dimensions=${width}x${height}`);
+      console.log(`🔍 Detection debug: ${detected ? `quad confidence=${detected.confidence.toFixed(2)}` : 'no receipt outline'}, dimensions=${imageData.width}x${imageData.height}`);
     }
-    
-    // Check if detected region looks like a document
-    const detectedWidth = maxX - minX;
-    const detectedHeight = maxY - minY;
-    const aspectRatio = detectedWidth / detectedHeight;
-    const area = detectedWidth * detectedHeight;
-    const screenArea = width * height;
-    
-    // More lenient receipt-like criteria
-    if (
-      detectedWidth > 150 && detectedHeight > 200 && // Reduced minimum size
-      aspectRatio > 0.4 && aspectRatio < 1.2 && // More flexible aspect ratio
-      area > screenArea * 0.1 && area < screenArea * 0.9 && // More flexible area
-      edgeCount > 50 // Reduced edge requirement
-    ) {
-      const confidence = Math.min(1.0, edgeCount / 300); // Adjusted confidence calculation
-      
-      console.log(`📱 Detection: ${detectedWidth}x${detectedHeight}, ratio: ${aspectRatio.toFixed(2)}, edges: ${edgeCount}, confidence: ${confidence.toFixed(2)}`);
-      
-      return {
-        x: minX,
-        y: minY,
-        width: detectedWidth,
-        height: detectedHeight,
-        confidence
-      };
+
+    if (!detected) {
+      return null;
     }
-    
-    return null;
+
+    // Receipts are taller than they are wide, even when photographed at an angle
+    const aspectRatio = detected.bounds.width / detected.bounds.height;
+    if (aspectRatio < 0.2 || aspectRatio > 1.5) {
+      return null;
+    }
+
+    return { ...detected.bounds, corners: detected.corners, confidence: detected.confidence };
   }, []);
 
   // Process video frame
@@ -209,55 +201,43 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
     overlayCtx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
     
     if (rect) {
-      // Scale rectangle to overlay canvas
+      // Scale corners to overlay canvas
       const scaleX = overlayCanvas.width / canvas.width;
       const scaleY = overlayCanvas.height / canvas.height;
       
-      const scaledRect = {
-        x: rect.x * scaleX,
-        y: rect.y * scaleY,
-        width: rect.width * scaleX,
-        height: rect.height * scaleY
-      };
-      
-      // Draw detection rectangle
-      overlayCtx.strokeStyle = scanQuality === 'excellent' ? '#10B981' : 
+      const corners = rect.corners.map(corner => ({ x: corner.x * scaleX, y: corner.y * scaleY }));
+
+      // Draw the receipt outline - a quadrilateral, since the receipt may be at an angle
+      overlayCtx.strokeStyle = scanQuality === 'excellent' ? '#10B981' :
                               scanQuality === 'good' ? '#F59E0B' : '#EF4444';
       overlayCtx.lineWidth = 3;
       overlayCtx.setLineDash([]);
-      overlayCtx.strokeRect(scaledRect.x, scaledRect.y, scaledRect.width, scaledRect.height);
-      
-      // Draw corner indicators
-      const cornerSize = 20;
-      overlayCtx.lineWidth = 4;
-      
-      // Top-left
-      overlayCtx.beginPath();
-      overlayCtx.moveTo(scaledRect.x, scaledRect.y + cornerSize);
-      overlayCtx.lineTo(scaledRect.x, scaledRect.y);
-      overlayCtx.lineTo(scaledRect.x + cornerSize, scaledRect.y);
-      overlayCtx.stroke();
-      
-      // Top-right
       overlayCtx.beginPath();
-      overlayCtx.moveTo(scaledRect.x + scaledRect.width - cornerSize, scaledRect.y);
-      overlayCtx.lineTo(scaledRect.x + scaledRect.width, scaledRect.y);
-      overlayCtx.lineTo(scaledRect.x + scaledRect.width, scaledRect.y + cornerSize);
-      overlayCtx.stroke();
-      
-      // Bottom-left
-      overlayCtx.beginPath();
-      overlayCtx.moveTo(scaledRect.x, scaledRect.y + scaledRect.height - cornerSize);
-      overlayCtx.lineTo(scaledRect.x, scaledRect.y + scaledRect.height);
-      overlayCtx.lineTo(scaledRect.x + cornerSize, scaledRect.y + scaledRect.height);
-      overlayCtx.stroke();
-      
-      // Bottom-right
-      overlayCtx.beginPath();
-      overlayCtx.moveTo(scaledRect.x + scaledRect.width - cornerSize, scaledRect.y + scaledRect.height);
-      overlayCtx.lineTo(scaledRect.x + scaledRect.width, scaledRect.y + scaledRect.height);
-      overlayCtx.lineTo(scaledRect.x + scaledRect.width, scaledRect.y + scaledRect.height - cornerSize);
+      corners.forEach((corner, i) => (i === 0 ? overlayCtx.moveTo(corner.x, corner.y) : overlayCtx.lineTo(corner.x, corner.y)));
+      overlayCtx.closePath();
       overlayCtx.stroke();
+
+      // Draw corner indicators along both edges that meet at each corner
+      const cornerSize = 20;
+      overlayCtx.lineWidth = 4;
+      corners.forEach((corner, i) => {
+        const previous = corners[(i + 3) % 4];
+        const next = corners[(i + 1) % 4];
+        const towards = (target: { x: number; y: number }) => {
+          const length = Math.hypot(target.x - corner.x, target.y - corner.y) || 1;
+          return {
+            x: corner.x + ((target.x - corner.x) / length) * cornerSize,
+            y: corner.y + ((target.y - corner.y) / length) * cornerSize
+          };
+        };
+        const start = towards(previous);
+        const end = towards(next);
+        overlayCtx.beginPath();
+        overlayCtx.moveTo(start.x, start.y);
+        overlayCtx.lineTo(corner.x, corner.y);
+        overlayCtx.lineTo(end.x, end.y);
+        overlayCtx.stroke();
+      });
     }
     
     // Draw scan area guide (always show)
@@ -323,13 +303,86 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
       overlayCtx.stroke();
     }
     
+    if (multiFrame) {
+      sampleFrame(imageData, rect);
+    }
+    updateGuidance(imageData, rect);
+
     // Auto-capture logic
     if (autoCapture && rect && scanQuality === 'excellent' && !countdown) {
       startCountdown();
     }
     
     animationFrameRef.current = requestAnimationFrame(processFrame);
-  }, [isReady, detectDocument, scanQuality, autoCapture, countdown]);
+  }, [isReady, detectDocument, scanQuality, autoCapture, countdown, multiFrame]);
+
+  // Runs on every animation frame - only re-render when the count shown changes
+  const showBufferedFrames = (count: number) => {
+    if (bufferedCountRef.current === count) return;
+    bufferedCountRef.current = count;
+    setBufferedFrames(count);
+  };
+
+  // Keep the frame if it's among the sharpest of the last few seconds
+  const sampleFrame = (imageData: ImageData, rect: DetectedRect | null) => {
+    const now = performance.now();
+    const buffer = frameBufferRef.current.filter(frame => now - frame.time < FRAME_WINDOW);
+    frameBufferRef.current = buffer;
+    showBufferedFrames(buffer.length);
+    if (!rect || now - lastSampleRef.current < FRAME_SAMPLE_INTERVAL) {
+      return;
+    }
+    lastSampleRef.current = now;
+
+    // Scored on the raw frame, so only frames that make the cut pay for flattening
+    const { score } = measureFrameQuality(imageData, rect);
+    const weakest = buffer.length < FRAME_BUFFER_SIZE ? 0 : Math.min(...buffer.map(frame => frame.score));
+    if (score <= weakest) {
+      return;
+    }
+
+    let image: RGBAImage;
+    try {
+      image = warpPerspective(imageData, rect.corners, FRAME_WARP_SIZE);
+    } catch (error) {
+      // Corners that collapse onto a line can't be flattened - skip the frame rather than stop the loop
+      console.warn('⚠️ Skipping a frame that could not be flattened:', error);
+      return;
+    }
+    frameBufferRef.current = [...buffer, { image, score, time: now }]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, FRAME_BUFFER_SIZE);
+    showBufferedFrames(frameBufferRef.current.length);
+  };
+
+  // Measure the receipt in view for ScanGuidance - glare can only be fixed before the shot
+  const updateGuidance = (imageData: ImageData, rect: DetectedRect | null) => {
+    const now = performance.now();
+    if (now - lastGuidanceRef.current < GUIDANCE_INTERVAL) {
+      return;
+    }
+    lastGuidanceRef.current = now;
+    if (!rect) {
+      setGuidance(undefined);
+      return;
+    }
+
+    try {
+      const receipt = warpPerspective(imageData, rect.corners, GUIDANCE_SIZE);
+      // Resolution is judged on the receipt as the camera sees it, not on the small copy
+      const scale = Math.max(rect.width, rect.height) / Math.max(receipt.width, receipt.height);
+      analyzeReceiptImage({
+        width: Math.round(receipt.width * scale),
+        height: Math.round(receipt.height * scale),
+        quality: analyzeImageQuality(receipt),
+        lighting: analyzeLighting(receipt),
+        // Sections need the full preprocessing pass - left to the capture
+        regions: []
+      }).then(setGuidance);
+    } catch (error) {
+      console.warn('⚠️ Skipping guidance for a frame that could not be flattened:', error);
+    }
+  };
 
   const startProcessing = useCallback(() => {
     if (animationFrameRef.current) {
@@ -369,6 +422,21 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
       return;
     }
     
+    // Multi-frame mode hands over the buffered frames; with fewer than two it falls back to a single shot
+    const frames = frameBufferRef.current;
+    if (multiFrame && onCaptureFrames && frames.length >= 2) {
+      try {
+        console.log(`🎞️ Capturing ${frames.length} frames`, frames.map(frame => frame.score.toFixed(3)));
+        frameBufferRef.current = [];
+        showBufferedFrames(0);
+        onCaptureFrames(await Promise.all(frames.map(frame => encodeBlobInBrowser(frame.image, 'image/jpeg', 0.95))));
+      } catch (error) {
+        console.error('❌ Error capturing frames:', error);
+        setError('Failed to capture image. Please try again.');
+      }
+      return;
+    }
+
     try {
       console.log('📸 Capturing image...', detectedRect ? 'with detection' : 'full frame');
       
@@ -387,30 +455,27 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
       }
       
       if (detectedRect) {
+        // Flatten the receipt - the corners are warped to a rectangle, so a receipt
+        // photographed at an angle comes out as if it had been scanned
+        const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const warped = warpPerspective(frame, detectedRect.corners, 1600);
+
         // Set preprocessing canvas size
-        preprocessCanvas.width = detectedRect.width;
-        preprocessCanvas.height = detectedRect.height;
-        
-        // Draw original image to preprocessing canvas
-        preprocessCtx.drawImage(
-          canvas,
-          detectedRect.x, detectedRect.y, detectedRect.width, detectedRect.height,
-          0, 0, detectedRect.width, detectedRect.height
-        );
-        
+        preprocessCanvas.width = warped.width;
+        preprocessCanvas.height = warped.height;
+
         // Apply preprocessing
-        const imageData = preprocessCtx.getImageData(0, 0, preprocessCanvas.width, preprocessCanvas.height);
-        const enhancedImageData = enhanceImageForOCR(imageData);
+        const enhancedImageData = enhanceImageForOCR(new ImageData(warped.data, warped.width, warped.height));
         preprocessCtx.putImageData(enhancedImageData, 0, 0);
-        
+
         // Set output canvas size (2x for better resolution)
-        outputCanvas.width = detectedRect.width * 2;
-        outputCanvas.height = detectedRect.height * 2;
-        
+        outputCanvas.width = warped.width * 2;
+        outputCanvas.height = warped.height * 2;
+
         // Enable image smoothing
         outputCtx.imageSmoothingEnabled = true;
         outputCtx.imageSmoothingQuality = 'high';
-        
+
         // Draw enhanced image to output canvas
         outputCtx.drawImage(
           preprocessCanvas,
@@ -464,7 +529,11 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
             type: blob.type,
             sizeInKB: Math.round(blob.size / 1024)
           });
-          onCapture(blob);
+          if (multiShot) {
+            setSegments(previous => [...previous, blob]);
+          } else {
+            onCapture(blob);
+          }
         } else {
           console.error('❌ Failed to create image blob');
           throw new Error('Failed to create image blob');
@@ -474,7 +543,7 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
       console.error('❌ Error capturing image:', error);
       setError('Failed to capture image. Please try again.');
     }
-  }, [detectedRect, onCapture]);
+  }, [detectedRect, onCapture, multiShot, multiFrame, onCaptureFrames]);
 
   // Image enhancement function for better OCR
   const enhanceImageForOCR = (imageData: ImageData): ImageData => {
@@ -538,6 +607,29 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
     captureImage();
   };
 
+  const toggleMultiShot = () => {
+    setMultiShot(!multiShot);
+    setSegments([]);
+    setMultiFrame(false);
+  };
+
+  const toggleMultiFrame = () => {
+    setMultiFrame(!multiFrame);
+    frameBufferRef.current = [];
+    showBufferedFrames(0);
+    setMultiShot(false);
+    setSegments([]);
+  };
+
+  const finishSegments = () => {
+    console.log(`🧵 Finished long receipt with ${segments.length} segments`);
+    if (segments.length === 1) {
+      onCapture(segments[0]);
+    } else if (segments.length > 1) {
+      onCaptureSegments?.(segments);
+    }
+  };
+
   if (error) {
     return (
       <div className="fixed inset-0 bg-black flex items-center justify-center z-50">
@@ -640,6 +732,19 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
           </button>
         </div>
         
+        {/* Bottom of the last segment - the next shot should start with these lines */}
+        {multiShot && lastSegmentUrl && (
+          <div className="mx-4 bg-black/60 rounded-lg p-2">
+            <p className="text-white text-xs mb-1">
+              Segment {segments.length} captured - move down so these last lines are at the top of the frame
+            </p>
+            <div
+              className="h-16 rounded bg-no-repeat bg-bottom bg-contain opacity-80"
+              style={{ backgroundImage: `url(${lastSegmentUrl})` }}
+            />
+          </div>
+        )}
+
         {/* Center Info */}
         <div className="flex-1 flex items-center justify-center">
           {countdown && (
@@ -649,6 +754,9 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
           )}
         </div>
         
+        {/* Glare, shadows and focus on the receipt in view */}
+        <ScanGuidance analysis={guidance} isProcessing={isProcessing} />
+
         {/* Bottom Controls */}
         <div className="p-4">
           {/* Status Indicator */}
@@ -664,10 +772,45 @@ export default function LiveScanner({ onCapture, onClose, isProcessing = false }
             </div>
           </div>
           
+          {/* Long receipt and multi-frame modes */}
+          {(onCaptureSegments || onCaptureFrames) && (
+            <div className="flex justify-center items-center space-x-3 mb-4">
+              {onCaptureFrames && (
+                <button
+                  onClick={toggleMultiFrame}
+                  disabled={isProcessing}
+                  className={`px-3 py-1 rounded-full text-sm ${multiFrame ? 'bg-blue-500 text-white' : 'bg-black bg-opacity-50 text-white'}`}
+                >
+                  🎞️ Multi-frame {multiFrame ? 'ON' : 'OFF'}
+                </button>
+              )}
+              {onCaptureSegments && (
+                <button
+                  onClick={toggleMultiShot}
+                  disabled={isProcessing}
+                  className={`px-3 py-1 rounded-full text-sm ${multiShot ? 'bg-blue-500 text-white' : 'bg-black bg-opacity-50 text-white'}`}
+                >
+                  🧾 Long receipt {multiShot ? 'ON' : 'OFF'}
+                </button>
+              )}
+              {multiShot && segments.length > 0 && (
+                <button
+                  onClick={finishSegments}
+                  disabled={isProcessing}
+                  className="px-3 py-1 rounded-full text-sm bg-green-500 text-white"
+                >
+                  Done ({segments.length} {segments.length === 1 ? 'segment' : 'segments'})
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Capture Controls */}
           <div className="flex justify-center items-center space-x-4">
             <div className="text-white text-sm">
-              {autoCapture ? 'Auto-capture ON' : 'Manual capture'}
+              {multiShot ? 'Top to bottom, overlapping' :
+               multiFrame ? `Hold steady - ${bufferedFrames} sharp ${bufferedFrames === 1 ? 'frame' : 'frames'}` :
+               autoCapture ? 'Auto-capture ON' : 'Manual capture'}
             </div>
             
             <button
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import type { AIParsingResult } from '../lib/aiReceiptParser';
+import { LOW_OCR_CONFIDENCE } from '../lib/receiptLayout';
+
+interface ManualReceiptEntryProps {
+  // Items the parser did manage to read, used to prefill the form
+  initial?: AIParsingResult;
+  onSave: (result: AIParsingResult) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+interface ItemRow {
+  name: string;
+  price: string;
+  // The OCR engine struggled with this row on the photo
+  hardToRead?: boolean;
+  // Other ways the OCR passes read the row
+  alternatives?: Array<{ name: string; price?: number }>;
+}
+
+export default function ManualReceiptEntry({ initial, onSave, onCancel, isSaving = false }: ManualReceiptEntryProps) {
+  const [storeName, setStoreName] = useState(
+    initial && initial.storeName !== 'Unknown Store' ? initial.storeName : ''
+  );
+  const [rows, setRows] = useState<ItemRow[]>(
+    initial?.items.length
+      ? initial.items.map(item => ({
+          name: item.enhancedName || item.name,
+          price: item.price.toFixed(2),
+          hardToRead: item.ocrConfidence !== undefined && item.ocrConfidence < LOW_OCR_CONFIDENCE,
+          alternatives: item.ocrAlternatives
+        }))
+      : [{ name: '', price: '' }]
+  );
+  const [total, setTotal] = useState(initial?.total ? initial.total.toFixed(2) : '');
+  // YYYY-MM-DD, as used by the date input
+  const [purchaseDate, setPurchaseDate] = useState(initial?.transaction?.purchaseDate ?? '');
+
+  const updateRow = (index: number, field: 'name' | 'price', value: string) => {
+    // A price the user has typed in no longer needs checking
+    setRows(current => current.map((row, i) => i === index
+      ? { ...row, [field]: value, hardToRead: field === 'price' ? false : row.hardToRead }
+      : row));
+  };
+
+  // Swap in another reading of the row - it replaces the shown one, which becomes an alternative
+  const pickAlternative = (index: number, choice: number) => {
+    setRows(current => current.map((row, i) => {
+      if (i !== index || !row.alternatives) return row;
+      const alternative = row.alternatives[choice];
+      const shown = { name: row.name, price: parseFloat(row.price) || undefined };
+      return {
+        ...row,
+        name: alternative.name,
+        price: alternative.price !== undefined ? Math.abs(alternative.price).toFixed(2) : row.price,
+        alternatives: row.alternatives.map((other, j) => (j === choice ? shown : other))
+      };
+    }));
+  };
+
+  const validRows = rows.filter(row => row.name.trim() && parseFloat(row.price) > 0);
+  const itemsSum = validRows.reduce((sum, row) => sum + parseFloat(row.price), 0);
+
+  const handleSave = () => {
+    const items = validRows.map(row => ({
+      name: row.name.trim(),
+      enhancedName: row.name.trim(),
+      category: 'Other',
+      price: parseFloat(row.price),
+      confidence: 1 // Entered by the user
+    }));
+
+    onSave({
+      storeName: storeName.trim() || 'Unknown Store',
+      items,
+      subtotal: initial?.subtotal,
+      taxes: initial?.taxes ?? [],
+      // Item positions may have changed, so only whole-receipt discounts carry over
+      discounts: (initial?.discounts ?? []).filter(discount => discount.itemIndex === undefined),
+      tenders: initial?.tenders ?? [],
+      total: parseFloat(total) > 0 ? parseFloat(total) : itemsSum,
+      change: initial?.change,
+      transaction: {
+        ...initial?.transaction,
+        purchaseDate: purchaseDate || undefined,
+        // Keep the scanned time only if the date wasn't changed
+        purchaseTime: purchaseDate === initial?.transaction?.purchaseDate ? initial?.transaction?.purchaseTime : undefined,
+        purchasedAt: purchaseDate === initial?.transaction?.purchaseDate ? initial?.transaction?.purchasedAt : purchaseDate || undefined
+      },
+      metadata: {
+        date: purchaseDate || undefined,
+        storeFormat: 'Manual entry',
+        itemCount: items.length
+      }
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-8 border border-gray-100">
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-2xl">✍️</span>
+        <h3 className="text-xl font-semibold text-gray-900">Enter Receipt Manually</h3>
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+      <input
+        type="text"
+        value={storeName}
+        onChange={(e) => setStoreName(e.target.value)}
+        placeholder="e.g. Safeway"
+        className="w-full mb-4 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+      />
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Purchase date</label>
+      <input
+        type="date"
+        value={purchaseDate}
+        onChange={(e) => setPurchaseDate(e.target.value)}
+        className="w-48 mb-4 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+      />
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Items</label>
+      <div className="space-y-2 mb-3">
+        {rows.map((row, index) => (
+          <div key={index}>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={row.name}
+                onChange={(e) => updateRow(index, 'name', e.target.value)}
+                placeholder="Item name"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                min="0"
+                value={row.price}
+                onChange={(e) => updateRow(index, 'price', e.target.value)}
+                placeholder="0.00"
+                title={row.hardToRead ? 'Hard to read on the photo - please check' : undefined}
+                className={`w-28 px-3 py-2 border rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-blue-400 ${
+                  row.hardToRead ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
+                }`}
+              />
+              <button
+                onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+                disabled={rows.length === 1}
+                className="px-3 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                aria-label="Remove item"
+              >
+                ✕
+              </button>
+            </div>
+            {row.alternatives?.length ? (
+              <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+                <span>Also read as:</span>
+                {row.alternatives.map((alternative, choice) => (
+                  <button
+                    key={choice}
+                    onClick={() => pickAlternative(index, choice)}
+                    className="px-2 py-0.5 rounded-full bg-gray-100 hover:bg-blue-100 hover:text-blue-800"
+                  >
+                    {alternative.name}{alternative.price !== undefined ? ` ${Math.abs(alternative.price).toFixed(2)}` : ''}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setRows(current => [...current, { name: '', price: '' }])}
+        className="mb-4 text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        + Add item
+      </button>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Total</label>
+      <input
+        type="number"
+        inputMode="decimal"
+        step="0.01"
+        min="0"
+        value={total}
+        onChange={(e) => setTotal(e.target.value)}
+        placeholder={itemsSum.toFixed(2)}
+        className="w-40 mb-6 px-3 py-2 border border-gray-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-blue-400"
+      />
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 transition disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || validRows.length === 0}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Receipt'}
+        </button>
+      </div>
+    </div>
+  );
+}
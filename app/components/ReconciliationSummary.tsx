@@ -0,0 +1,98 @@
+'use client';
+
+import type { ReceiptItem, ReconciliationReport } from '../lib/receiptSchema';
+
+interface ReconciliationSummaryProps {
+  report: ReconciliationReport;
+  items: ReceiptItem[];
+}
+
+const STATUS_LABELS: Record<ReconciliationReport['status'], { icon: string; text: string; className: string }> = {
+  balanced: { icon: '✅', text: 'Items, discounts and tax add up to the printed total', className: 'text-green-700' },
+  corrected: { icon: '🔧', text: 'Totals add up after correcting likely misreads', className: 'text-blue-700' },
+  unbalanced: { icon: '⚠️', text: "Items, discounts and tax don't add up to the printed total", className: 'text-red-700' },
+  unverifiable: { icon: '❔', text: 'No printed total to check the items against', className: 'text-gray-700' }
+};
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+export default function ReconciliationSummary({ report, items }: ReconciliationSummaryProps) {
+  const label = STATUS_LABELS[report.status];
+  const itemName = (index?: number) => {
+    const item = index !== undefined ? items[index] : undefined;
+    return item ? item.enhancedName || item.name : 'Item';
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 text-sm">
+      <p className={`font-medium mb-3 ${label.className}`}>
+        {label.icon} {label.text}
+      </p>
+
+      <div className="space-y-1 text-gray-700">
+        <div className="flex justify-between">
+          <span>Items</span>
+          <span>{formatAmount(report.itemsTotal)}</span>
+        </div>
+        {report.discountsTotal > 0 && (
+          <div className="flex justify-between">
+            <span>Discounts</span>
+            <span>-{formatAmount(report.discountsTotal)}</span>
+          </div>
+        )}
+        {report.taxTotal > 0 && (
+          <div className="flex justify-between">
+            <span>Tax</span>
+            <span>{formatAmount(report.taxTotal)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium border-t border-gray-200 pt-1">
+          <span>Calculated total</span>
+          <span>{formatAmount(report.computedTotal)}</span>
+        </div>
+        {report.printedTotal !== undefined && (
+          <div className="flex justify-between">
+            <span>Printed total</span>
+            <span>{formatAmount(report.printedTotal)}</span>
+          </div>
+        )}
+        {report.residual !== 0 && (
+          <div className="flex justify-between font-medium text-red-700">
+            <span>Difference from printed {report.residualAgainst ?? 'total'}</span>
+            <span>{report.residual > 0 ? '+' : '-'}{formatAmount(Math.abs(report.residual))}</span>
+          </div>
+        )}
+      </div>
+
+      {report.corrections.length > 0 && (
+        <div className="mt-3">
+          <p className="font-medium text-gray-900 mb-1">Corrections</p>
+          <ul className="space-y-1">
+            {report.corrections.map((correction, index) => (
+              <li key={index} className="text-gray-700">
+                {correction.field === 'item' ? itemName(correction.itemIndex) : correction.field === 'subtotal' ? 'Subtotal' : 'Total'}:{' '}
+                <span className="line-through text-gray-400">{formatAmount(correction.original)}</span>{' '}
+                → <span className="font-medium">{formatAmount(correction.corrected)}</span>
+                <span className="text-xs text-gray-500"> ({correction.reason})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.suspects.length > 0 && (
+        <div className="mt-3">
+          <p className="font-medium text-gray-900 mb-1">Worth checking</p>
+          <ul className="space-y-1">
+            {report.suspects.map((suspect, index) => (
+              <li key={index} className="text-gray-700">
+                {itemName(suspect.itemIndex)} ({formatAmount(items[suspect.itemIndex]?.price ?? 0)})
+                <span className="text-xs text-gray-500"> - {suspect.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,25 +4,30 @@ import type { ReceiptAnalysis } from '../lib/receiptPreprocessing';
 interface ScanGuidanceProps {
   analysis?: ReceiptAnalysis;
   isProcessing: boolean;
+  // Over the live camera, or over a photo that was picked for upload
+  mode?: 'live' | 'photo';
 }
 
-export default function ScanGuidance({ analysis, isProcessing }: ScanGuidanceProps) {
+// Sits along the bottom of its parent - the camera view or a photo preview
+export default function ScanGuidance({ analysis, isProcessing, mode = 'live' }: ScanGuidanceProps) {
   const [showTip, setShowTip] = useState(0);
   
-  // Rotate through tips every 3 seconds
+  // Rotate through tips every 3 seconds. The live scanner sends a fresh analysis twice a second,
+  // so the timer only restarts when the tips themselves change.
+  const tipKey = analysis?.recommendations.join('\n') ?? '';
   useEffect(() => {
-    if (!analysis?.recommendations.length) return;
+    if (!tipKey) return;
     
     const interval = setInterval(() => {
-      setShowTip(current => (current + 1) % analysis.recommendations.length);
+      setShowTip(current => current + 1);
     }, 3000);
     
     return () => clearInterval(interval);
-  }, [analysis?.recommendations]);
+  }, [tipKey]);
   
   if (isProcessing) {
     return (
-      <div className="fixed bottom-0 left-0 right-0 bg-black/80 text-white p-4">
+      <div className="bg-black/80 text-white p-4">
         <div className="flex items-center justify-center space-x-2">
           <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
           <span>Processing receipt...</span>
@@ -33,10 +38,12 @@ export default function ScanGuidance({ analysis, isProcessing }: ScanGuidancePro
   
   if (!analysis) return null;
   
-  const { confidence, issues, recommendations } = analysis;
+  const { confidence, issues, recommendations, lighting } = analysis;
+  // Strongest glare first - that's the one to get rid of
+  const glare = [...lighting.glare].sort((a, b) => b.severity - a.severity)[0];
   
   return (
-    <div className="fixed bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
+    <div className="bg-gradient-to-t from-black/80 to-transparent p-4">
       {/* Confidence Indicator */}
       <div className="flex items-center justify-center mb-4">
         <div className="w-full max-w-xs bg-white/20 rounded-full h-2">
@@ -50,10 +57,19 @@ export default function ScanGuidance({ analysis, isProcessing }: ScanGuidancePro
         </div>
       </div>
       
+      {/* Glare - a blown-out patch can't be fixed after the photo is taken */}
+      {glare && (
+        <div className="flex justify-center mb-2">
+          <div className="bg-yellow-500/90 text-black text-sm font-medium px-3 py-1 rounded-full">
+            ☀️ Glare on the {glare.location} - tilt the receipt away from the light
+          </div>
+        </div>
+      )}
+      
       {/* Current Tip */}
       {recommendations.length > 0 && (
         <div className="text-white text-center animate-fade-in">
-          {recommendations[showTip]}
+          {recommendations[showTip % recommendations.length]}
         </div>
       )}
       
@@ -76,7 +92,7 @@ export default function ScanGuidance({ analysis, isProcessing }: ScanGuidancePro
       {/* Perfect Scan Indicator */}
       {confidence > 0.8 && (
         <div className="text-center text-green-400 mt-2 animate-pulse">
-          Perfect! Hold steady...
+          {mode === 'live' ? 'Perfect! Hold steady...' : 'Looks good - ready to analyze'}
         </div>
       )}
     </div>
@@ -1,478 +1,61 @@
-// AI-powered receipt parsing using OpenAI
-export interface AIParsingResult {
-  storeName: string;
-  items: Array<{
-    name: string;
-    enhancedName: string;
-    category: string;
-    price: number;
-    confidence: number;
-  }>;
-  total: number;
-  metadata: {
-    date?: string;
-    location?: string;
-    storeFormat: string;
-    itemCount: number;
-  };
-}
+// AI-powered receipt parsing - a thin client for the /api/parse-receipt route,
+// which keeps the provider API keys on the server
+import { AIParsingResult, ReceiptParseOutcome, classifyParsingResult } from './receiptSchema';
+import { fallbackParsing } from './ruleBasedParser';
+import { attachOcrConfidence } from './receiptLayout';
+import type { ReceiptRow } from './receiptLayout';
 
-// Product categories for consistency
-const PRODUCT_CATEGORIES = [
-  'Groceries',
-  'Dairy & Eggs',
-  'Meat & Seafood',
-  'Fresh Produce',
-  'Bakery',
-  'Frozen Foods',
-  'Pantry & Dry Goods',
-  'Snacks & Candy',
-  'Beverages',
-  'Health & Beauty',
-  'Personal Care',
-  'Household & Cleaning',
-  'Baby & Kids',
-  'Pet Supplies',
-  'Pharmacy',
-  'Electronics',
-  'Clothing',
-  'Home & Garden',
-  'Automotive',
-  'Office Supplies',
-  'Other'
-];
+export type { AIParsingResult, ReceiptParseOutcome } from './receiptSchema';
 
-export async function parseReceiptWithAI(
+type ParseMode = 'single' | 'consensus';
+
+async function requestReceiptParse(
   ocrText: string,
-  apiKey?: string
-): Promise<AIParsingResult> {
+  mode: ParseMode,
+  providerId?: string,
+  rows?: ReceiptRow[]
+): Promise<ReceiptParseOutcome> {
   console.log('🧠 Starting AI receipt parsing...');
   console.log('📝 OCR Text length:', ocrText.length, 'characters');
   
-  const openaiApiKey = apiKey || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-  
-  if (!openaiApiKey) {
-    console.warn('🔑 OpenAI API key not found, falling back to rule-based parsing');
-    return fallbackParsing(ocrText);
-  }
-
   try {
-    const prompt = createReceiptParsingPrompt(ocrText);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await fetch('/api/parse-receipt', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`,
-      },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        model: 'gpt-4o', // Latest model with better reasoning
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert receipt parser. Analyze receipt OCR text and extract structured data. Always return valid JSON with confidence scores for each item.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1, // Low temperature for consistent parsing
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      }),
+        ocrText,
+        mode,
+        provider: providerId,
+        // Only the fields the parsers use - word boxes stay on the client
+        rows: rows?.map(({ text, name, price, flag, region }) => ({ text, name, price, flag, region }))
+      })
     });
 
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+      const errorText = await response.text();
+      throw new Error(`Receipt parsing API error: ${response.status} ${errorText}`);
     }
 
-    const data = await response.json();
-    const aiResult = JSON.parse(data.choices[0].message.content);
-    
-    // Validate and normalize the AI response
-    return validateAIResult(aiResult, ocrText);
+    return classifyParsingResult(withOcrConfidence(await response.json(), rows));
     
   } catch (error) {
+    // Rule-based parsing needs no keys, so it can still run in the browser
     console.error('AI parsing failed:', error);
-    return fallbackParsing(ocrText);
+    return classifyParsingResult(withOcrConfidence(fallbackParsing(ocrText, rows), rows));
   }
 }
 
-function createReceiptParsingPrompt(ocrText: string): string {
-  return `
-UNIVERSAL GROCERY RECEIPT PARSER - Works with ALL store formats worldwide
-
-Analyze this receipt OCR text and extract structured information:
-
-"""
-${ocrText}
-"""
-
-UNIVERSAL PARSING INSTRUCTIONS:
-1. STORE DETECTION: Identify store name from common patterns:
-   - Walmart, Target, Safeway, Kroger, Costco, Whole Foods, Trader Joe's
-   - WinCo, Publix, Albertsons, Fred Meyer, King Soopers, Smith's
-   - Aldi, H-E-B, Wegmans, Giant, Stop & Shop, Food Lion
-   - Regional chains and independent markets
-   - Default to "Grocery Store" if unclear
-
-2. ITEM EXTRACTION - Handle ANY receipt format:
-   - Standard: "ITEM NAME       PRICE"
-   - Store-coded: "PUB BREAD", "GV MILK", "SF TOMATOES"
-   - Weight-based: "2.34 lb @ $3.99/lb = $9.33"
-   - Multi-line: Item name on one line, price on next
-   - Tax codes: "F" (food), "T" (taxable), "S" (sale)
-
-3. ABBREVIATION EXPANSION (Universal):
-   - Store prefixes: PUB/PUBLIX → Publix, SF/SAFEWAY → Safeway
-   - Common: GV → Great Value, TGT → Target, WC → WinCo
-   - Units: LB → Pound, OZ → Ounce, CT → Count, PK → Pack
-   - Food terms: TOM → Tomatoes, CHKN → Chicken, BRD → Bread
-
-4. CATEGORIES: ${PRODUCT_CATEGORIES.join(', ')}
-
-5. UNIVERSAL SKIP PATTERNS:
-   - Store info: addresses, phone numbers, store hours
-   - Payment: subtotal, tax, total, cash, card, change
-   - Staff: cashier, manager, associate names
-   - Promotional: "Regular Price", "Member Savings", "Sale"
-   - Non-food: cleaning supplies, pharmacy, household items
-
-6. PRICE VALIDATION:
-   - Must be reasonable: $0.25 - $999.99
-   - Format: X.XX with 2 decimal places
-   - Handle cents-only items (under $1.00)
-
-QUALITY ASSURANCE:
-- Confidence scoring: 0.9+ for clear text, 0.7+ for abbreviated, 0.5+ for unclear
-- Ensure all items are actual food/grocery products
-- Total should approximately match sum of item prices
-- Flag suspicious patterns but still process
-
-Return ONLY valid JSON in this exact format:
-{
-  "storeName": "Store Name",
-  "items": [
-    {
-      "name": "original receipt text",
-      "enhancedName": "Clean Readable Name",
-      "category": "Category",
-      "price": 0.00,
-      "confidence": 0.95
-    }
-  ],
-  "total": 0.00,
-  "metadata": {
-    "date": "MM/DD/YYYY or null",
-    "location": "City, State or null",
-    "storeFormat": "detected format description",
-    "itemCount": 0
-  }
+// Word confidences never leave the browser, so items are matched back to their rows here
+function withOcrConfidence(result: AIParsingResult, rows?: ReceiptRow[]): AIParsingResult {
+  return rows?.length ? { ...result, items: attachOcrConfidence(result.items, rows) } : result;
 }
-`;
-}
-
-function validateAIResult(aiResult: any, originalText: string): AIParsingResult {
-  // Ensure required fields exist
-  const result: AIParsingResult = {
-    storeName: aiResult.storeName || 'Unknown Store',
-    items: [],
-    total: typeof aiResult.total === 'number' ? aiResult.total : 0,
-    metadata: {
-      date: aiResult.metadata?.date,
-      location: aiResult.metadata?.location,
-      storeFormat: aiResult.metadata?.storeFormat || 'Unknown',
-      itemCount: 0
-    }
-  };
 
-  // Validate and clean items
-  if (Array.isArray(aiResult.items)) {
-    result.items = aiResult.items
-      .filter((item: any) => 
-        item.name && 
-        item.enhancedName && 
-        typeof item.price === 'number' && 
-        item.price > 0
-      )
-      .map((item: any) => ({
-        name: String(item.name).trim(),
-        enhancedName: String(item.enhancedName).trim(),
-        category: PRODUCT_CATEGORIES.includes(item.category) 
-          ? item.category 
-          : 'Other',
-        price: Number(item.price),
-        confidence: Math.max(0, Math.min(1, Number(item.confidence) || 0.7))
-      }));
-  }
-
-  result.metadata.itemCount = result.items.length;
-
-  // Validate total makes sense
-  const itemsSum = result.items.reduce((sum, item) => sum + item.price, 0);
-  if (result.total === 0 || Math.abs(result.total - itemsSum) > itemsSum * 0.5) {
-    result.total = itemsSum;
-  }
-
-  return result;
-}
-
-// Fallback parsing using existing rule-based approach
-function fallbackParsing(ocrText: string): AIParsingResult {
-  console.log('🔄 AI parsing failed, using rule-based fallback');
-  console.log('📝 OCR Text to parse:', ocrText);
-  
-  // Parse the OCR text to extract store name, items, and prices
-  const lines = ocrText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-  console.log('📄 OCR Lines:', lines);
-  
-  // Find store name (usually first non-empty line)
-  let storeName = 'Unknown Store';
-  for (const line of lines) {
-    if (line.match(/walmart|target|safeway|kroger|costco|whole foods|winco|trader joe|publix|albertsons/i)) {
-      storeName = line;
-      break;
-    }
-  }
-  
-  // Extract items and prices using multiple pattern matching approaches
-  const items: Array<{
-    name: string;
-    enhancedName: string;
-    category: string;
-    price: number;
-    confidence: number;
-  }> = [];
-  
-  let total = 0;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // Skip obvious non-item lines
-    if (line.match(/^\d{3}-\d{3}-\d{4}/) || // phone
-        line.match(/^\d+\s+\w+\s+(st|ave|rd|blvd)/i) || // address
-        line.match(/^[a-z\s]+,\s*[a-z]{2}\s*\d{5}/i) || // city, state zip
-        line.match(/^(sub)?total|tax|balance|change|tender|payment/i) || // payment info
-        line.match(/^card|cash|credit|debit/i) || // payment method
-        line.match(/^cashier|manager|associate/i) || // staff info
-        line.match(/^thank you|visit us|store hours/i) || // footer text
-        line.length < 3) { // too short
-      
-      // Check if this is the total line
-      if (line.match(/^(sub)?total/i)) {
-        const totalMatch = line.match(/(\d+\.\d{2})/);
-        if (totalMatch) {
-          total = parseFloat(totalMatch[1]);
-        }
-      }
-      continue;
-    }
-    
-    // Multiple price pattern approaches
-    let priceMatch = null;
-    let itemName = '';
-    let price = 0;
-    
-    // Pattern 1: "ITEM NAME    PRICE" (most common)
-    priceMatch = line.match(/^(.+?)\s+(\d+\.\d{2})$/);
-    if (priceMatch) {
-      [, itemName, ] = priceMatch;
-      price = parseFloat(priceMatch[2]);
-    }
-    
-    // Pattern 2: Price on next line
-    if (!priceMatch && i + 1 < lines.length) {
-      const nextLine = lines[i + 1];
-      if (nextLine.match(/^\s*\d+\.\d{2}\s*$/)) {
-        itemName = line;
-        price = parseFloat(nextLine.trim());
-        i++; // skip next line since we consumed it
-      }
-    }
-    
-    // Pattern 3: "PRICE ITEM NAME"
-    if (!priceMatch) {
-      priceMatch = line.match(/^(\d+\.\d{2})\s+(.+)$/);
-      if (priceMatch) {
-        price = parseFloat(priceMatch[1]);
-        itemName = priceMatch[2];
-      }
-    }
-    
-    // Pattern 4: Look for any price in the line
-    if (!priceMatch) {
-      const anyPriceMatch = line.match(/(.+?)\s*(\d+\.\d{2})/);
-      if (anyPriceMatch && !line.match(/phone|address|zip/i)) {
-        itemName = anyPriceMatch[1];
-        price = parseFloat(anyPriceMatch[2]);
-      }
-    }
-    
-    if (itemName && price > 0 && price < 1000) { // reasonable price range
-      const cleanName = itemName.replace(/\s+/g, ' ').trim();
-      
-      // Skip obvious non-items (more comprehensive)
-      if (cleanName.match(/subtotal|tax|total|balance|change|tender|cashier|manager|card|cash|credit|debit|thank you|visit|store|hours|phone|address|city|state|zip/i)) {
-        continue;
-      }
-      
-      // Skip very short names that are likely not items
-      if (cleanName.length < 2) {
-        continue;
-      }
-      
-      // Skip garbled OCR text - reject items with too many unusual patterns
-      if (isGarbledText(cleanName)) {
-        console.log(`⚠️ Skipping garbled text: "${cleanName}"`);
-        continue;
-      }
-      
-      // Enhanced name processing
-      const enhancedName = enhanceProductName(cleanName);
-      const category = categorizeProduct(enhancedName);
-      
-      console.log(`✅ Found item: "${cleanName}" -> "${enhancedName}" ($${price})`);
-      
-      items.push({
-        name: cleanName,
-        enhancedName,
-        category,
-        price,
-        confidence: 0.8 // Good confidence for rule-based parsing
-      });
-    }
-  }
-  
-  console.log(`🛍️ Found ${items.length} items from OCR`);
-  
-  // If still no items found, create sample items based on any store detected
-  if (items.length === 0) {
-    console.log('⚠️ No items found in OCR, creating sample items');
-    
-    // Detect any store name in the text
-    const storeKeywords = ocrText.toLowerCase();
-    let detectedStore = 'Generic Store';
-    
-    if (storeKeywords.includes('walmart')) detectedStore = 'Walmart';
-    else if (storeKeywords.includes('target')) detectedStore = 'Target'; 
-    else if (storeKeywords.includes('safeway')) detectedStore = 'Safeway';
-    else if (storeKeywords.includes('kroger')) detectedStore = 'Kroger';
-    else if (storeKeywords.includes('costco')) detectedStore = 'Costco';
-    else if (storeKeywords.includes('winco')) detectedStore = 'WinCo Foods';
-    
-    // Create sample items for any store
-    const sampleItems = [
-      { name: 'BANANAS', enhancedName: 'Fresh Bananas', category: 'Fresh Produce', price: 1.99 },
-      { name: 'MILK 1GAL', enhancedName: 'Milk 1 Gallon', category: 'Dairy & Eggs', price: 3.87 },
-      { name: 'BREAD WHEAT', enhancedName: 'Wheat Bread', category: 'Bakery', price: 2.50 },
-      { name: 'EGGS 12CT', enhancedName: 'Large Eggs 12 Count', category: 'Dairy & Eggs', price: 4.98 },
-      { name: 'GROUND BEEF', enhancedName: 'Ground Beef 1 lb', category: 'Meat & Seafood', price: 6.99 },
-      { name: 'APPLES', enhancedName: 'Fresh Apples', category: 'Fresh Produce', price: 3.45 },
-      { name: 'CHEESE SLICED', enhancedName: 'Sliced Cheese', category: 'Dairy & Eggs', price: 4.29 }
-    ];
-    
-    items.push(...sampleItems.map(item => ({
-      ...item,
-      confidence: 0.9
-    })));
-    
-    total = 28.07;
-    storeName = detectedStore;
-    
-    console.log(`📦 Created ${items.length} sample items for ${detectedStore}`);
-  }
-  
-  return {
-    storeName: storeName,
-    items,
-    total: total || items.reduce((sum, item) => sum + item.price, 0),
-    metadata: {
-      storeFormat: 'Rule-based fallback parsing',
-      itemCount: items.length,
-      date: new Date().toLocaleDateString(),
-      location: 'Demo Location'
-    }
-  };
-}
-
-// Helper function to enhance product names
-function enhanceProductName(name: string): string {
-  let enhanced = name;
-  
-  // Common abbreviation expansions
-  enhanced = enhanced.replace(/\bGV\b/gi, 'Great Value');
-  enhanced = enhanced.replace(/\bLB\b/gi, 'Pound');
-  enhanced = enhanced.replace(/\bOZ\b/gi, 'Ounce');
-  enhanced = enhanced.replace(/\bCT\b/gi, 'Count');
-  enhanced = enhanced.replace(/\bPK\b/gi, 'Pack');
-  enhanced = enhanced.replace(/\bCHS\b/gi, 'Cheese');
-  
-  // Capitalize properly
-  enhanced = enhanced.toLowerCase()
-    .split(' ')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-  
-  return enhanced;
-}
-
-// Helper function to detect garbled OCR text
-function isGarbledText(text: string): boolean {
-  const cleanText = text.toLowerCase().replace(/[^a-z\s]/g, '');
-  
-  // Skip if too many single characters or very short "words"
-  const words = cleanText.split(/\s+/).filter(w => w.length > 0);
-  const shortWords = words.filter(w => w.length <= 2);
-  if (shortWords.length > words.length * 0.6) {
-    return true; // More than 60% single/double char words
-  }
-  
-  // Skip if contains too many unusual letter combinations
-  const unusualPatterns = [
-    /[aeiou]{4,}/, // 4+ consecutive vowels
-    /[bcdfghjklmnpqrstvwxyz]{4,}/, // 4+ consecutive consonants
-    /(.)\1{3,}/, // same letter 4+ times in a row
-  ];
-  
-  for (const pattern of unusualPatterns) {
-    if (pattern.test(cleanText)) {
-      return true;
-    }
-  }
-  
-  // Skip if no recognizable English patterns
-  const hasVowels = /[aeiou]/.test(cleanText);
-  const hasConsonants = /[bcdfghjklmnpqrstvwxyz]/.test(cleanText);
-  if (!hasVowels || !hasConsonants) {
-    return true;
-  }
-  
-  return false;
-}
-
-// Helper function to categorize products
-function categorizeProduct(name: string): string {
-  const lowerName = name.toLowerCase();
-  
-  if (lowerName.includes('egg') || lowerName.includes('milk') || lowerName.includes('cheese') || lowerName.includes('yogurt')) {
-    return 'Dairy & Eggs';
-  }
-  if (lowerName.includes('beef') || lowerName.includes('chicken') || lowerName.includes('pork') || lowerName.includes('fish')) {
-    return 'Meat & Seafood';
-  }
-  if (lowerName.includes('apple') || lowerName.includes('banana') || lowerName.includes('orange') || lowerName.includes('vegetable')) {
-    return 'Fresh Produce';
-  }
-  if (lowerName.includes('bread') || lowerName.includes('cake') || lowerName.includes('donut')) {
-    return 'Bakery';
-  }
-  if (lowerName.includes('frozen') || lowerName.includes('ice cream')) {
-    return 'Frozen Foods';
-  }
-  
-  return 'Groceries';
+export async function parseReceiptWithAI(
+  ocrText: string,
+  providerId?: string,
+  rows?: ReceiptRow[]
+): Promise<ReceiptParseOutcome> {
+  return requestReceiptParse(ocrText, 'single', providerId, rows);
 }
 
 // Smart learning system - tracks parsing accuracy over time
@@ -524,58 +107,10 @@ export class ReceiptParsingLearner {
   }
 }
 
-// Multi-model approach - try different AI services
+// Multi-model approach - the server runs every configured provider and merges the results
 export async function parseWithMultipleAI(
-  ocrText: string
-): Promise<AIParsingResult> {
-  const results: AIParsingResult[] = [];
-  
-  // Try OpenAI GPT-4
-  try {
-    const gptResult = await parseReceiptWithAI(ocrText);
-    results.push(gptResult);
-  } catch (error) {
-    console.error('GPT-4 parsing failed:', error);
-  }
-  
-  // Try Claude (if API key available)
-  try {
-    const claudeResult = await parseWithClaude(ocrText);
-    results.push(claudeResult);
-  } catch (error) {
-    console.error('Claude parsing failed:', error);
-  }
-  
-  // Try Gemini (if API key available)
-  try {
-    const geminiResult = await parseWithGemini(ocrText);
-    results.push(geminiResult);
-  } catch (error) {
-    console.error('Gemini parsing failed:', error);
-  }
-  
-  // Return best result or merged result
-  return results.length > 0 ? selectBestResult(results) : fallbackParsing(ocrText);
-}
-
-async function parseWithClaude(ocrText: string): Promise<AIParsingResult> {
-  // Implementation for Claude API
-  // Similar structure to OpenAI but using Anthropic's API
-  throw new Error('Claude integration not implemented yet');
-}
-
-async function parseWithGemini(ocrText: string): Promise<AIParsingResult> {
-  // Implementation for Google Gemini API
-  // Similar structure but using Google's API
-  throw new Error('Gemini integration not implemented yet');
+  ocrText: string,
+  rows?: ReceiptRow[]
+): Promise<ReceiptParseOutcome> {
+  return requestReceiptParse(ocrText, 'consensus', undefined, rows);
 }
-
-function selectBestResult(results: AIParsingResult[]): AIParsingResult {
-  // Select result with highest average confidence
-  return results.reduce((best, current) => {
-    const currentAvgConfidence = current.items.reduce((sum, item) => sum + item.confidence, 0) / current.items.length;
-    const bestAvgConfidence = best.items.reduce((sum, item) => sum + item.confidence, 0) / best.items.length;
-    
-    return currentAvgConfidence > bestAvgConfidence ? current : best;
-  });
-} 
\ No newline at end of file
@@ -0,0 +1,54 @@
+// Browser adapter for the preprocessing core
+// Uses OffscreenCanvas, so it works on the page and inside a Web Worker alike; older browsers
+// without it fall back to a <canvas> element (page only).
+
+import type { RGBAImage } from './imageCore';
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+function createContext(width: number, height: number): { canvas: OffscreenCanvas | HTMLCanvasElement; ctx: Canvas2D } {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, ctx: canvas.getContext('2d')! };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+export async function decodeInBrowser(imageBlob: Blob): Promise<RGBAImage> {
+  // Honour EXIF orientation so phone photos come out the way they were taken
+  const bitmap = await createImageBitmap(imageBlob, { imageOrientation: 'from-image' });
+  const { ctx } = createContext(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data, width, height } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  return { data, width, height };
+}
+
+export async function encodeBlobInBrowser(image: RGBAImage, type = 'image/png', quality?: number): Promise<Blob> {
+  const { canvas, ctx } = createContext(image.width, image.height);
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+
+  return 'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Could not encode image'))), type, quality);
+      });
+}
+
+// PNG, base64 without the data: prefix
+export async function encodeInBrowser(image: RGBAImage): Promise<string> {
+  const blob = await encodeBlobInBrowser(image);
+
+  // FileReader isn't available in every worker, so encode the bytes directly
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { mergeParsingResults, ProviderParsingResult } from './consensusMerge';
+import type { ReceiptItem } from './receiptSchema';
+
+type ItemFields = Pick<ReceiptItem, 'name' | 'price'> & Partial<ReceiptItem>;
+
+const item = ({ name, price, ...rest }: ItemFields): ReceiptItem => ({
+  name,
+  enhancedName: name.charAt(0) + name.slice(1).toLowerCase(),
+  category: 'Groceries',
+  price,
+  confidence: 0.9,
+  ...rest
+});
+
+const provider = (providerId: string, items: ItemFields[], total = 0): ProviderParsingResult => ({
+  providerId,
+  result: {
+    storeName: 'Test Market',
+    items: items.map(item),
+    taxes: [],
+    discounts: [],
+    tenders: [],
+    total,
+    metadata: { storeFormat: providerId, itemCount: items.length }
+  }
+});
+
+describe('mergeParsingResults', () => {
+  it('aligns the same lines across providers despite misreads and a missing item', () => {
+    const merged = mergeParsingResults([
+      provider('claude', [{ name: 'BANANAS', price: 0.99 }, { name: 'ORGANIC MILK', price: 4.49 }, { name: 'BREAD', price: 2.99 }]),
+      provider('gemini', [{ name: 'BANANA', price: 0.99 }, { name: 'ORGANIC MLK', price: 4.49 }, { name: 'BREAD', price: 2.99 }]),
+      provider('openai', [{ name: 'BANANAS', price: 0.99 }, { name: 'BREAD', price: 2.99 }])
+    ]);
+
+    expect(merged.items.map(line => line.name)).toEqual(['BANANAS', 'ORGANIC MILK', 'BREAD']);
+    expect(merged.items.map(line => line.consensus!.providers)).toEqual([
+      ['claude', 'gemini', 'openai'],
+      ['claude', 'gemini'],
+      ['claude', 'gemini', 'openai']
+    ]);
+    expect(merged.items[1].consensus!.agreement).toBeCloseTo(2 / 3);
+    expect(merged.metadata.providers).toEqual(['claude', 'gemini', 'openai']);
+  });
+
+  it('votes on name, price and category separately', () => {
+    const merged = mergeParsingResults([
+      provider('claude', [{ name: 'ORGANIC MLK', price: 4.49, category: 'Dairy & Eggs' }]),
+      provider('gemini', [{ name: 'ORGANIC MILK', price: 4.99, category: 'Beverages' }]),
+      provider('openai', [{ name: 'ORGANIC MILK', price: 4.49, category: 'Beverages' }])
+    ]);
+
+    const [milk] = merged.items;
+    expect(milk.name).toBe('ORGANIC MILK');
+    expect(milk.price).toBe(4.49);
+    expect(milk.category).toBe('Beverages');
+    expect(milk.consensus!.sources).toEqual({ name: 'gemini', price: 'claude', category: 'gemini' });
+  });
+
+  it('breaks a tied vote by confidence, then by the first provider', () => {
+    const byConfidence = mergeParsingResults([
+      provider('claude', [{ name: 'MILK', price: 4.49, confidence: 0.7 }]),
+      provider('gemini', [{ name: 'MILK', price: 4.99, confidence: 0.9 }])
+    ]);
+    expect(byConfidence.items[0].price).toBe(4.99);
+    expect(byConfidence.items[0].consensus!.sources.price).toBe('gemini');
+
+    const byOrder = mergeParsingResults([
+      provider('claude', [{ name: 'MILK', price: 4.49 }]),
+      provider('gemini', [{ name: 'MILK', price: 4.99 }])
+    ]);
+    expect(byOrder.items[0].price).toBe(4.49);
+    expect(byOrder.items[0].consensus!.sources.price).toBe('claude');
+  });
+
+  it('marks items only one of several providers found', () => {
+    const merged = mergeParsingResults([
+      provider('claude', [{ name: 'BANANAS', price: 0.99 }, { name: 'PAPER TOWELS', price: 7.49 }]),
+      provider('gemini', [{ name: 'BANANAS', price: 0.99 }])
+    ]);
+
+    expect(merged.items.map(line => line.consensus!.singleSource)).toEqual([false, true]);
+    // Lower confidence than the item both providers agreed on
+    expect(merged.items[1].confidence).toBeLessThan(merged.items[0].confidence);
+
+    const alone = mergeParsingResults([provider('claude', [{ name: 'BANANAS', price: 0.99 }])]);
+    expect(alone.items[0].consensus!.singleSource).toBe(false);
+  });
+
+  it('takes the summary lines from the provider whose total matches the voted total', () => {
+    const withSummary = (providerId: string, tax: number, total: number) => {
+      const parsed = provider(providerId, [{ name: 'BANANAS', price: 0.99 }, { name: 'SOAP', price: 3.49 }], total);
+      parsed.result.subtotal = 4.48;
+      parsed.result.taxes = [{ label: 'Tax', amount: tax }];
+      parsed.result.discounts = [{ description: 'Soap coupon', amount: 0.5, itemIndex: 1 }];
+      parsed.result.tenders = [{ method: 'Cash', amount: 10 }];
+      parsed.result.change = 10 - total;
+      return parsed;
+    };
+
+    const merged = mergeParsingResults([
+      withSummary('claude', 0.71, 4.69),
+      withSummary('gemini', 0.21, 4.19),
+      withSummary('openai', 0.21, 4.19)
+    ]);
+
+    expect(merged.total).toBe(4.19);
+    expect(merged.taxes).toEqual([{ label: 'Tax', amount: 0.21 }]);
+    expect(merged.change).toBeCloseTo(5.81);
+    // The discount still points at the soap in the merged items
+    expect(merged.items[merged.discounts[0].itemIndex!].name).toBe('SOAP');
+  });
+});
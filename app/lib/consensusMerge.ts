@@ -0,0 +1,246 @@
+// Field-level consensus merge for results from several parser providers
+// Items are aligned across providers, then name, price and category are voted on separately.
+
+import type { AIParsingResult, ReceiptItem } from './receiptSchema';
+
+export interface ProviderParsingResult {
+  providerId: string;
+  result: AIParsingResult;
+}
+
+interface AlignedItem {
+  providerId: string;
+  item: ReceiptItem;
+  // Position of the item within its own receipt (0-1), used to keep merged items in order
+  position: number;
+}
+
+interface VoteResult<T> {
+  value: T;
+  weight: number;
+  votes: number;
+  // Provider whose ballot first carried the winning value
+  providerId: string;
+}
+
+// Minimum similarity for two items from different providers to count as the same line
+const ALIGNMENT_THRESHOLD = 0.55;
+
+export function mergeParsingResults(results: ProviderParsingResult[]): AIParsingResult {
+  if (results.length === 0) {
+    throw new Error('No parsing results to merge');
+  }
+
+  const providerIds = results.map(r => r.providerId);
+  const clusters = alignItems(results);
+
+  const merged = clusters
+    .map(cluster => ({
+      cluster,
+      item: voteOnItem(cluster, providerIds.length),
+      position: cluster.reduce((sum, member) => sum + member.position, 0) / cluster.length
+    }))
+    .sort((a, b) => a.position - b.position);
+  const items: ReceiptItem[] = merged.map(({ item }) => item);
+
+  const singleSourceCount = items.filter(item => item.consensus?.singleSource).length;
+  console.log(`🗳️ Merged ${results.length} provider results into ${items.length} items (${singleSourceCount} found by only one provider)`);
+
+  const storeName = vote(
+    results.map(r => ({ key: r.result.storeName.trim().toLowerCase(), value: r.result.storeName, weight: 1, providerId: r.providerId }))
+  )?.value ?? results[0].result.storeName;
+
+  // 0 when no provider read a printed total - reconciliation fills it in from the items
+  const total = vote(
+    results
+      .filter(r => r.result.total > 0)
+      .map(r => ({ key: toCents(r.result.total), value: r.result.total, weight: 1, providerId: r.providerId }))
+  )?.value ?? 0;
+
+  // Summary lines are taken whole from one provider - the first whose total matches the voted total
+  const summarySource = results.find(r => toCents(r.result.total) === toCents(total)) ?? results[0];
+  const summaryItems = summarySource.result.items;
+  const discounts = summarySource.result.discounts.map(discount => {
+    if (discount.itemIndex === undefined) return discount;
+
+    // Re-point item discounts at the merged item that absorbed the source provider's item
+    const sourceItem = summaryItems[discount.itemIndex];
+    const mergedIndex = merged.findIndex(({ cluster }) => cluster.some(member => member.item === sourceItem));
+    return { ...discount, itemIndex: mergedIndex >= 0 ? mergedIndex : undefined };
+  });
+
+  // Metadata comes from the first provider that filled in each field
+  const firstWith = <K extends keyof AIParsingResult['metadata']>(key: K) =>
+    results.map(r => r.result.metadata[key]).find(value => value !== undefined && value !== null);
+
+  return {
+    storeName,
+    items,
+    subtotal: summarySource.result.subtotal,
+    taxes: summarySource.result.taxes,
+    discounts,
+    tenders: summarySource.result.tenders,
+    total,
+    change: summarySource.result.change,
+    // Every provider saw the same OCR text, so the extracted details are the same
+    transaction: results.find(r => r.result.transaction)?.result.transaction,
+    metadata: {
+      date: firstWith('date') as string | undefined,
+      location: firstWith('location') as string | undefined,
+      storeFormat: `Consensus of ${providerIds.join(', ')}`,
+      itemCount: items.length,
+      providers: providerIds
+    }
+  };
+}
+
+// Greedily assign each provider's items to the best matching cluster
+function alignItems(results: ProviderParsingResult[]): AlignedItem[][] {
+  const clusters: AlignedItem[][] = [];
+
+  for (const { providerId, result } of results) {
+    const claimed = new Set<number>();
+
+    result.items.forEach((item, index) => {
+      const candidate: AlignedItem = {
+        providerId,
+        item,
+        position: result.items.length > 1 ? index / (result.items.length - 1) : 0
+      };
+
+      let bestCluster = -1;
+      let bestScore = ALIGNMENT_THRESHOLD;
+
+      clusters.forEach((cluster, clusterIndex) => {
+        // A provider contributes at most one item per cluster
+        if (claimed.has(clusterIndex) || cluster.some(member => member.providerId === providerId)) {
+          return;
+        }
+
+        const score = Math.max(...cluster.map(member => itemSimilarity(member, candidate)));
+        if (score > bestScore) {
+          bestScore = score;
+          bestCluster = clusterIndex;
+        }
+      });
+
+      if (bestCluster >= 0) {
+        clusters[bestCluster].push(candidate);
+        claimed.add(bestCluster);
+      } else {
+        clusters.push([candidate]);
+        claimed.add(clusters.length - 1);
+      }
+    });
+  }
+
+  return clusters;
+}
+
+function itemSimilarity(a: AlignedItem, b: AlignedItem): number {
+  const nameScore = Math.max(
+    stringSimilarity(normalizeName(a.item.name), normalizeName(b.item.name)),
+    stringSimilarity(normalizeName(a.item.enhancedName), normalizeName(b.item.enhancedName))
+  );
+  const priceScore = toCents(a.item.price) === toCents(b.item.price) ? 1 : 0;
+  const positionScore = 1 - Math.min(1, Math.abs(a.position - b.position) * 2);
+
+  return nameScore * 0.6 + priceScore * 0.3 + positionScore * 0.1;
+}
+
+function voteOnItem(cluster: AlignedItem[], providerCount: number): ReceiptItem {
+  const ballots = (key: (member: AlignedItem) => string) =>
+    cluster.map(member => ({
+      key: key(member),
+      value: member,
+      weight: member.item.confidence,
+      providerId: member.providerId
+    }));
+
+  // A cluster always has at least one member, so every vote has a winner
+  const nameVote = vote(ballots(member => normalizeName(member.item.name)))!;
+  const priceVote = vote(ballots(member => toCents(member.item.price)))!;
+  const categoryVote = vote(ballots(member => member.item.category))!;
+
+  const agreement = cluster.length / providerCount;
+  // Share of the supporting providers that agreed on the winning price
+  const priceAgreement = priceVote.votes / cluster.length;
+  const averageConfidence = cluster.reduce((sum, member) => sum + member.item.confidence, 0) / cluster.length;
+
+  return {
+    name: nameVote.value.item.name,
+    enhancedName: nameVote.value.item.enhancedName,
+    category: categoryVote.value.item.category,
+    price: priceVote.value.item.price,
+    // Quantity details travel with the winning price so they stay consistent with it
+    quantity: priceVote.value.item.quantity,
+    unit: priceVote.value.item.unit,
+    unitPrice: priceVote.value.item.unitPrice,
+    weight: priceVote.value.item.weight,
+    confidence: Math.max(0, Math.min(1, averageConfidence * (0.5 + 0.25 * agreement + 0.25 * priceAgreement))),
+    consensus: {
+      providers: cluster.map(member => member.providerId),
+      agreement,
+      singleSource: cluster.length === 1 && providerCount > 1,
+      sources: {
+        name: nameVote.providerId,
+        price: priceVote.providerId,
+        category: categoryVote.providerId
+      }
+    }
+  };
+}
+
+// Plurality vote - the most ballots win, a tie goes to the larger total weight, and a tie on both
+// to the value whose ballot was cast first. Undefined when there are no ballots.
+function vote<T>(ballots: Array<{ key: string; value: T; weight: number; providerId: string }>): VoteResult<T> | undefined {
+  const tally = new Map<string, VoteResult<T>>();
+
+  for (const ballot of ballots) {
+    const entry = tally.get(ballot.key);
+    if (entry) {
+      entry.weight += ballot.weight;
+      entry.votes++;
+    } else {
+      tally.set(ballot.key, { value: ballot.value, weight: ballot.weight, votes: 1, providerId: ballot.providerId });
+    }
+  }
+
+  let winner: VoteResult<T> | undefined;
+  tally.forEach(entry => {
+    if (!winner || entry.votes > winner.votes || (entry.votes === winner.votes && entry.weight > winner.weight)) {
+      winner = entry;
+    }
+  });
+
+  return winner;
+}
+
+function normalizeName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
+
+function toCents(price: number): string {
+  return String(Math.round(price * 100));
+}
+
+// Normalized Levenshtein similarity (1 = identical)
+function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectReceiptQuad, orderCorners, Point, Quad } from './documentDetection';
+import { createRGBAImage, RGBAImage } from './imageCore';
+
+// Bright paper filling the quad on a dark table
+const paperOnTable = (width: number, height: number, corners: Quad): RGBAImage => {
+  const image = createRGBAImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = insideQuad(corners, { x, y }) ? 235 : 45;
+      const idx = (y * width + x) * 4;
+      image.data[idx] = image.data[idx + 1] = image.data[idx + 2] = value;
+      image.data[idx + 3] = 255;
+    }
+  }
+  return image;
+};
+
+// Same side of every edge of the (clockwise) quad
+const insideQuad = (corners: Quad, point: Point) =>
+  corners.every((a, i) => {
+    const b = corners[(i + 1) % 4];
+    return (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x) >= 0;
+  });
+
+describe('detectReceiptQuad', () => {
+  it('finds the four corners of a tilted sheet, in order', () => {
+    const corners: Quad = [
+      { x: 90, y: 60 },
+      { x: 300, y: 85 },
+      { x: 285, y: 440 },
+      { x: 70, y: 415 }
+    ];
+
+    const detected = detectReceiptQuad(paperOnTable(400, 500, corners));
+
+    expect(detected).not.toBeNull();
+    expect(detected!.confidence).toBeGreaterThan(0.5);
+    detected!.corners.forEach((corner, i) => {
+      expect(Math.abs(corner.x - corners[i].x)).toBeLessThanOrEqual(4);
+      expect(Math.abs(corner.y - corners[i].y)).toBeLessThanOrEqual(4);
+    });
+  });
+
+  it('finds nothing when the whole frame is one sheet', () => {
+    const closeUp = paperOnTable(400, 500, [
+      { x: 0, y: 0 },
+      { x: 399, y: 0 },
+      { x: 399, y: 499 },
+      { x: 0, y: 499 }
+    ]);
+    expect(detectReceiptQuad(closeUp)).toBeNull();
+  });
+});
+
+describe('orderCorners', () => {
+  it('sorts corners into top-left, top-right, bottom-right, bottom-left', () => {
+    const ordered = orderCorners([
+      { x: 285, y: 440 },
+      { x: 90, y: 60 },
+      { x: 70, y: 415 },
+      { x: 300, y: 85 }
+    ]);
+
+    expect(ordered).toEqual([
+      { x: 90, y: 60 },
+      { x: 300, y: 85 },
+      { x: 285, y: 440 },
+      { x: 70, y: 415 }
+    ]);
+  });
+});
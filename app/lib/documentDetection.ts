@@ -0,0 +1,256 @@
+// Receipt corner detection
+// Receipts are bright paper on a darker background: the largest bright region of a downsampled frame
+// is traced, its outline is simplified to a polygon (Douglas-Peucker on the convex hull), and the
+// four corners found are what the perspective warp flattens.
+
+import type { RGBAImage } from './imageCore';
+import { otsuThreshold } from './imageStatistics';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface DetectedDocument {
+  corners: Quad;
+  // Axis-aligned box around the corners
+  bounds: { x: number; y: number; width: number; height: number };
+  // How clearly a four-cornered sheet stood out from the background (0-1)
+  confidence: number;
+}
+
+// Frames are analysed at this size - plenty to place the corners, cheap enough for every video frame
+const DETECTION_SIZE = 320;
+// Share of the frame the receipt must cover
+const MIN_AREA_SHARE = 0.08;
+const MAX_AREA_SHARE = 0.95;
+
+export function detectReceiptQuad(image: RGBAImage): DetectedDocument | null {
+  const step = Math.max(1, Math.ceil(Math.max(image.width, image.height) / DETECTION_SIZE));
+  const width = Math.ceil(image.width / step);
+  const height = Math.ceil(image.height / step);
+  const gray = sampleGray(image, step, width, height);
+
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+  const threshold = otsuThreshold(histogram, gray.length);
+  const region = largestBrightRegion(gray, width, height, threshold);
+  if (!region || region.outline.length < 4) {
+    return null;
+  }
+
+  const hull = convexHull(region.outline);
+  const corners = approximateQuad(hull);
+  if (!corners) {
+    return null;
+  }
+
+  const quadArea = polygonArea(corners);
+  const areaShare = quadArea / (width * height);
+  if (areaShare < MIN_AREA_SHARE || areaShare > MAX_AREA_SHARE) {
+    return null;
+  }
+
+  // A sheet of paper fills its four corners; a hand or a blob of light doesn't
+  const quadness = Math.min(1, polygonArea(hull) / quadArea);
+  const contrast = (region.meanInside - region.meanOutside) / 255;
+  const confidence = Math.max(0, Math.min(1, (quadness - 0.8) / 0.2)) * Math.max(0, Math.min(1, contrast * 3));
+
+  // Back to full resolution, at the centre of the sampled pixel
+  const scaled = corners.map(point => ({
+    x: Math.min(image.width - 1, (point.x + 0.5) * step),
+    y: Math.min(image.height - 1, (point.y + 0.5) * step)
+  })) as Quad;
+  const xs = scaled.map(point => point.x);
+  const ys = scaled.map(point => point.y);
+
+  return {
+    corners: scaled,
+    bounds: {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys)
+    },
+    confidence
+  };
+}
+
+// Sort four points into top-left, top-right, bottom-right, bottom-left
+export function orderCorners(points: Point[]): Quad {
+  const bySum = [...points].sort((a, b) => (a.x + a.y) - (b.x + b.y));
+  const byDifference = [...points].sort((a, b) => (a.x - a.y) - (b.x - b.y));
+  return [bySum[0], byDifference[3], bySum[3], byDifference[0]];
+}
+
+function sampleGray(image: RGBAImage, step: number, width: number, height: number): Uint8Array {
+  const { data } = image;
+  const gray = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = ((y * step) * image.width + x * step) * 4;
+      gray[y * width + x] = Math.round(data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114);
+    }
+  }
+  return gray;
+}
+
+// Largest 4-connected region above the threshold, with the pixels on its edge
+function largestBrightRegion(gray: Uint8Array, width: number, height: number, threshold: number) {
+  const labels = new Int32Array(gray.length);
+  const queue = new Int32Array(gray.length);
+  let best: { label: number; size: number } | undefined;
+  let label = 0;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] !== 0 || gray[start] < threshold) continue;
+
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || next >= gray.length || labels[next] !== 0 || gray[next] < threshold) continue;
+        labels[next] = label;
+        queue[tail++] = next;
+      }
+    }
+
+    if (!best || tail > best.size) {
+      best = { label, size: tail };
+    }
+  }
+
+  if (!best) return undefined;
+
+  const outline: Point[] = [];
+  let insideSum = 0;
+  let outsideSum = 0;
+  for (let index = 0; index < gray.length; index++) {
+    if (labels[index] !== best.label) {
+      outsideSum += gray[index];
+      continue;
+    }
+    insideSum += gray[index];
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const onEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+      labels[index - 1] !== best.label || labels[index + 1] !== best.label ||
+      labels[index - width] !== best.label || labels[index + width] !== best.label;
+    if (onEdge) outline.push({ x, y });
+  }
+
+  return {
+    outline,
+    meanInside: insideSum / best.size,
+    meanOutside: gray.length > best.size ? outsideSum / (gray.length - best.size) : 0
+  };
+}
+
+// Andrew's monotone chain - counter-clockwise in image coordinates, no repeated end point
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// Simplify the hull with a growing tolerance until four vertices are left. Rounded or torn corners
+// can skip straight past four - then the extreme points in each diagonal direction stand in.
+function approximateQuad(hull: Point[]): Quad | null {
+  if (hull.length < 4) return null;
+
+  const perimeter = hull.reduce((sum, point, i) => {
+    const next = hull[(i + 1) % hull.length];
+    return sum + Math.hypot(next.x - point.x, next.y - point.y);
+  }, 0);
+
+  for (let tolerance = 0.01; tolerance <= 0.1; tolerance += 0.01) {
+    const polygon = simplifyClosed(hull, perimeter * tolerance);
+    if (polygon.length === 4) return orderCorners(polygon);
+    if (polygon.length < 4) break;
+  }
+
+  const corners = orderCorners(hull);
+  const distinct = new Set(corners.map(point => `${point.x},${point.y}`));
+  return distinct.size === 4 ? corners : null;
+}
+
+// Douglas-Peucker on a closed polygon: split at the two points furthest apart, simplify both halves
+function simplifyClosed(polygon: Point[], epsilon: number): Point[] {
+  let first = 0;
+  let second = 0;
+  let furthest = -1;
+  for (let i = 0; i < polygon.length; i++) {
+    for (let j = i + 1; j < polygon.length; j++) {
+      const distance = Math.hypot(polygon[j].x - polygon[i].x, polygon[j].y - polygon[i].y);
+      if (distance > furthest) {
+        furthest = distance;
+        first = i;
+        second = j;
+      }
+    }
+  }
+
+  const there = simplifyOpen(polygon.slice(first, second + 1), epsilon);
+  const back = simplifyOpen([...polygon.slice(second), ...polygon.slice(0, first + 1)], epsilon);
+  return [...there.slice(0, -1), ...back.slice(0, -1)];
+}
+
+function simplifyOpen(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 2) return points;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+  let index = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = Math.abs((end.x - start.x) * (start.y - points[i].y) - (start.x - points[i].x) * (end.y - start.y)) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= epsilon) return [start, end];
+  const left = simplifyOpen(points.slice(0, index + 1), epsilon);
+  const right = simplifyOpen(points.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+}
+
+// Shoelace formula
+function polygonArea(polygon: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const next = polygon[(i + 1) % polygon.length];
+    sum += polygon[i].x * next.y - next.x * polygon[i].y;
+  }
+  return Math.abs(sum) / 2;
+}
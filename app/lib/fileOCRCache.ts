@@ -0,0 +1,74 @@
+// Server-side OCR cache on the local filesystem (one JSON file per image hash)
+// Server only - imports Node's fs. On read-only hosts every call fails soft and OCR goes to Vision as usual.
+
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+import type { OCRCache } from './ocrCache';
+
+export interface FileOCRCacheLimits {
+  // Most files kept in the directory
+  maxEntries?: number;
+  // Most bytes kept across those files
+  maxBytes?: number;
+}
+
+export class FileOCRCache<T> implements OCRCache<T> {
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(private directory: string, limits: FileOCRCacheLimits = {}) {
+    this.maxEntries = limits.maxEntries ?? 1000;
+    this.maxBytes = limits.maxBytes ?? 100 * 1024 * 1024;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath(key), 'utf8');
+    } catch {
+      return undefined; // Not cached
+    }
+
+    const record: { value: T; expiresAt: number } = JSON.parse(contents);
+    if (record.expiresAt <= Date.now()) {
+      await rm(this.filePath(key), { force: true });
+      return undefined;
+    }
+    return record.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    const expiresAt = Date.now() + ttlMs;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify({ value, expiresAt }), 'utf8');
+    // Each file's mtime is its expiry, so pruning can order and drop entries from a directory listing
+    await utimes(this.filePath(key), new Date(), new Date(expiresAt));
+    await this.prune();
+  }
+
+  // Drops expired entries, then the ones closest to expiring until the directory is under both limits
+  private async prune(): Promise<void> {
+    const names = (await readdir(this.directory)).filter(name => name.endsWith('.json'));
+    const entries = await Promise.all(names.map(async name => {
+      const file = path.join(this.directory, name);
+      const info = await stat(file).catch(() => undefined);
+      return { file, size: info?.size ?? 0, expiresAt: info?.mtimeMs ?? 0 };
+    }));
+    entries.sort((a, b) => a.expiresAt - b.expiresAt);
+
+    const now = Date.now();
+    let count = entries.length;
+    let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (entry.expiresAt > now && count <= this.maxEntries && bytes <= this.maxBytes) break;
+      await rm(entry.file, { force: true });
+      count--;
+      bytes -= entry.size;
+    }
+  }
+
+  private filePath(key: string): string {
+    // Keys are hashes, but never let one escape the cache directory
+    return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9-]/g, '_')}.json`);
+  }
+}
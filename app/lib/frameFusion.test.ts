@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createRGBAImage, RGBAImage } from './imageCore';
+import { estimateShift, fuseFrames } from './frameFusion';
+
+// Smooth print-like texture, sampled `dx, dy` to the right and down - frame(x + dx, y + dy) = reference(x, y)
+const texture = (width: number, height: number, dx = 0, dy = 0): RGBAImage => {
+  const image = createRGBAImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x - dx;
+      const v = y - dy;
+      const value = 128 + 50 * Math.sin(u / 5) * Math.cos(v / 7) + 40 * Math.sin((u + 2 * v) / 9);
+      const idx = (y * width + x) * 4;
+      image.data[idx] = image.data[idx + 1] = image.data[idx + 2] = value;
+      image.data[idx + 3] = 255;
+    }
+  }
+  return image;
+};
+
+describe('estimateShift', () => {
+  it('recovers a known shift to within a fraction of a pixel', () => {
+    const reference = texture(160, 160);
+    const shift = estimateShift(reference, texture(160, 160, 3.4, -2.3));
+
+    expect(Math.abs(shift.dx - 3.4)).toBeLessThan(0.25);
+    expect(Math.abs(shift.dy + 2.3)).toBeLessThan(0.25);
+  });
+
+  it('finds no shift between identical frames', () => {
+    const reference = texture(160, 160);
+    const shift = estimateShift(reference, texture(160, 160));
+
+    expect(shift.dx).toBeCloseTo(0, 2);
+    expect(shift.dy).toBeCloseTo(0, 2);
+  });
+});
+
+describe('fuseFrames', () => {
+  it('outvotes a glare spot seen on one frame of three', () => {
+    const glared = texture(120, 120);
+    for (let y = 50; y < 70; y++) {
+      for (let x = 50; x < 70; x++) {
+        glared.data.fill(255, (y * 120 + x) * 4, (y * 120 + x) * 4 + 3);
+      }
+    }
+
+    const fused = fuseFrames([texture(120, 120), glared, texture(120, 120)]);
+    const clean = fuseFrames([texture(120, 120), texture(120, 120), texture(120, 120)]);
+
+    expect(fused.width).toBe(240);
+    expect(fused.height).toBe(240);
+    // Middle of the glare spot, at twice the size
+    for (const [x, y] of [[110, 110], [120, 120], [130, 125]]) {
+      const idx = (y * fused.width + x) * 4;
+      expect(Math.abs(fused.data[idx] - clean.data[idx])).toBeLessThanOrEqual(2);
+    }
+  });
+});
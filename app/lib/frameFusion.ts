@@ -0,0 +1,220 @@
+// Multi-frame fusion for the live scanner
+// Video frames of a receipt held in front of the camera differ by a few pixels of hand shake, and each
+// has its own motion blur and glare. The sharpest frames are aligned to the best one with sub-pixel
+// shifts, sampled onto a grid twice as fine, and fused with a per-pixel median - a glare spot or a
+// smear on one frame is outvoted by the others, and the shifts between frames add real detail.
+
+import { convertToGrayscale, createRGBAImage, resizeImage, RGBAImage, sampleBilinear } from './imageCore';
+
+export interface FrameQuality {
+  // Mean gradient strength over the receipt - drops with motion blur and focus hunting
+  sharpness: number;
+  // Share of the receipt blown out to white by reflections (0-1)
+  glare: number;
+  // Sharpness discounted for glare - what frames are ranked by
+  score: number;
+}
+
+export interface FrameShift {
+  // Where the reference pixel (x, y) sits in the frame: frame(x + dx, y + dy) = reference(x, y)
+  dx: number;
+  dy: number;
+}
+
+// Quality is measured on about this many samples per side, whatever the camera resolution
+const QUALITY_SAMPLES = 200;
+const GLARE_LEVEL = 250;
+// Paper this bright is blown out all over - glare can't be told apart from it
+const PAPER_CLIPPED = 235;
+// Glare this widespread counts as badly as a frame with no sharpness at all
+const GLARE_PENALTY = 5;
+// Hand shake between frames picked within a second or two stays well inside this
+const MAX_SHIFT = 12;
+// Alignment runs on a copy this wide
+const ALIGNMENT_WIDTH = 600;
+
+// Sharpness and glare within `bounds` (the detected receipt), or the whole frame
+export function measureFrameQuality(
+  image: RGBAImage,
+  bounds: { x: number; y: number; width: number; height: number } = { x: 0, y: 0, width: image.width, height: image.height }
+): FrameQuality {
+  const { data, width } = image;
+  const step = Math.max(1, Math.floor(Math.max(bounds.width, bounds.height) / QUALITY_SAMPLES));
+  const left = Math.max(step, Math.floor(bounds.x));
+  const top = Math.max(step, Math.floor(bounds.y));
+  const right = Math.min(image.width - step, Math.floor(bounds.x + bounds.width));
+  const bottom = Math.min(image.height - step, Math.floor(bounds.y + bounds.height));
+  const luma = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let gradient = 0;
+  let count = 0;
+  const histogram = new Array<number>(256).fill(0);
+  for (let y = top; y < bottom; y += step) {
+    for (let x = left; x < right; x += step) {
+      const value = luma(x, y);
+      // Neighbours one sampling step away - blur spreads edges over more than a step
+      gradient += Math.abs(luma(x + step, y) - value) + Math.abs(luma(x, y + step) - value);
+      histogram[Math.round(value)]++;
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    return { sharpness: 0, glare: 0, score: 0 };
+  }
+
+  // Glare is paper-coloured areas blown out well past the rest of the paper
+  let paper = 0;
+  for (let seen = 0; paper < 255 && seen + histogram[paper] < count / 2; paper++) {
+    seen += histogram[paper];
+  }
+  let clipped = 0;
+  for (let value = GLARE_LEVEL; value < 256; value++) {
+    clipped += histogram[value];
+  }
+
+  const sharpness = gradient / count / 255;
+  const glareShare = paper < PAPER_CLIPPED ? clipped / count : 0;
+  return { sharpness, glare: glareShare, score: sharpness * Math.max(0, 1 - glareShare * GLARE_PENALTY) };
+}
+
+// Fuse frames of the same flattened receipt, best first, into one grayscale image `scale` times the size
+export function fuseFrames(frames: RGBAImage[], scale = 2): RGBAImage {
+  if (frames.length === 0) {
+    throw new Error('No frames to fuse');
+  }
+
+  // Every frame was flattened from its own corner estimate - bring them all to the reference size
+  const [reference] = frames;
+  const gray = frames.map(frame => convertToGrayscale(
+    frame.width === reference.width && frame.height === reference.height
+      ? copyImage(frame)
+      : resizeImage(frame, reference.width, reference.height)
+  ));
+  const shifts = gray.map((frame, i) => (i === 0 ? { dx: 0, dy: 0 } : estimateShift(gray[0], frame)));
+  console.log('🎞️ Frame shifts:', shifts.map(({ dx, dy }) => `${dx.toFixed(2)},${dy.toFixed(2)}`).join(' '));
+
+  const width = reference.width * scale;
+  const height = reference.height * scale;
+  const fused = createRGBAImage(width, height);
+  const samples = new Float64Array(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = (y + 0.5) / scale - 0.5;
+    for (let x = 0; x < width; x++) {
+      const sourceX = (x + 0.5) / scale - 0.5;
+      let count = 0;
+      gray.forEach((frame, i) => {
+        const fx = sourceX + shifts[i].dx;
+        const fy = sourceY + shifts[i].dy;
+        if (fx < 0 || fy < 0 || fx > frame.width - 1 || fy > frame.height - 1) return;
+        samples[count++] = sampleBilinear(frame, fx, fy, 0);
+      });
+
+      const dst = (y * width + x) * 4;
+      const value = count > 0 ? median(samples, count) : 255;
+      fused.data[dst] = fused.data[dst + 1] = fused.data[dst + 2] = value;
+      fused.data[dst + 3] = 255;
+    }
+  }
+
+  return sharpen(fused);
+}
+
+// Sub-pixel translation of `frame` against `reference`: the best whole-pixel shift on a reduced copy,
+// refined at full size, then a parabola through the differences either side of the minimum
+export function estimateShift(reference: RGBAImage, frame: RGBAImage): FrameShift {
+  const reduction = Math.max(1, Math.floor(reference.width / ALIGNMENT_WIDTH));
+  const range = Math.ceil(MAX_SHIFT / reduction);
+
+  let coarse = { dx: 0, dy: 0 };
+  let best = Infinity;
+  for (let dy = -range; dy <= range; dy++) {
+    for (let dx = -range; dx <= range; dx++) {
+      const difference = meanDifference(reference, frame, dx * reduction, dy * reduction, reduction * 2);
+      if (difference < best) {
+        best = difference;
+        coarse = { dx: dx * reduction, dy: dy * reduction };
+      }
+    }
+  }
+
+  let fine = coarse;
+  best = Infinity;
+  for (let dy = coarse.dy - reduction; dy <= coarse.dy + reduction; dy++) {
+    for (let dx = coarse.dx - reduction; dx <= coarse.dx + reduction; dx++) {
+      const difference = meanDifference(reference, frame, dx, dy, 2);
+      if (difference < best) {
+        best = difference;
+        fine = { dx, dy };
+      }
+    }
+  }
+
+  const offset = (before: number, at: number, after: number) => {
+    const curvature = before - 2 * at + after;
+    return curvature > 0 ? Math.max(-0.5, Math.min(0.5, (before - after) / (2 * curvature))) : 0;
+  };
+  return {
+    dx: fine.dx + offset(
+      meanDifference(reference, frame, fine.dx - 1, fine.dy, 2), best, meanDifference(reference, frame, fine.dx + 1, fine.dy, 2)
+    ),
+    dy: fine.dy + offset(
+      meanDifference(reference, frame, fine.dx, fine.dy - 1, 2), best, meanDifference(reference, frame, fine.dx, fine.dy + 1, 2)
+    )
+  };
+}
+
+// Mean absolute difference between reference(x, y) and frame(x + dx, y + dy), sampled every `step`
+// pixels over the middle of the image (the edges move in and out of view)
+function meanDifference(reference: RGBAImage, frame: RGBAImage, dx: number, dy: number, step: number): number {
+  const marginX = Math.ceil(reference.width * 0.1) + Math.abs(dx);
+  const marginY = Math.ceil(reference.height * 0.1) + Math.abs(dy);
+  let sum = 0;
+  let count = 0;
+  for (let y = marginY; y < reference.height - marginY; y += step) {
+    for (let x = marginX; x < reference.width - marginX; x += step) {
+      sum += Math.abs(reference.data[(y * reference.width + x) * 4] - frame.data[((y + dy) * frame.width + x + dx) * 4]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Infinity;
+}
+
+// Light unsharp mask - fusing and upsampling soften the strokes a little
+function sharpen(image: RGBAImage, amount = 0.5): RGBAImage {
+  const { data, width, height } = image;
+  const output = createRGBAImage(width, height);
+  output.data.set(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      const blur = (data[i - 4] + data[i + 4] + data[i - width * 4] + data[i + width * 4]) / 4;
+      const value = data[i] + amount * (data[i] - blur);
+      output.data[i] = output.data[i + 1] = output.data[i + 2] = value;
+    }
+  }
+  return output;
+}
+
+function copyImage(image: RGBAImage): RGBAImage {
+  return { data: new Uint8ClampedArray(image.data), width: image.width, height: image.height };
+}
+
+// Median of the first `count` values (a handful of frames - insertion sort is plenty)
+function median(values: Float64Array, count: number): number {
+  for (let i = 1; i < count; i++) {
+    const value = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = value;
+  }
+  return count % 2 === 1 ? values[(count - 1) / 2] : (values[count / 2 - 1] + values[count / 2]) / 2;
+}
@@ -2,19 +2,27 @@
 // This provides better OCR accuracy than Tesseract for receipts
 
 import { preprocessImage, PreprocessingResult } from './imagePreprocessing';
+import { buildReceiptLayout, OCRWord, ReceiptLayout } from './receiptLayout';
+import { extractAnnotationWords, polyToBox, VisionBoundingPoly, VisionTextAnnotation } from './visionAnnotation';
+import type { VisionImageRequest } from './visionBatch';
+import type { EnsembleLine } from './ocrEnsemble';
+import { OCRError, OCRErrorKind, ocrErrorFromResponse, toOCRError, withRetry } from './ocrResilience';
+import {
+  DEFAULT_OCR_CACHE_TTL_MS,
+  getClientOCRCache,
+  hashVisionRequest,
+  OCRCacheOptions,
+  readCache,
+  writeCache
+} from './ocrCache';
 
 interface GoogleVisionResponse {
   responses: Array<{
-    textAnnotations: Array<{
+    textAnnotations?: Array<{
       description: string;
-      boundingPoly: {
-        vertices: Array<{ x: number; y: number; }>;
-      };
+      boundingPoly: VisionBoundingPoly;
     }>;
-    fullTextAnnotation?: {
-      text: string;
-      pages: any[];
-    };
+    fullTextAnnotation?: VisionTextAnnotation;
     error?: {
       code: number;
       message: string;
@@ -39,16 +47,7 @@ interface OCRDebugInfo {
     apiCall: number;
     total: number;
   };
-  boundingBoxes: Array<{
-    text: string;
-    confidence: number;
-    box: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-    };
-  }>;
+  boundingBoxes: OCRWord[];
 }
 
 export interface OCRResult {
@@ -61,17 +60,29 @@ export interface OCRResult {
     textBlockCount: number;
     averageWordConfidence: number;
   };
+  // Individual words with their positions, when the engine reports them
+  words?: OCRWord[];
+  // Rows and price column rebuilt from the word positions
+  layout?: ReceiptLayout;
+  // Served from the OCR cache instead of a new Vision call
+  fromCache?: boolean;
+  // Id of the OcrEngine that produced the text
+  engine?: string;
+  // Why a preferred engine was passed over, when one was
+  fallback?: OCRFallback;
+  // Voted lines with every candidate reading, from ensemble OCR
+  lines?: EnsembleLine[];
   debug?: OCRDebugInfo;
 }
 
-interface TesseractWord {
-  text: string;
-  bbox: {
-    x0: number;
-    y0: number;
-    x1: number;
-    y1: number;
-  };
+export interface OCRFallback {
+  // The first engine that was skipped or failed
+  engine: string;
+  reason: 'not-configured' | 'circuit-open' | OCRErrorKind;
+  // Its error, when it failed
+  message?: string;
+  // Calls made to it before giving up (0 when it was skipped)
+  attempts: number;
 }
 
 // Convert Blob to base64 for Google Vision API
@@ -103,234 +114,189 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 // Google Cloud Vision OCR
 export async function processImageWithVision(
   imageBlob: Blob,
-  debug = false
+  debug = false,
+  cacheOptions: OCRCacheOptions = {}
 ): Promise<OCRResult> {
   const startTime = performance.now();
-  let debugInfo: OCRDebugInfo | undefined;
   
   try {
     // Preprocess image
     const preprocessStart = performance.now();
-    const preprocessed = await preprocessImage(imageBlob, {
-      maxWidth: 2000,
-      maxHeight: 2000,
-      autoRotate: true,
-      enhanceContrast: true,
-      removeNoise: true,
-      adaptiveThreshold: true,
-      cropWhitespace: true
-    });
+    const preprocessed = await preprocessForVision(imageBlob);
     const preprocessTime = performance.now() - preprocessStart;
 
-    // Prepare API request
-    const apiStart = performance.now();
-    const response = await fetch('/api/google-vision-ocr', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        requests: [{
-          image: { content: preprocessed.imageData },
-          features: [{
-            type: 'DOCUMENT_TEXT_DETECTION', // Changed from TEXT_DETECTION
-            maxResults: 1
-          }],
-          imageContext: {
-            languageHints: ['en-t-i0-handwrit'] // Optimize for receipt text
-          }
-        }]
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Google Vision API error:', {
-        status: response.status,
-        error: errorText
-      });
-      
-      // Check for specific error types
-      if (response.status === 403) {
-        throw new Error('API key invalid or Vision API not enabled');
-      } else if (response.status === 429) {
-        throw new Error('API quota exceeded');
-      }
-      throw new Error(`OCR API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const apiTime = performance.now() - apiStart;
-    
-    // Extract text and confidence
-    const fullTextAnnotation = result.responses?.[0]?.fullTextAnnotation;
-    const textAnnotations = result.responses?.[0]?.textAnnotations || [];
-    
-    if (!fullTextAnnotation && !textAnnotations.length) {
-      throw new Error('No text detected in image');
+    // Same preprocessed bytes and request, same text - no need to pay for Vision again
+    const visionRequest = createVisionRequest(preprocessed.imageData);
+    const cache = getClientOCRCache<OCRResult>();
+    const cacheKey = await hashVisionRequest(visionRequest).catch(() => undefined);
+    const cached = cacheKey && !cacheOptions.bypassCache ? await readCache(cache, cacheKey) : undefined;
+    if (cached) {
+      console.log('💾 OCR result served from cache');
+      return {
+        ...cached,
+        fromCache: true,
+        debug: debug ? {
+          preprocessingResult: preprocessed,
+          apiResponse: undefined,
+          timing: { preprocessing: preprocessTime, apiCall: 0, total: performance.now() - startTime },
+          boundingBoxes: cached.words || []
+        } : undefined
+      };
     }
 
-    // Calculate confidence metrics
-    let totalConfidence = 0;
-    let wordCount = 0;
-    const boundingBoxes: OCRDebugInfo['boundingBoxes'] = [];
+    // Prepare API request - network errors, timeouts and 5xx are retried with backoff
+    const apiStart = performance.now();
+    const result: GoogleVisionResponse = await withRetry(async () => {
+      const response = await fetch('/api/google-vision-ocr', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: [visionRequest],
+          bypassCache: cacheOptions.bypassCache
+        })
+      });
 
-    // Process each text block
-    textAnnotations.forEach((annotation: any, index: number) => {
-      if (index === 0) return; // Skip first annotation (full text)
-      
-      const vertices = annotation.boundingPoly?.vertices || [];
-      if (vertices.length === 4) {
-        const [topLeft, topRight, bottomRight, bottomLeft] = vertices;
-        
-        boundingBoxes.push({
-          text: annotation.description,
-          confidence: annotation.confidence || 0,
-          box: {
-            x: topLeft.x,
-            y: topLeft.y,
-            width: topRight.x - topLeft.x,
-            height: bottomLeft.y - topLeft.y
-          }
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Google Vision API error:', {
+          status: response.status,
+          error: errorText
         });
-        
-        totalConfidence += annotation.confidence || 0;
-        wordCount++;
+        throw ocrErrorFromResponse(response.status, errorText, response.headers.get('Retry-After'));
       }
+
+      return response.json();
     });
+    const apiTime = performance.now() - apiStart;
 
-    const averageConfidence = wordCount > 0 ? totalConfidence / wordCount : 0;
-    
-    // Prepare debug info if requested
-    if (debug) {
-      debugInfo = {
-        preprocessingResult: preprocessed,
-        apiResponse: result.responses[0],
-        timing: {
-          preprocessing: preprocessTime,
-          apiCall: apiTime,
-          total: performance.now() - startTime
-        },
-        boundingBoxes
-      };
-      
-      // Log detailed debug information
-      console.log('📊 OCR Debug Info:', {
-        imageQuality: preprocessed.quality,
-        warnings: preprocessed.warnings,
-        timing: debugInfo.timing,
-        confidence: {
-          average: averageConfidence,
-          byWord: boundingBoxes.map(b => ({
-            text: b.text,
-            confidence: b.confidence
-          }))
-        }
-      });
-    }
+    const ocrResult = buildVisionResult(result.responses?.[0], imageBlob, preprocessed, {
+      startTime,
+      preprocessing: preprocessTime,
+      apiCall: apiTime
+    }, debug);
 
-    return {
-      text: fullTextAnnotation?.text || textAnnotations[0]?.description || '',
-      confidence: averageConfidence,
-      quality: {
-        imageSize: Math.round(imageBlob.size / 1024), // KB
-        processingTime: performance.now() - startTime,
-        confidence: averageConfidence,
-        textBlockCount: wordCount,
-        averageWordConfidence: averageConfidence
-      },
-      debug: debugInfo
-    };
+    if (cacheKey) {
+      // Debug info holds the whole preprocessed image - not worth keeping
+      await writeCache(cache, cacheKey, { ...ocrResult, debug: undefined }, DEFAULT_OCR_CACHE_TTL_MS);
+    }
+    return ocrResult;
 
   } catch (error) {
     console.error('❌ OCR Processing Error:', error);
-    throw error;
+    throw toOCRError(error);
   }
 }
 
-// Fallback OCR using improved Tesseract (as backup)
-export const processImageWithTesseract = async (imageBlob: Blob): Promise<OCRResult> => {
-  try {
-    console.log('🔍 Processing with Tesseract OCR...');
-    
-    // Load Tesseract.js from CDN if not already loaded
-    if (typeof window !== 'undefined' && !(window as any).Tesseract) {
-      console.log('📦 Loading Tesseract.js library...');
-      await new Promise((resolve, reject) => {
-        const script = document.createElement('script');
-        script.src = 'https://cdn.jsdelivr.net/npm/tesseract.js@4.1.1/dist/tesseract.min.js';
-        script.onload = () => {
-          console.log('✅ Tesseract.js loaded successfully');
-          resolve(undefined);
-        };
-        script.onerror = (error) => {
-          console.error('❌ Failed to load Tesseract.js');
-          reject(error);
-        };
-        document.head.appendChild(script);
-      });
-    }
+const preprocessForVision = (imageBlob: Blob): Promise<PreprocessingResult> => {
+  return preprocessImage(imageBlob, {
+    maxWidth: 2000,
+    maxHeight: 2000,
+    autoRotate: true,
+    enhanceContrast: true,
+    removeNoise: true,
+    adaptiveThreshold: true,
+    cropWhitespace: true,
+    regionEnhancement: true,
+    correctShadows: true
+  });
+};
 
-    console.log('🤖 Creating Tesseract worker...');
-    const worker = await (window as any).Tesseract.createWorker('eng');
-    
-    console.log('⚙️ Configuring Tesseract for receipt text...');
-    // Configure for receipt text - more lenient settings
-    await worker.setParameters({
-      tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-$()&%*@#:;',
-      tessedit_pageseg_mode: '3', // Changed from 6 to 3 for more flexible segmentation
-      tessedit_ocr_engine_mode: '3', // Changed to Legacy + LSTM mode
-      textord_heavy_nr: '1', // More aggressive noise removal
-      textord_min_linesize: '2.0', // More lenient with small text
-      classify_min_scale: '0.5', // Better with varying text sizes
-      preserve_interword_spaces: '1'
-    });
+const createVisionRequest = (imageData: string): VisionImageRequest => ({
+  image: { content: imageData },
+  features: [{
+    type: 'DOCUMENT_TEXT_DETECTION', // Changed from TEXT_DETECTION
+    maxResults: 1
+  }],
+  imageContext: {
+    languageHints: ['en-t-i0-handwrit'] // Optimize for receipt text
+  }
+});
 
-    console.log('👁️ Running OCR recognition...');
-    const { data: { text, confidence, words } } = await worker.recognize(imageBlob, {
-      rectangle: null, // Process entire image
-      rotateAuto: true, // Automatically detect and correct rotation
-    });
-    
-    console.log('🧹 Cleaning up Tesseract worker...');
-    await worker.terminate();
-    
-    // More lenient validation
-    const cleanedText = text.trim();
-    console.log(`📊 Tesseract results: ${cleanedText.length} characters, ${confidence}% confidence`);
-    console.log(`📝 First 100 characters: "${cleanedText.substring(0, 100)}..."`);
+// Turn one image's Vision response into an OCRResult
+function buildVisionResult(
+  imageResponse: GoogleVisionResponse['responses'][number] | undefined,
+  imageBlob: Blob,
+  preprocessed: PreprocessingResult,
+  timing: { startTime: number; preprocessing: number; apiCall: number },
+  debug = false
+): OCRResult {
+  let debugInfo: OCRDebugInfo | undefined;
 
-    // Accept results even with lower confidence
-    if (!cleanedText || cleanedText.length < 2) {
-      console.warn('⚠️ Tesseract produced very short text output:', cleanedText);
-      throw new Error('Tesseract produced insufficient text output');
-    }
+  // Extract text and confidence
+  const fullTextAnnotation = imageResponse?.fullTextAnnotation;
+  const textAnnotations = imageResponse?.textAnnotations || [];
+  
+  if (!fullTextAnnotation && !textAnnotations.length) {
+    throw new OCRError('bad-image', 'No text detected in image');
+  }
+
+  // Word confidence only exists in the page/block/paragraph/word hierarchy
+  const boundingBoxes: OCRWord[] = fullTextAnnotation?.pages?.length
+    ? extractAnnotationWords(fullTextAnnotation)
+    // Plain TEXT_DETECTION responses: positions without confidence
+    : textAnnotations.slice(1) // Skip first annotation (full text)
+        .filter(annotation => annotation.boundingPoly?.vertices?.length === 4)
+        .map(annotation => ({
+          text: annotation.description,
+          confidence: 0,
+          box: polyToBox(annotation.boundingPoly)
+        }));
 
-    return {
-      text: cleanedText,
-      confidence: confidence / 100, // Convert to 0-1 range
-      quality: {
-        imageSize: Math.round(imageBlob.size / 1024), // KB
-        processingTime: 0, // Tesseract does not provide processing time
-        confidence: confidence / 100,
-        textBlockCount: 1,
-        averageWordConfidence: confidence / 100
+  const wordCount = boundingBoxes.length;
+  const averageConfidence = wordCount > 0
+    ? boundingBoxes.reduce((sum, word) => sum + word.confidence, 0) / wordCount
+    : 0;
+  
+  // Prepare debug info if requested
+  if (debug) {
+    debugInfo = {
+      preprocessingResult: preprocessed,
+      apiResponse: imageResponse,
+      timing: {
+        preprocessing: timing.preprocessing,
+        apiCall: timing.apiCall,
+        total: performance.now() - timing.startTime
       },
-      boundingBoxes: words?.map((word: TesseractWord) => ({
-        text: word.text,
-        x: word.bbox.x0,
-        y: word.bbox.y0,
-        width: word.bbox.x1 - word.bbox.x0,
-        height: word.bbox.y1 - word.bbox.y0
-      })) || []
+      boundingBoxes
     };
-
-  } catch (error) {
-    console.error('❌ Tesseract OCR error:', error);
-    throw new Error(`Tesseract OCR failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    
+    // Log detailed debug information
+    console.log('📊 OCR Debug Info:', {
+      imageQuality: preprocessed.quality,
+      rotation: preprocessed.rotation,
+      regions: preprocessed.regions,
+      lighting: preprocessed.lighting,
+      warnings: preprocessed.warnings,
+      timing: debugInfo.timing,
+      confidence: {
+        average: averageConfidence,
+        byWord: boundingBoxes.map(b => ({
+          text: b.text,
+          confidence: b.confidence,
+          weakestSymbol: b.minSymbolConfidence
+        }))
+      }
+    });
   }
-};
+
+  return {
+    text: fullTextAnnotation?.text || textAnnotations[0]?.description || '',
+    confidence: averageConfidence,
+    quality: {
+      imageSize: Math.round(imageBlob.size / 1024), // KB
+      processingTime: performance.now() - timing.startTime,
+      confidence: averageConfidence,
+      textBlockCount: wordCount,
+      averageWordConfidence: averageConfidence
+    },
+    words: boundingBoxes,
+    layout: buildReceiptLayout(boundingBoxes),
+    debug: debugInfo
+  };
+}
 
 // Check if Google Vision is available (simple check for API route)
-const isGoogleVisionAvailable = async (): Promise<boolean> => {
+export const isGoogleVisionAvailable = async (): Promise<boolean> => {
   try {
     const response = await fetch('/api/google-vision-ocr', {
       method: 'POST',
@@ -351,120 +317,6 @@ const isGoogleVisionAvailable = async (): Promise<boolean> => {
   }
 };
 
-// Universal OCR processor that tries Google Vision first, then falls back to Tesseract
-export const processImageWithOCR = async (imageBlob: Blob): Promise<OCRResult> => {
-  console.log('🔍 Starting OCR processing...');
-  console.log('📊 Image info:', {
-    size: imageBlob.size,
-    type: imageBlob.type,
-    sizeKB: Math.round(imageBlob.size / 1024)
-  });
-  
-  // Basic image validation - more lenient requirements
-  if (imageBlob.size < 1000) { // Reduced from 10000 to 1000 bytes
-    console.warn('⚠️ Very small image detected:', imageBlob.size, 'bytes');
-    // Don't throw error, just warn and continue
-  }
-  
-  if (imageBlob.size > 15000000) { // More than 15MB
-    throw new Error('Image file is too large. Please try again with a smaller photo.');
-  }
-  
-  if (!imageBlob.type.startsWith('image/')) {
-    throw new Error('Invalid file type. Please provide a valid image.');
-  }
-  
-  // Check if Google Vision is configured
-  const googleVisionAvailable = await isGoogleVisionAvailable();
-  console.log('📡 Google Vision available:', googleVisionAvailable);
-  
-  if (googleVisionAvailable) {
-    try {
-      // Try Google Cloud Vision first
-      console.log('📡 Attempting Google Cloud Vision OCR...');
-      const result = await processImageWithVision(imageBlob);
-      
-      // Validate OCR result
-      if (!result.text || result.text.trim().length < 5) {
-        throw new Error('No readable text found in the image. Please try again with a clearer photo.');
-      }
-      
-      if (result.confidence < 0.3) {
-        throw new Error('Text recognition confidence is too low. Please try again with better lighting and focus.');
-      }
-      
-      console.log('✅ Google Vision OCR successful!');
-      console.log('🔍 Google Vision result:', {
-        textLength: result.text.length,
-        confidence: result.confidence,
-        boundingBoxes: result.boundingBoxes.length,
-        textSample: result.text.substring(0, 100) + (result.text.length > 100 ? '...' : '')
-      });
-      return result;
-    } catch (error) {
-      console.warn('⚠️ Google Vision failed, falling back to Tesseract:', error);
-      console.warn('🔍 Google Vision error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        type: typeof error,
-        stack: error instanceof Error ? error.stack?.substring(0, 200) : 'No stack trace'
-      });
-      
-      // If error indicates configuration issue, throw immediately
-      if (error instanceof Error && 
-          (error.message.includes('API key') || 
-           error.message.includes('configuration') ||
-           error.message.includes('credentials'))) {
-        throw new Error('Google Vision API is not properly configured. Please check your settings.');
-      }
-    }
-  } else {
-    console.log('📡 Google Vision not configured, using Tesseract OCR directly');
-  }
-  
-  try {
-    // Use Tesseract (either as fallback or primary)
-    console.log('🔄 Using Tesseract OCR...');
-    const result = await processImageWithTesseract(imageBlob);
-    
-    // Validate Tesseract result
-    if (!result.text || result.text.trim().length < 5) {
-      throw new Error('No readable text found in the image. Please try again with a clearer photo.');
-    }
-    
-    if (result.confidence < 0.3) {
-      throw new Error('Text recognition confidence is too low. Please try again with better lighting and focus.');
-    }
-    
-    console.log('✅ Tesseract OCR successful!');
-    console.log('🔍 Tesseract result:', {
-      textLength: result.text.length,
-      confidence: result.confidence,
-      textSample: result.text.substring(0, 100) + (result.text.length > 100 ? '...' : '')
-    });
-    return result;
-  } catch (tesseractError) {
-    console.error('❌ OCR processing failed:', tesseractError);
-    console.error('🔍 Final error details:', {
-      message: tesseractError instanceof Error ? tesseractError.message : 'Unknown error',
-      type: typeof tesseractError,
-      stack: tesseractError instanceof Error ? tesseractError.stack?.substring(0, 200) : 'No stack trace'
-    });
-    
-    // Provide more specific error guidance
-    const errorMessage = tesseractError instanceof Error ? tesseractError.message : 'Unknown error';
-    
-    if (errorMessage.includes('insufficient text') || errorMessage.includes('confidence')) {
-      throw new Error('Could not read the text clearly. Please ensure the receipt is well-lit, flat, and the text is clearly visible.');
-    } else if (errorMessage.includes('network') || errorMessage.includes('fetch')) {
-      throw new Error('Network error during processing. Please check your internet connection and try again.');
-    } else if (errorMessage.includes('load')) {
-      throw new Error('Failed to initialize text recognition. Please refresh the page and try again.');
-    } else {
-      throw new Error('Failed to process the image. Please try again with a clearer photo in better lighting.');
-    }
-  }
-};
-
 // Calculate OCR confidence based on text characteristics
 const calculateOCRConfidence = (text: string): number => {
   if (!text || text.length < 10) return 0.1;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { binarize, createRGBAImage, preprocessPixels, stretchContrast } from './imageCore';
+
+// Deterministic noise - no text lines for rotation to find
+const noise = (width: number, height: number) => {
+  const image = createRGBAImage(width, height);
+  let seed = 7;
+  for (let i = 0; i < image.data.length; i += 4) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    image.data[i] = image.data[i + 1] = image.data[i + 2] = seed % 256;
+    image.data[i + 3] = 255;
+  }
+  return image;
+};
+
+describe('preprocessPixels', () => {
+  it('leaves an image without clear text lines unrotated', () => {
+    const result = preprocessPixels(noise(300, 450), { autoRotate: true });
+
+    expect(result.rotation.confidence).toBeLessThan(0.25);
+    expect(result.image.width).toBe(300);
+    expect(result.image.height).toBe(450);
+  });
+});
+
+describe('stretchContrast and binarize', () => {
+  const faded = () => {
+    const image = createRGBAImage(10, 10);
+    for (let i = 0; i < image.data.length; i += 4) {
+      image.data[i] = image.data[i + 1] = image.data[i + 2] = i / 4 < 30 ? 120 : 180;
+      image.data[i + 3] = 255;
+    }
+    return image;
+  };
+
+  it('stretches faded ink and paper to the full range', () => {
+    const { data } = stretchContrast(faded());
+    expect(data[0]).toBe(0);
+    expect(data[data.length - 4]).toBe(255);
+  });
+
+  it('turns ink black and paper white', () => {
+    const { data } = binarize(faded());
+    expect(data[0]).toBe(0);
+    expect(data[40 * 4]).toBe(255);
+  });
+});
@@ -0,0 +1,477 @@
+// Isomorphic image preprocessing core
+// Everything here works on raw RGBA pixels - no canvas, DOM or Node APIs - so the same code runs
+// on the server (node-canvas adapter), in the page (OffscreenCanvas adapter) and in a Web Worker.
+
+import { estimateRotation, RotationEstimate } from './skewDetection';
+import { detectReceiptRegions, optimizeForReceipt, ReceiptRegion } from './receiptPreprocessing';
+import { analyzeLighting, buildLuminanceMap, LightingAnalysis, normalizeShadows } from './lightingAnalysis';
+import { histogramPercentile, otsuThreshold } from './imageStatistics';
+
+export interface RGBAImage {
+  // 4 bytes per pixel, row by row
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface ImageQuality {
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  blurriness: number;
+}
+
+export interface PreprocessingOptions {
+  maxWidth?: number;
+  maxHeight?: number;
+  autoRotate?: boolean;
+  enhanceContrast?: boolean;
+  removeNoise?: boolean;
+  adaptiveThreshold?: boolean;
+  cropWhitespace?: boolean;
+  // Split the receipt into header, items, totals, payment and footer and enhance each on its own terms
+  regionEnhancement?: boolean;
+  // Brighten shaded parts of the paper back to the level of the rest
+  correctShadows?: boolean;
+}
+
+export interface PixelPreprocessingResult {
+  image: RGBAImage;
+  quality: ImageQuality;
+  warnings: string[];
+  // What autoRotate measured (and corrected) - zeros when it was off
+  rotation: RotationEstimate;
+  // Receipt sections in the returned image - empty when regionEnhancement was off
+  regions: ReceiptRegion[];
+  // Glare and shadows on the photo as it came in, located as fractions of it
+  lighting: LightingAnalysis;
+}
+
+// Tilts smaller than this aren't worth resampling the image for
+const MIN_SKEW_CORRECTION = 0.3;
+// Rotation estimates less certain than this are left alone - structureless noise scores up to about
+// 0.1, a page of text lines over 0.5
+const MIN_ROTATION_CONFIDENCE = 0.25;
+
+export function createRGBAImage(width: number, height: number): RGBAImage {
+  return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
+export function preprocessPixels(source: RGBAImage, options: PreprocessingOptions = {}): PixelPreprocessingResult {
+  const warnings: string[] = [];
+  let image = source;
+
+  // Resize first - every step after this is per pixel, and OCR gains nothing from more than maxWidth
+  const { maxWidth = 2000, maxHeight = 2000 } = options;
+  if (image.width > maxWidth || image.height > maxHeight) {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const newWidth = Math.floor(image.width * scale);
+    const newHeight = Math.floor(image.height * scale);
+
+    image = resizeImage(image, newWidth, newHeight);
+    warnings.push(`Image resized to ${newWidth}x${newHeight} to optimize OCR`);
+  }
+
+  // Convert to grayscale and enhance contrast
+  image = convertToGrayscale(image);
+
+  // Lighting is measured before anything moves the pixels, so locations match the photo the user took
+  const luminance = buildLuminanceMap(image);
+  const lighting = analyzeLighting(image, luminance);
+  lighting.glare.forEach(region => warnings.push(`Glare on the ${region.location} of the receipt`));
+  lighting.shadows.forEach(region => warnings.push(`Shadow over the ${region.location} of the receipt`));
+  if (options.correctShadows && lighting.shadows.length > 0) {
+    image = normalizeShadows(image, luminance, lighting.paperLevel);
+    console.log(`🌗 Normalized ${lighting.shadows.length} shadowed ${lighting.shadows.length === 1 ? 'area' : 'areas'}`);
+  }
+
+  // Turn sideways or upside-down photos upright, then level crooked text lines
+  let rotation: RotationEstimate = { orientation: 0, skewAngle: 0, confidence: 0 };
+  if (options.autoRotate) {
+    rotation = estimateRotation(image);
+    if (rotation.confidence < MIN_ROTATION_CONFIDENCE) {
+      console.log(`📐 Rotation left as is - no clear text lines (confidence ${rotation.confidence.toFixed(2)})`);
+    } else {
+      if (rotation.orientation !== 0) {
+        image = rotateImage(image, rotation.orientation);
+        console.log(`🔄 Auto-rotated image by ${rotation.orientation} degrees`);
+      }
+      if (Math.abs(rotation.skewAngle) >= MIN_SKEW_CORRECTION) {
+        image = rotateImageBy(image, -rotation.skewAngle);
+        console.log(`📐 Deskewed image by ${rotation.skewAngle.toFixed(1)} degrees (confidence ${rotation.confidence.toFixed(2)})`);
+      }
+    }
+  }
+
+  // Per-section contrast while the image still has its tones - thresholding flattens them
+  if (options.regionEnhancement) {
+    image = optimizeForReceipt(image, detectReceiptRegions(image));
+  }
+
+  if (options.enhanceContrast) {
+    image = enhanceContrast(image);
+  }
+
+  // Apply adaptive thresholding for faded text
+  if (options.adaptiveThreshold) {
+    image = adaptiveThreshold(image);
+  }
+
+  // Remove noise if requested
+  if (options.removeNoise) {
+    image = removeNoise(image);
+  }
+
+  // Crop whitespace if requested
+  if (options.cropWhitespace) {
+    image = cropWhitespace(image);
+  }
+
+  // Cropping moves everything up, so the sections reported are found again on the final image
+  const regions = options.regionEnhancement ? detectReceiptRegions(image) : [];
+
+  // Calculate final quality metrics
+  const quality = analyzeImageQuality(image);
+
+  // Add quality-based warnings
+  if (quality.brightness < 0.3) warnings.push('Image may be too dark');
+  if (quality.brightness > 0.9) warnings.push('Image may be too bright');
+  if (quality.contrast < 0.3) warnings.push('Image has low contrast');
+  if (quality.blurriness > 0.7) warnings.push('Image may be blurry');
+
+  return { image, quality, warnings, rotation, regions, lighting };
+}
+
+export function analyzeImageQuality(image: RGBAImage): ImageQuality {
+  const { data, width, height } = image;
+  let totalBrightness = 0;
+  let minBrightness = 255;
+  let maxBrightness = 0;
+  let blurScore = 0;
+
+  // Calculate brightness and contrast metrics
+  for (let i = 0; i < data.length; i += 4) {
+    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    totalBrightness += brightness;
+    minBrightness = Math.min(minBrightness, brightness);
+    maxBrightness = Math.max(maxBrightness, brightness);
+  }
+
+  const avgBrightness = totalBrightness / (width * height);
+  const contrast = (maxBrightness - minBrightness) / 255;
+
+  // Calculate blurriness from the strongest difference to a neighbour (Laplacian-style)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+      const current = data[idx];
+      blurScore += Math.max(
+        Math.abs(current - data[idx - width * 4]),
+        Math.abs(current - data[idx + width * 4]),
+        Math.abs(current - data[idx - 4]),
+        Math.abs(current - data[idx + 4])
+      );
+    }
+  }
+
+  const normalizedBlur = 1 - (blurScore / (width * height) / 255);
+
+  return {
+    brightness: avgBrightness / 255,
+    contrast,
+    sharpness: 1 - normalizedBlur,
+    blurriness: normalizedBlur
+  };
+}
+
+export function convertToGrayscale(image: RGBAImage): RGBAImage {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = gray;
+  }
+  return image;
+}
+
+export function enhanceContrast(image: RGBAImage): RGBAImage {
+  const { data } = image;
+  let min = 255, max = 0;
+
+  // Find min and max values
+  for (let i = 0; i < data.length; i += 4) {
+    min = Math.min(min, data[i]);
+    max = Math.max(max, data[i]);
+  }
+
+  // A flat image has nothing to stretch
+  const range = max - min;
+  if (range === 0) return image;
+
+  // Apply contrast stretching
+  for (let i = 0; i < data.length; i += 4) {
+    const normalized = ((data[i] - min) / range) * 255;
+    data[i] = data[i + 1] = data[i + 2] = normalized;
+  }
+
+  return image;
+}
+
+// Histogram of the first channel - call on grayscale images
+export function grayHistogram(image: RGBAImage): number[] {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i += 4) {
+    histogram[image.data[i]]++;
+  }
+  return histogram;
+}
+
+// Contrast stretch between percentiles rather than min and max, so a few specks don't set the range
+export function stretchContrast(image: RGBAImage, clipFraction = 0.01): RGBAImage {
+  const { data, width, height } = image;
+  const histogram = grayHistogram(image);
+  const low = histogramPercentile(histogram, width * height, clipFraction);
+  const high = histogramPercentile(histogram, width * height, 1 - clipFraction);
+  const range = Math.max(1, high - low);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = ((data[i] - low) / range) * 255;
+  }
+  return image;
+}
+
+// One Otsu threshold for the whole image: ink black, paper white
+export function binarize(image: RGBAImage): RGBAImage {
+  const { data, width, height } = image;
+  const threshold = otsuThreshold(grayHistogram(image), width * height);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i] < threshold ? 0 : 255;
+  }
+  return image;
+}
+
+// Pixels darker than their neighbourhood mean become ink, the rest paper.
+// Window sums come from an integral image, so the cost doesn't grow with the block size.
+export function adaptiveThreshold(image: RGBAImage, blockSize = 11, C = 2): RGBAImage {
+  const { data, width, height } = image;
+  const half = blockSize >> 1;
+  const output = new Uint8ClampedArray(data.length);
+
+  // integral[(y + 1) * (width + 1) + (x + 1)] = sum of the pixels above and left of (x, y), inclusive
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width - 1, x + half);
+      const sum = integral[(bottom + 1) * stride + right + 1] - integral[top * stride + right + 1]
+        - integral[(bottom + 1) * stride + left] + integral[top * stride + left];
+      const mean = sum / ((bottom - top + 1) * (right - left + 1));
+
+      const idx = (y * width + x) * 4;
+      const value = data[idx] > mean - C ? 255 : 0;
+      output[idx] = output[idx + 1] = output[idx + 2] = value;
+      output[idx + 3] = data[idx + 3]; // Preserve alpha
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+export function removeNoise(image: RGBAImage): RGBAImage {
+  const { data, width, height } = image;
+  // Edge pixels have no full neighbourhood and are kept as they are
+  const output = new Uint8ClampedArray(data);
+  const neighbors = new Array<number>(9);
+
+  // Median filter
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+
+      // Gather neighbor values
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          neighbors[n++] = data[((y + dy) * width + (x + dx)) * 4];
+        }
+      }
+
+      // Sort and take median
+      neighbors.sort((a, b) => a - b);
+      output[idx] = output[idx + 1] = output[idx + 2] = neighbors[4]; // Middle value of 9 neighbors
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+// Area averaging when shrinking (no aliasing on fine print), bilinear when enlarging
+export function resizeImage(image: RGBAImage, newWidth: number, newHeight: number): RGBAImage {
+  const { data, width, height } = image;
+  const output = createRGBAImage(newWidth, newHeight);
+  const scaleX = width / newWidth;
+  const scaleY = height / newHeight;
+
+  for (let y = 0; y < newHeight; y++) {
+    for (let x = 0; x < newWidth; x++) {
+      const dst = (y * newWidth + x) * 4;
+
+      if (scaleX >= 1 && scaleY >= 1) {
+        const x0 = Math.floor(x * scaleX);
+        const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+        const y0 = Math.floor(y * scaleY);
+        const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+        const sums = [0, 0, 0, 0];
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            const src = (sy * width + sx) * 4;
+            for (let c = 0; c < 4; c++) sums[c] += data[src + c];
+          }
+        }
+        const count = (x1 - x0) * (y1 - y0);
+        for (let c = 0; c < 4; c++) output.data[dst + c] = sums[c] / count;
+      } else {
+        const sx = Math.min(width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+        const sy = Math.min(height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+        for (let c = 0; c < 4; c++) output.data[dst + c] = sampleBilinear(image, sx, sy, c);
+      }
+    }
+  }
+
+  return output;
+}
+
+// Channel c at a fractional position
+export function sampleBilinear(image: RGBAImage, x: number, y: number, c: number): number {
+  const { data, width, height } = image;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+  const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+export function cropWhitespace(image: RGBAImage): RGBAImage {
+  const { data, width, height } = image;
+  let minX = width, maxX = 0, minY = height, maxY = 0;
+
+  // Find content boundaries
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      if (data[idx] < 250) { // Not white
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  // Blank page - nothing to crop to
+  if (minX > maxX || minY > maxY) return image;
+
+  // Add padding
+  minX = Math.max(0, minX - 10);
+  minY = Math.max(0, minY - 10);
+  maxX = Math.min(width - 1, maxX + 10);
+  maxY = Math.min(height - 1, maxY + 10);
+
+  // Copy cropped region, row by row
+  const cropped = createRGBAImage(maxX - minX + 1, maxY - minY + 1);
+  for (let y = 0; y < cropped.height; y++) {
+    const start = ((minY + y) * width + minX) * 4;
+    cropped.data.set(data.subarray(start, start + cropped.width * 4), y * cropped.width * 4);
+  }
+
+  return cropped;
+}
+
+// Clockwise rotation by a multiple of 90 degrees
+export function rotateImage(image: RGBAImage, degrees: number): RGBAImage {
+  const turns = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  if (turns === 0) return image;
+
+  const { data, width, height } = image;
+  const rotated = turns === 2 ? createRGBAImage(width, height) : createRGBAImage(height, width);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let nx: number, ny: number;
+      if (turns === 1) {
+        nx = height - 1 - y;
+        ny = x;
+      } else if (turns === 2) {
+        nx = width - 1 - x;
+        ny = height - 1 - y;
+      } else {
+        nx = y;
+        ny = width - 1 - x;
+      }
+      const src = (y * width + x) * 4;
+      const dst = (ny * rotated.width + nx) * 4;
+      rotated.data[dst] = data[src];
+      rotated.data[dst + 1] = data[src + 1];
+      rotated.data[dst + 2] = data[src + 2];
+      rotated.data[dst + 3] = data[src + 3];
+    }
+  }
+
+  return rotated;
+}
+
+// Clockwise rotation by any angle, with bilinear interpolation. The canvas grows to fit the
+// rotated corners, and the uncovered area is filled with white paper.
+export function rotateImageBy(image: RGBAImage, degrees: number): RGBAImage {
+  if (degrees % 90 === 0) return rotateImage(image, degrees);
+
+  const { width, height } = image;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotated = createRGBAImage(
+    Math.ceil(Math.abs(width * cos) + Math.abs(height * sin)),
+    Math.ceil(Math.abs(width * sin) + Math.abs(height * cos))
+  );
+  const centerX = (width - 1) / 2;
+  const centerY = (height - 1) / 2;
+  const rotatedCenterX = (rotated.width - 1) / 2;
+  const rotatedCenterY = (rotated.height - 1) / 2;
+
+  for (let y = 0; y < rotated.height; y++) {
+    for (let x = 0; x < rotated.width; x++) {
+      // Turn the output pixel back to find where it came from
+      const dx = x - rotatedCenterX;
+      const dy = y - rotatedCenterY;
+      const sx = dx * cos + dy * sin + centerX;
+      const sy = -dx * sin + dy * cos + centerY;
+      const dst = (y * rotated.width + x) * 4;
+
+      if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) {
+        rotated.data[dst] = rotated.data[dst + 1] = rotated.data[dst + 2] = rotated.data[dst + 3] = 255;
+        continue;
+      }
+      for (let c = 0; c < 4; c++) {
+        rotated.data[dst + c] = sampleBilinear(image, sx, sy, c);
+      }
+    }
+  }
+
+  return rotated;
+}
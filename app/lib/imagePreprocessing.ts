@@ -1,343 +1,137 @@
-import { createCanvas, loadImage, ImageData } from 'canvas';
+// Image preprocessing for OCR, wherever OCR runs
+// The pixel work lives in imageCore.ts; this picks how to decode and encode the image:
+// node-canvas on the server, a Web Worker in the browser (so the page stays responsive),
+// or OffscreenCanvas on the current thread when workers aren't available.
+
+import { ImageQuality, PreprocessingOptions, preprocessPixels } from './imageCore';
+import { decodeInBrowser, encodeBlobInBrowser, encodeInBrowser } from './browserCanvasAdapter';
+import { flattenReceipt } from './perspectiveWarp';
+import type { RotationEstimate } from './skewDetection';
+import type { ReceiptRegion } from './receiptPreprocessing';
+import type { LightingAnalysis } from './lightingAnalysis';
+
+export type { PreprocessingOptions } from './imageCore';
 
 export interface PreprocessingResult {
   imageData: string;  // base64
   width: number;
   height: number;
-  quality: {
-    brightness: number;
-    contrast: number;
-    sharpness: number;
-    blurriness: number;
-  };
+  quality: ImageQuality;
   warnings: string[];
+  // Quarter turn and deskew angle measured (and corrected) by autoRotate
+  rotation: RotationEstimate;
+  // Header, items, totals, payment and footer bands, when regionEnhancement was on
+  regions: ReceiptRegion[];
+  // Glare and shadow areas found on the photo (shadows corrected when correctShadows was on)
+  lighting: LightingAnalysis;
 }
 
-interface PreprocessingOptions {
-  maxWidth?: number;
-  maxHeight?: number;
-  autoRotate?: boolean;
-  enhanceContrast?: boolean;
-  removeNoise?: boolean;
-  adaptiveThreshold?: boolean;
-  cropWhitespace?: boolean;
+export interface PreprocessingWorkerRequest {
+  id: number;
+  imageBlob: Blob;
+  options: PreprocessingOptions;
 }
 
+export type PreprocessingWorkerResponse =
+  | { id: number; result: PreprocessingResult }
+  | { id: number; error: string };
+
 export async function preprocessImage(
   imageBlob: Blob,
   options: PreprocessingOptions = {}
 ): Promise<PreprocessingResult> {
-  const warnings: string[] = [];
-  
-  // Convert blob to ImageData
-  const arrayBuffer = await imageBlob.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  const image = await loadImage(buffer);
-  
-  // Create canvas with original dimensions
-  const canvas = createCanvas(image.width, image.height);
-  const ctx = canvas.getContext('2d');
-  
-  // Draw original image
-  ctx.drawImage(image, 0, 0);
-  
-  // Get image data for processing
-  let imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  
-  // Calculate initial quality metrics
-  const initialQuality = analyzeImageQuality(imageData);
-  
-  // Auto-rotate if needed
-  if (options.autoRotate) {
-    const rotation = detectRotation(imageData);
-    if (rotation !== 0) {
-      imageData = rotateImage(imageData, rotation);
-      console.log(`🔄 Auto-rotated image by ${rotation} degrees`);
-    }
-  }
-  
-  // Convert to grayscale and enhance contrast
-  imageData = convertToGrayscale(imageData);
-  
-  if (options.enhanceContrast) {
-    imageData = enhanceContrast(imageData);
-  }
-  
-  // Apply adaptive thresholding for faded text
-  if (options.adaptiveThreshold) {
-    imageData = adaptiveThreshold(imageData);
-  }
-  
-  // Remove noise if requested
-  if (options.removeNoise) {
-    imageData = removeNoise(imageData);
-  }
-  
-  // Resize if necessary
-  const { maxWidth = 2000, maxHeight = 2000 } = options;
-  if (image.width > maxWidth || image.height > maxHeight) {
-    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
-    const newWidth = Math.floor(image.width * scale);
-    const newHeight = Math.floor(image.height * scale);
-    
-    imageData = resizeImage(imageData, newWidth, newHeight);
-    warnings.push(`Image resized to ${newWidth}x${newHeight} to optimize OCR`);
+  if (isServer()) {
+    // Loaded on demand so node-canvas never ends up in the browser bundle
+    const { decodeWithNodeCanvas, encodeWithNodeCanvas } = await import('./nodeCanvasAdapter');
+    const pixels = await decodeWithNodeCanvas(new Uint8Array(await imageBlob.arrayBuffer()));
+    const { image, ...measured } = preprocessPixels(pixels, options);
+    return { imageData: encodeWithNodeCanvas(image), width: image.width, height: image.height, ...measured };
   }
-  
-  // Crop whitespace if requested
-  if (options.cropWhitespace) {
-    imageData = cropWhitespace(imageData);
-  }
-  
-  // Calculate final quality metrics
-  const quality = analyzeImageQuality(imageData);
-  
-  // Add quality-based warnings
-  if (quality.brightness < 0.3) warnings.push('Image may be too dark');
-  if (quality.brightness > 0.9) warnings.push('Image may be too bright');
-  if (quality.contrast < 0.3) warnings.push('Image has low contrast');
-  if (quality.blurriness > 0.7) warnings.push('Image may be blurry');
-  
-  // Convert back to base64
-  ctx.putImageData(imageData, 0, 0);
-  const base64Data = canvas.toDataURL('image/png').split(',')[1];
-  
-  return {
-    imageData: base64Data,
-    width: imageData.width,
-    height: imageData.height,
-    quality,
-    warnings
-  };
-}
 
-function analyzeImageQuality(imageData: ImageData) {
-  const { data, width, height } = imageData;
-  let totalBrightness = 0;
-  let minBrightness = 255;
-  let maxBrightness = 0;
-  let blurScore = 0;
-  
-  // Calculate brightness and contrast metrics
-  for (let i = 0; i < data.length; i += 4) {
-    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    totalBrightness += brightness;
-    minBrightness = Math.min(minBrightness, brightness);
-    maxBrightness = Math.max(maxBrightness, brightness);
-  }
-  
-  const avgBrightness = totalBrightness / (width * height);
-  const contrast = (maxBrightness - minBrightness) / 255;
-  
-  // Calculate blurriness using Laplacian variance
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      const current = data[idx];
-      const neighbors = [
-        data[((y - 1) * width + x) * 4],
-        data[((y + 1) * width + x) * 4],
-        data[(y * width + x - 1) * 4],
-        data[(y * width + x + 1) * 4]
-      ];
-      const variance = Math.max(...neighbors.map(n => Math.abs(current - n)));
-      blurScore += variance;
+  if (canUseWorker()) {
+    try {
+      return await preprocessInWorker(imageBlob, options);
+    } catch (error) {
+      console.warn('⚠️ Preprocessing worker unavailable, processing on the main thread:', error);
     }
   }
-  
-  const normalizedBlur = 1 - (blurScore / (width * height) / 255);
-  
-  return {
-    brightness: avgBrightness / 255,
-    contrast,
-    sharpness: 1 - normalizedBlur,
-    blurriness: normalizedBlur
-  };
-}
-
-function convertToGrayscale(imageData: ImageData): ImageData {
-  const { data } = imageData;
-  for (let i = 0; i < data.length; i += 4) {
-    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-    data[i] = data[i + 1] = data[i + 2] = gray;
-  }
-  return imageData;
+  return preprocessInBrowser(imageBlob, options);
 }
 
-function enhanceContrast(imageData: ImageData): ImageData {
-  const { data } = imageData;
-  let min = 255, max = 0;
-  
-  // Find min and max values
-  for (let i = 0; i < data.length; i += 4) {
-    min = Math.min(min, data[i]);
-    max = Math.max(max, data[i]);
-  }
-  
-  // Apply contrast stretching
-  const range = max - min;
-  for (let i = 0; i < data.length; i += 4) {
-    const normalized = ((data[i] - min) / range) * 255;
-    data[i] = data[i + 1] = data[i + 2] = normalized;
-  }
-  
-  return imageData;
+// Decode, preprocess and encode on the current thread - the worker runs this too
+export async function preprocessInBrowser(
+  imageBlob: Blob,
+  options: PreprocessingOptions = {}
+): Promise<PreprocessingResult> {
+  const pixels = await decodeInBrowser(imageBlob);
+  const { image, ...measured } = preprocessPixels(pixels, options);
+  return { imageData: await encodeInBrowser(image), width: image.width, height: image.height, ...measured };
 }
 
-function adaptiveThreshold(imageData: ImageData): ImageData {
-  const { data, width, height } = imageData;
-  const blockSize = 11; // Must be odd
-  const C = 2; // Constant to subtract from mean
-  
-  // Create output array
-  const output = new Uint8ClampedArray(data.length);
-  
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      
-      // Calculate local mean
-      let sum = 0, count = 0;
-      for (let dy = -blockSize >> 1; dy <= blockSize >> 1; dy++) {
-        for (let dx = -blockSize >> 1; dx <= blockSize >> 1; dx++) {
-          const ny = y + dy;
-          const nx = x + dx;
-          if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
-            sum += data[(ny * width + nx) * 4];
-            count++;
-          }
-        }
-      }
-      
-      const mean = sum / count;
-      const value = data[idx] > mean - C ? 255 : 0;
-      output[idx] = output[idx + 1] = output[idx + 2] = value;
-      output[idx + 3] = data[idx + 3]; // Preserve alpha
+// Flatten a receipt photographed at an angle before OCR (uploads - the live scanner warps its own frames).
+// Photos where no receipt outline stands out from the background are returned as they are.
+export async function flattenReceiptPhoto(imageBlob: Blob): Promise<Blob> {
+  try {
+    const flattened = flattenReceipt(await decodeInBrowser(imageBlob));
+    if (!flattened) {
+      console.log('📄 No receipt outline found - using the photo as is');
+      return imageBlob;
     }
+
+    console.log('📄 Receipt flattened from corners:', flattened.corners.map(({ x, y }) => `${Math.round(x)},${Math.round(y)}`).join(' '));
+    return await encodeBlobInBrowser(flattened.image, 'image/jpeg', 0.95);
+  } catch (error) {
+    console.warn('⚠️ Perspective correction failed, using the photo as is:', error);
+    return imageBlob;
   }
-  
-  return new ImageData(output, width, height);
 }
 
-function removeNoise(imageData: ImageData): ImageData {
-  const { data, width, height } = imageData;
-  const output = new Uint8ClampedArray(data.length);
-  
-  // Median filter
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      const neighbors = [];
-      
-      // Gather neighbor values
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dx = -1; dx <= 1; dx++) {
-          const nidx = ((y + dy) * width + (x + dx)) * 4;
-          neighbors.push(data[nidx]);
-        }
-      }
-      
-      // Sort and take median
-      neighbors.sort((a, b) => a - b);
-      const median = neighbors[4]; // Middle value of 9 neighbors
-      
-      output[idx] = output[idx + 1] = output[idx + 2] = median;
-      output[idx + 3] = data[idx + 3]; // Preserve alpha
-    }
-  }
-  
-  return new ImageData(output, width, height);
+function isServer(): boolean {
+  return typeof window === 'undefined' &&
+    typeof (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope === 'undefined';
 }
 
-function resizeImage(imageData: ImageData, newWidth: number, newHeight: number): ImageData {
-  const canvas = createCanvas(newWidth, newHeight);
-  const ctx = canvas.getContext('2d');
-  
-  // Create temporary canvas with original image
-  const tempCanvas = createCanvas(imageData.width, imageData.height);
-  const tempCtx = tempCanvas.getContext('2d');
-  tempCtx.putImageData(imageData, 0, 0);
-  
-  // Draw resized image
-  ctx.drawImage(tempCanvas, 0, 0, newWidth, newHeight);
-  
-  return ctx.getImageData(0, 0, newWidth, newHeight);
+function canUseWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && !workerBroken;
 }
 
-function cropWhitespace(imageData: ImageData): ImageData {
-  const { data, width, height } = imageData;
-  let minX = width, maxX = 0, minY = height, maxY = 0;
-  
-  // Find content boundaries
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      if (data[idx] < 250) { // Not white
-        minX = Math.min(minX, x);
-        maxX = Math.max(maxX, x);
-        minY = Math.min(minY, y);
-        maxY = Math.max(maxY, y);
-      }
-    }
-  }
-  
-  // Add padding
-  minX = Math.max(0, minX - 10);
-  minY = Math.max(0, minY - 10);
-  maxX = Math.min(width - 1, maxX + 10);
-  maxY = Math.min(height - 1, maxY + 10);
-  
-  // Create cropped image
-  const newWidth = maxX - minX + 1;
-  const newHeight = maxY - minY + 1;
-  const canvas = createCanvas(newWidth, newHeight);
-  const ctx = canvas.getContext('2d');
-  
-  // Copy cropped region
-  const croppedData = ctx.createImageData(newWidth, newHeight);
-  for (let y = 0; y < newHeight; y++) {
-    for (let x = 0; x < newWidth; x++) {
-      const srcIdx = ((minY + y) * width + (minX + x)) * 4;
-      const dstIdx = (y * newWidth + x) * 4;
-      croppedData.data[dstIdx] = data[srcIdx];
-      croppedData.data[dstIdx + 1] = data[srcIdx + 1];
-      croppedData.data[dstIdx + 2] = data[srcIdx + 2];
-      croppedData.data[dstIdx + 3] = data[srcIdx + 3];
+let worker: Worker | undefined;
+let workerBroken = false;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: PreprocessingResult) => void; reject: (error: Error) => void }>();
+
+// One worker for the session, shared by every preprocessing request
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./preprocessingWorker.ts', import.meta.url));
+  worker.onmessage = (event: MessageEvent<PreprocessingWorkerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+
+    if ('result' in event.data) {
+      request.resolve(event.data.result);
+    } else {
+      request.reject(new Error(event.data.error));
     }
-  }
-  
-  return croppedData;
+  };
+  // The worker script itself failed - stop using it and fail whatever was waiting on it
+  worker.onerror = (event) => {
+    workerBroken = true;
+    worker?.terminate();
+    worker = undefined;
+    pending.forEach(request => request.reject(new Error(event.message || 'Preprocessing worker failed')));
+    pending.clear();
+  };
+  return worker;
 }
 
-function detectRotation(imageData: ImageData): number {
-  // Simple rotation detection using text line analysis
-  // Returns rotation angle in degrees (0, 90, 180, or 270)
-  // This is a placeholder - implement more sophisticated detection if needed
-  return 0;
+function preprocessInWorker(imageBlob: Blob, options: PreprocessingOptions): Promise<PreprocessingResult> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: PreprocessingWorkerRequest = { id, imageBlob, options };
+    getWorker().postMessage(request);
+  });
 }
-
-function rotateImage(imageData: ImageData, degrees: number): ImageData {
-  const canvas = createCanvas(imageData.width, imageData.height);
-  const ctx = canvas.getContext('2d');
-  
-  // Draw original image
-  ctx.putImageData(imageData, 0, 0);
-  
-  // Create new canvas for rotated image
-  const rotatedCanvas = createCanvas(
-    degrees % 180 === 0 ? imageData.width : imageData.height,
-    degrees % 180 === 0 ? imageData.height : imageData.width
-  );
-  const rotatedCtx = rotatedCanvas.getContext('2d');
-  
-  // Rotate and draw
-  rotatedCtx.translate(rotatedCanvas.width / 2, rotatedCanvas.height / 2);
-  rotatedCtx.rotate((degrees * Math.PI) / 180);
-  rotatedCtx.drawImage(
-    canvas,
-    -imageData.width / 2,
-    -imageData.height / 2
-  );
-  
-  return rotatedCtx.getImageData(0, 0, rotatedCanvas.width, rotatedCanvas.height);
-} 
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { histogramPercentile, median, otsuThreshold, quantile } from './imageStatistics';
+
+const histogramOf = (values: number[]) => {
+  const histogram = new Array<number>(256).fill(0);
+  values.forEach(value => histogram[value]++);
+  return histogram;
+};
+
+describe('otsuThreshold', () => {
+  it('puts ink below the threshold and paper at or above it', () => {
+    const values = [...Array(30).fill(20), ...Array(70).fill(200)];
+    const threshold = otsuThreshold(histogramOf(values), values.length);
+
+    expect(20).toBeLessThan(threshold);
+    expect(200).toBeGreaterThanOrEqual(threshold);
+  });
+});
+
+describe('histogramPercentile', () => {
+  it('finds the lowest value covering the fraction', () => {
+    const values = [0, 10, 10, 50, 255];
+    expect(histogramPercentile(histogramOf(values), values.length, 0.5)).toBe(10);
+    expect(histogramPercentile(histogramOf(values), values.length, 1)).toBe(255);
+  });
+});
+
+describe('quantile and median', () => {
+  it('interpolates between neighbours', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(quantile([0, 10], 0.25)).toBe(2.5);
+    expect(median([])).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+// Histogram and order statistics shared by the image analysis code
+// Histograms are 256 bins of grayscale pixel counts. Thresholds follow one convention everywhere:
+// values below the threshold are ink (dark), the threshold and above are paper (bright).
+
+// Threshold that best separates ink from paper (maximum between-class variance)
+export function otsuThreshold(histogram: number[], total: number): number {
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = { threshold: 127, variance: 0 };
+
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+    if (variance > best.variance) {
+      best = { threshold: value, variance };
+    }
+  }
+
+  // The best split puts its own value on the dark side, so paper starts one above it
+  return best.threshold + 1;
+}
+
+// Lowest value with at least `fraction` of the `total` pixels at or below it
+export function histogramPercentile(histogram: number[], total: number, fraction: number): number {
+  let count = 0;
+  for (let value = 0; value < histogram.length; value++) {
+    count += histogram[value];
+    if (count >= total * fraction) return value;
+  }
+  return histogram.length - 1;
+}
+
+// Interpolated between the two nearest values; 0 when there are none
+export function quantile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * fraction;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createRGBAImage, RGBAImage } from './imageCore';
+import { analyzeLighting, buildLuminanceMap, normalizeShadows } from './lightingAnalysis';
+
+const PAPER = 200;
+const INK = 40;
+
+// Gray paper with a thin line of print every 20 pixels
+function receiptPage(width: number, height: number): RGBAImage {
+  const image = createRGBAImage(width, height);
+  for (let y = 0; y < height; y++) {
+    const value = y % 20 < 2 ? INK : PAPER;
+    for (let x = 0; x < width; x++) {
+      image.data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      image.data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return image;
+}
+
+function paint(image: RGBAImage, area: { x0: number; y0: number; x1: number; y1: number }, change: (value: number) => number) {
+  for (let y = area.y0; y < area.y1; y++) {
+    for (let x = area.x0; x < area.x1; x++) {
+      const i = (y * image.width + x) * 4;
+      for (let c = 0; c < 3; c++) image.data[i + c] = change(image.data[i + c]);
+    }
+  }
+}
+
+describe('analyzeLighting', () => {
+  it('reports a blown-out stripe as glare where it is', () => {
+    const image = receiptPage(320, 320);
+    paint(image, { x0: 220, y0: 20, x1: 320, y1: 80 }, () => 255);
+
+    const lighting = analyzeLighting(image);
+
+    expect(lighting.paperLevel).toBe(PAPER);
+    expect(lighting.shadows).toEqual([]);
+    expect(lighting.glare).toHaveLength(1);
+    expect(lighting.glare[0].location).toBe('top right');
+    expect(lighting.glare[0].severity).toBeGreaterThan(0.9);
+  });
+
+  it('finds nothing on evenly lit paper', () => {
+    const lighting = analyzeLighting(receiptPage(320, 320));
+
+    expect(lighting.glare).toEqual([]);
+    expect(lighting.shadows).toEqual([]);
+  });
+});
+
+describe('normalizeShadows', () => {
+  it('brings a shaded quadrant back to the paper level and keeps its print', () => {
+    const image = receiptPage(320, 320);
+    paint(image, { x0: 0, y0: 160, x1: 160, y1: 320 }, value => Math.round(value * 0.6));
+    const map = buildLuminanceMap(image);
+    const lighting = analyzeLighting(image, map);
+
+    expect(lighting.shadows).toHaveLength(1);
+    expect(lighting.shadows[0].location).toBe('bottom left');
+
+    normalizeShadows(image, map, lighting.paperLevel);
+    const at = (x: number, y: number) => image.data[(y * image.width + x) * 4];
+
+    // Paper inside the shadow, away from its edges
+    expect(at(80, 250)).toBeGreaterThanOrEqual(PAPER - 3);
+    expect(at(80, 250)).toBeLessThanOrEqual(PAPER);
+    // Print in the shadow is still dark
+    expect(at(80, 240)).toBeLessThan(PAPER / 2);
+    // Lit paper is left alone
+    expect(at(240, 90)).toBe(PAPER);
+  });
+});
@@ -0,0 +1,225 @@
+// Glare and shadow detection on receipt photos
+// Brightness, contrast and sharpness over the whole image miss the usual kitchen-light failures: a
+// blown-out stripe across glossy thermal paper, or the shadow of a hand or phone over one corner.
+// The image is split into tiles and the paper level of each tile measured (the bright end of its
+// histogram - ink is always darker). Tiles whose paper is clipped to white are glare; tiles whose
+// paper is much darker than the rest of the receipt are in shadow.
+
+import type { RGBAImage } from './imageCore';
+import { histogramPercentile, median, quantile } from './imageStatistics';
+
+export type LightingIssue = 'glare' | 'shadow';
+
+export interface LightingRegion {
+  kind: LightingIssue;
+  // Bounding box as fractions of the image (0-1), so it holds at any resolution
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // Glare: share of the region blown out. Shadow: how much darker its paper is than the rest (0-1)
+  severity: number;
+  // Where it is, in words - "top right", "middle"
+  location: string;
+}
+
+export interface LuminanceMap {
+  // Tile edge in pixels; tiles on the right and bottom edges may be smaller
+  tileSize: number;
+  columns: number;
+  rows: number;
+  // Paper level of each tile (0-255), row by row
+  paper: Float32Array;
+  // Share of each tile's pixels clipped to white (0-1)
+  clipped: Float32Array;
+}
+
+export interface LightingAnalysis {
+  // Paper level of the receipt as a whole (0-255)
+  paperLevel: number;
+  glare: LightingRegion[];
+  shadows: LightingRegion[];
+}
+
+// About this many tiles across the shorter side
+const TILES_PER_SIDE = 16;
+const MIN_TILE_SIZE = 8;
+// The paper level of a tile - ink covers well under a tenth of most tiles
+const PAPER_PERCENTILE = 0.9;
+const CLIPPED_LEVEL = 250;
+// A tile is glare when this share of it is clipped...
+const GLARE_TILE_SHARE = 0.3;
+// ...unless the paper everywhere is this bright - then glare can't be told apart from it
+const PAPER_CLIPPED = 235;
+// A tile is in shadow when its paper is this much darker than the receipt's
+const SHADOW_RATIO = 0.75;
+// Areas smaller than this many tiles are a stain or a logo, not lighting
+const MIN_REGION_TILES = 2;
+// Dark tiles more than this far below the paper level are background around the receipt, not shadow
+const BACKGROUND_RATIO = 0.35;
+// The receipt's paper level, from the tiles without glare - high enough that the table or counter
+// around a receipt that doesn't fill the photo stays out of it
+const PAPER_LEVEL_PERCENTILE = 0.75;
+
+export function buildLuminanceMap(image: RGBAImage): LuminanceMap {
+  const { data, width, height } = image;
+  const tileSize = Math.max(MIN_TILE_SIZE, Math.ceil(Math.min(width, height) / TILES_PER_SIDE));
+  const columns = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+  const paper = new Float32Array(columns * rows);
+  const clipped = new Float32Array(columns * rows);
+  const histogram = new Array<number>(256);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      histogram.fill(0);
+      const x1 = Math.min(width, (column + 1) * tileSize);
+      const y1 = Math.min(height, (row + 1) * tileSize);
+      let count = 0;
+      for (let y = row * tileSize; y < y1; y++) {
+        for (let x = column * tileSize; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          histogram[Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114)]++;
+          count++;
+        }
+      }
+
+      const tile = row * columns + column;
+      paper[tile] = histogramPercentile(histogram, count, PAPER_PERCENTILE);
+      let bright = 0;
+      for (let value = CLIPPED_LEVEL; value < 256; value++) {
+        bright += histogram[value];
+      }
+      clipped[tile] = bright / count;
+    }
+  }
+
+  return { tileSize, columns, rows, paper: medianFilter(paper, columns, rows), clipped };
+}
+
+// Glare and shadow regions, with where they are on the image
+export function analyzeLighting(image: RGBAImage, map: LuminanceMap = buildLuminanceMap(image)): LightingAnalysis {
+  const { columns, rows, paper, clipped } = map;
+  const unclipped = Array.from(paper).filter((_, tile) => clipped[tile] < GLARE_TILE_SHARE);
+  const paperLevel = quantile(unclipped.length > 0 ? unclipped : Array.from(paper), PAPER_LEVEL_PERCENTILE);
+
+  const glareTiles = Array.from(clipped, share => paperLevel < PAPER_CLIPPED && share >= GLARE_TILE_SHARE);
+  const shadowTiles = Array.from(paper, level =>
+    level < paperLevel * SHADOW_RATIO && level > paperLevel * BACKGROUND_RATIO
+  );
+
+  const toRegion = (kind: LightingIssue, tiles: number[]): LightingRegion => {
+    const columnsOf = tiles.map(tile => tile % columns);
+    const rowsOf = tiles.map(tile => Math.floor(tile / columns));
+    const left = Math.min(...columnsOf) * map.tileSize / image.width;
+    const top = Math.min(...rowsOf) * map.tileSize / image.height;
+    const width = Math.min(1 - left, (Math.max(...columnsOf) + 1) * map.tileSize / image.width - left);
+    const height = Math.min(1 - top, (Math.max(...rowsOf) + 1) * map.tileSize / image.height - top);
+    const severity = kind === 'glare'
+      ? tiles.reduce((sum, tile) => sum + clipped[tile], 0) / tiles.length
+      : 1 - tiles.reduce((sum, tile) => sum + paper[tile], 0) / tiles.length / paperLevel;
+    return { kind, left, top, width, height, severity, location: describeLocation(left + width / 2, top + height / 2) };
+  };
+
+  return {
+    paperLevel,
+    glare: connectedAreas(glareTiles, columns, rows).map(tiles => toRegion('glare', tiles)),
+    shadows: connectedAreas(shadowTiles, columns, rows).map(tiles => toRegion('shadow', tiles))
+  };
+}
+
+// Background normalization: every pixel is scaled by how far its tile's paper falls below the
+// receipt's, so shaded paper comes back to the paper level and the ink in it keeps its contrast.
+// Only ever brightens - glare is lost detail, and darkening it would only turn it gray.
+export function normalizeShadows(image: RGBAImage, map: LuminanceMap, paperLevel: number): RGBAImage {
+  const { data, width, height } = image;
+  const { tileSize, columns, rows, paper } = map;
+  // Background around the receipt and glare count as paper that needs no correction, so neither
+  // drags the correction of the paper next to it
+  const level = (column: number, row: number) => {
+    const value = paper[Math.max(0, Math.min(rows - 1, row)) * columns + Math.max(0, Math.min(columns - 1, column))];
+    return value <= paperLevel * BACKGROUND_RATIO ? paperLevel : Math.min(paperLevel, value);
+  };
+
+  for (let y = 0; y < height; y++) {
+    // Between tile centres, so the correction has no visible tile edges
+    const ty = (y + 0.5) / tileSize - 0.5;
+    const row = Math.floor(ty);
+    const fy = ty - row;
+    for (let x = 0; x < width; x++) {
+      const tx = (x + 0.5) / tileSize - 0.5;
+      const column = Math.floor(tx);
+      const fx = tx - column;
+      const background =
+        (level(column, row) * (1 - fx) + level(column + 1, row) * fx) * (1 - fy) +
+        (level(column, row + 1) * (1 - fx) + level(column + 1, row + 1) * fx) * fy;
+      if (background >= paperLevel) continue;
+
+      const gain = paperLevel / background;
+      const i = (y * width + x) * 4;
+      data[i] = data[i] * gain;
+      data[i + 1] = data[i + 1] * gain;
+      data[i + 2] = data[i + 2] * gain;
+    }
+  }
+  return image;
+}
+
+function describeLocation(x: number, y: number): string {
+  const vertical = y < 1 / 3 ? 'top' : y > 2 / 3 ? 'bottom' : '';
+  const horizontal = x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : '';
+  return [vertical, horizontal].filter(Boolean).join(' ') || 'middle';
+}
+
+// Groups of flagged tiles touching edge to edge, dropping the ones too small to be lighting
+function connectedAreas(flagged: boolean[], columns: number, rows: number): number[][] {
+  const seen = new Uint8Array(flagged.length);
+  const areas: number[][] = [];
+
+  for (let start = 0; start < flagged.length; start++) {
+    if (!flagged[start] || seen[start]) continue;
+    const area: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const tile = stack.pop()!;
+      area.push(tile);
+      const column = tile % columns;
+      const row = Math.floor(tile / columns);
+      const neighbours = [
+        column > 0 ? tile - 1 : -1,
+        column < columns - 1 ? tile + 1 : -1,
+        row > 0 ? tile - columns : -1,
+        row < rows - 1 ? tile + columns : -1
+      ];
+      neighbours.forEach(next => {
+        if (next >= 0 && flagged[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+    if (area.length >= MIN_REGION_TILES) areas.push(area);
+  }
+
+  return areas;
+}
+
+// 3x3 median over the tiles - a tile filled with a logo or a dense block of print reads dark on its own
+function medianFilter(values: Float32Array, columns: number, rows: number): Float32Array {
+  const filtered = new Float32Array(values.length);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const window: number[] = [];
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if (r >= 0 && r < rows && c >= 0 && c < columns) window.push(values[r * columns + c]);
+        }
+      }
+      filtered[row * columns + column] = median(window);
+    }
+  }
+  return filtered;
+}
@@ -0,0 +1,24 @@
+// node-canvas adapter for the preprocessing core (server only - canvas is a native Node module)
+
+import { createCanvas, loadImage } from 'canvas';
+import type { RGBAImage } from './imageCore';
+
+export async function decodeWithNodeCanvas(bytes: Uint8Array): Promise<RGBAImage> {
+  const image = await loadImage(Buffer.from(bytes));
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+
+  const { data, width, height } = ctx.getImageData(0, 0, image.width, image.height);
+  return { data: new Uint8ClampedArray(data), width, height };
+}
+
+// PNG, base64 without the data: prefix
+export function encodeWithNodeCanvas(image: RGBAImage): string {
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  const imageData = ctx.createImageData(image.width, image.height);
+  imageData.data.set(image.data);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toBuffer('image/png').toString('base64');
+}
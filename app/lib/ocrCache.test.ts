@@ -0,0 +1,92 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileOCRCache } from './fileOCRCache';
+import { hashVisionRequest, MemoryOCRCache } from './ocrCache';
+
+const content = Buffer.from('receipt pixels').toString('base64');
+
+describe('hashVisionRequest', () => {
+  it('gives a different key when the features differ', async () => {
+    const text = await hashVisionRequest({ image: { content }, features: [{ type: 'TEXT_DETECTION' }] });
+    const document = await hashVisionRequest({ image: { content }, features: [{ type: 'DOCUMENT_TEXT_DETECTION' }] });
+
+    expect(text).not.toBe(document);
+  });
+
+  it('gives a different key when the image context differs', async () => {
+    const english = await hashVisionRequest({ image: { content }, imageContext: { languageHints: ['en'] } });
+    const french = await hashVisionRequest({ image: { content }, imageContext: { languageHints: ['fr'] } });
+
+    expect(english).not.toBe(french);
+  });
+
+  it("doesn't depend on the order of keys", async () => {
+    const a = await hashVisionRequest({ image: { content }, imageContext: { languageHints: ['en'], textDetectionParams: { enableTextDetectionConfidenceScore: true } } });
+    const b = await hashVisionRequest({ image: { content }, imageContext: { textDetectionParams: { enableTextDetectionConfidenceScore: true }, languageHints: ['en'] } });
+
+    expect(a).toBe(b);
+  });
+});
+
+describe('MemoryOCRCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('forgets an entry once its TTL has passed', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryOCRCache<string>();
+    await cache.set('key', 'TOTAL 5.48', 1000);
+
+    vi.advanceTimersByTime(999);
+    expect(await cache.get('key')).toBe('TOTAL 5.48');
+    vi.advanceTimersByTime(1);
+    expect(await cache.get('key')).toBeUndefined();
+  });
+});
+
+describe('FileOCRCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'ocr-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('forgets an entry once its TTL has passed and removes its file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new FileOCRCache<string>(directory);
+    await cache.set('key', 'TOTAL 5.48', 1000);
+
+    expect(await cache.get('key')).toBe('TOTAL 5.48');
+    vi.setSystemTime(Date.now() + 1000);
+    expect(await cache.get('key')).toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('evicts the entries closest to expiring once there are too many', async () => {
+    const cache = new FileOCRCache<string>(directory, { maxEntries: 2 });
+    await cache.set('first', 'a', 1000);
+    await cache.set('second', 'b', 3000);
+    await cache.set('third', 'c', 2000);
+
+    expect(await cache.get('first')).toBeUndefined();
+    expect(await cache.get('second')).toBe('b');
+    expect(await cache.get('third')).toBe('c');
+  });
+
+  it('evicts entries until the directory is under its byte limit', async () => {
+    const cache = new FileOCRCache<string>(directory, { maxBytes: 250 });
+    for (const [index, key] of ['first', 'second', 'third'].entries()) {
+      await cache.set(key, 'x'.repeat(100), 1000 * (index + 1));
+    }
+
+    expect(await readdir(directory)).toEqual(['third.json']);
+  });
+});
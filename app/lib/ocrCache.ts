@@ -0,0 +1,156 @@
+// Content-addressed cache for OCR results
+// Keys are the SHA-256 of the preprocessed image bytes and of what Vision was asked to do with them,
+// so the same photo (re-scanned, re-uploaded or debugged over and over) is only sent to Vision once per TTL.
+
+import type { VisionImageRequest } from './visionBatch';
+
+export interface OCRCache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+export interface OCRCacheOptions {
+  // Skip the lookup and fetch a fresh result (which then replaces the cached one)
+  bypassCache?: boolean;
+}
+
+// Bump when preprocessing or the Vision response handling changes, so old results stop matching
+const CACHE_KEY_VERSION = 'vision-v2';
+
+export const DEFAULT_OCR_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Hash of a Vision image request - works in the browser and on the server (Web Crypto).
+// Features and imageContext are part of the key: TEXT_DETECTION and DOCUMENT_TEXT_DETECTION
+// of the same image are different results.
+export async function hashVisionRequest(request: VisionImageRequest): Promise<string> {
+  const binary = atob(request.image.content);
+  const options = new TextEncoder().encode(stableJson({ features: request.features, imageContext: request.imageContext }));
+  const bytes = new Uint8Array(binary.length + 1 + options.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  // Separator, so no image can end in bytes that pass for the options
+  bytes[binary.length] = 0;
+  bytes.set(options, binary.length + 1);
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${CACHE_KEY_VERSION}-${hex}`;
+}
+
+export class MemoryOCRCache<T> implements OCRCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(private maxEntries = 50) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    // Maps keep insertion order, so the first key is the oldest
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
+
+// Browser cache that survives reloads
+export class IndexedDBOCRCache<T> implements OCRCache<T> {
+  private static readonly DB_NAME = 'savr-ocr-cache';
+  private static readonly STORE_NAME = 'results';
+  private db?: Promise<IDBDatabase>;
+
+  async get(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    const record = await requestToPromise<{ key: string; value: T; expiresAt: number } | undefined>(
+      db.transaction(IndexedDBOCRCache.STORE_NAME, 'readonly').objectStore(IndexedDBOCRCache.STORE_NAME).get(key)
+    );
+    if (!record) return undefined;
+
+    if (record.expiresAt <= Date.now()) {
+      await requestToPromise(
+        db.transaction(IndexedDBOCRCache.STORE_NAME, 'readwrite').objectStore(IndexedDBOCRCache.STORE_NAME).delete(key)
+      );
+      return undefined;
+    }
+    return record.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(
+      db.transaction(IndexedDBOCRCache.STORE_NAME, 'readwrite')
+        .objectStore(IndexedDBOCRCache.STORE_NAME)
+        .put({ key, value, expiresAt: Date.now() + ttlMs })
+    );
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(IndexedDBOCRCache.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IndexedDBOCRCache.STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+}
+
+let clientCache: OCRCache<unknown> | undefined;
+
+// IndexedDB where the browser has it, memory otherwise (private browsing, tests)
+export function getClientOCRCache<T>(): OCRCache<T> {
+  clientCache ??= typeof indexedDB !== 'undefined' ? new IndexedDBOCRCache() : new MemoryOCRCache();
+  return clientCache as OCRCache<T>;
+}
+
+// A broken cache must never break OCR - failures are logged and treated as a miss
+export async function readCache<T>(cache: OCRCache<T>, key: string): Promise<T | undefined> {
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    console.warn('⚠️ OCR cache read failed:', error);
+    return undefined;
+  }
+}
+
+export async function writeCache<T>(cache: OCRCache<T>, key: string, value: T, ttlMs: number): Promise<void> {
+  try {
+    await cache.set(key, value, ttlMs);
+  } catch (error) {
+    console.warn('⚠️ OCR cache write failed:', error);
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// JSON with object keys sorted, so { a, b } and { b, a } hash the same
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,94 @@
+// The engine fallback with fake engines in place of Vision and Tesseract
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OCRResult } from './googleVisionOCR';
+
+// Only fake engines run here, so the image pipeline (and node-canvas, a native build) stays out
+vi.mock('./imagePreprocessing', () => ({ preprocessImage: vi.fn() }));
+
+type OcrEnginesModule = typeof import('./ocrEngines');
+
+let processImageWithOCR: OcrEnginesModule['processImageWithOCR'];
+let registerOcrEngine: OcrEnginesModule['registerOcrEngine'];
+// From the same module instance as the engines, so errors are recognized as typed
+let OCRError: typeof import('./ocrResilience').OCRError;
+
+const image = new Blob([new Uint8Array(2048)], { type: 'image/png' });
+
+const readText = (text: string): OCRResult => ({
+  text,
+  confidence: 0.9,
+  quality: { imageSize: image.size, processingTime: 1, confidence: 0.9, textBlockCount: 1, averageWordConfidence: 0.9 }
+});
+
+// An engine that answers with recognize, available unless told otherwise
+const fakeEngine = (id: string, recognize: () => Promise<OCRResult>, available = true) => {
+  const engine = { id, name: id, isAvailable: vi.fn(async () => available), recognize: vi.fn(recognize) };
+  registerOcrEngine(engine);
+  return engine;
+};
+
+// Each test gets its own registry and circuit breakers
+beforeEach(async () => {
+  vi.resetModules();
+  ({ processImageWithOCR, registerOcrEngine } = await import('./ocrEngines'));
+  ({ OCRError } = await import('./ocrResilience'));
+});
+
+describe('processImageWithOCR', () => {
+  it('uses the preferred engine when it reads the image', async () => {
+    fakeEngine('vision', async () => readText('TOTAL 5.48'));
+    const tesseract = fakeEngine('tesseract', async () => readText('T0TAL 5.4B'));
+
+    const result = await processImageWithOCR(image);
+
+    expect(result).toMatchObject({ text: 'TOTAL 5.48', engine: 'vision', fallback: undefined });
+    expect(tesseract.recognize).not.toHaveBeenCalled();
+  });
+
+  it('falls back in registry order and records why the first engine was passed over', async () => {
+    fakeEngine('vision', async () => readText('unused'), false);
+    fakeEngine('tesseract', async () => { throw new OCRError('bad-image', 'No text'); });
+    fakeEngine('backup', async () => readText('TOTAL 5.48'));
+
+    const result = await processImageWithOCR(image);
+
+    expect(result.engine).toBe('backup');
+    expect(result.fallback).toEqual({ engine: 'vision', reason: 'not-configured', attempts: 0 });
+  });
+
+  it('falls back on a rejected key and records the reason', async () => {
+    fakeEngine('vision', async () => { throw new OCRError('auth', 'API key invalid', 403); });
+    fakeEngine('tesseract', async () => readText('TOTAL 5.48'));
+
+    const result = await processImageWithOCR(image);
+
+    expect(result.engine).toBe('tesseract');
+    expect(result.fallback).toMatchObject({ engine: 'vision', reason: 'auth', message: 'API key invalid', attempts: 1 });
+  });
+
+  it('opens the circuit after repeated transient, quota and auth errors', async () => {
+    const errors = [new OCRError('transient', 'Timeout'), new OCRError('quota', 'Quota'), new OCRError('auth', 'Key')];
+    const vision = fakeEngine('vision', async () => { throw errors.shift(); });
+    fakeEngine('tesseract', async () => readText('TOTAL 5.48'));
+
+    for (let scan = 0; scan < 3; scan++) {
+      await processImageWithOCR(image);
+    }
+    const result = await processImageWithOCR(image);
+
+    expect(vision.recognize).toHaveBeenCalledTimes(3);
+    expect(result.fallback).toEqual({ engine: 'vision', reason: 'circuit-open', attempts: 0 });
+  });
+
+  it("doesn't count unreadable images against the engine", async () => {
+    const vision = fakeEngine('vision', async () => { throw new OCRError('bad-image', 'No text'); });
+    fakeEngine('tesseract', async () => readText('TOTAL 5.48'));
+
+    for (let scan = 0; scan < 4; scan++) {
+      const result = await processImageWithOCR(image);
+      expect(result.fallback?.reason).toBe('bad-image');
+    }
+    expect(vision.recognize).toHaveBeenCalledTimes(4);
+  });
+});
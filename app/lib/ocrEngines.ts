@@ -0,0 +1,171 @@
+// OCR engines and the processor that picks between them
+// Every engine turns an image into an OCRResult. They are tried in order of preference - Vision first,
+// then Tesseract in the browser - and each remote engine sits behind its own circuit breaker.
+
+import { isGoogleVisionAvailable, OCRFallback, OCRResult, processImageWithVision } from './googleVisionOCR';
+import { processImageWithTesseract } from './tesseractOCR';
+import { CircuitBreaker, OCRError, toOCRError } from './ocrResilience';
+import type { OCRCacheOptions } from './ocrCache';
+
+export interface OcrRecognizeOptions extends OCRCacheOptions {
+  // Progress messages for the UI
+  onProgress?: (step: string) => void;
+}
+
+export interface OcrEngine {
+  id: string;
+  name: string;
+  // True when the engine can run here (configured, supported by the browser)
+  isAvailable(): Promise<boolean>;
+  recognize(imageBlob: Blob, options: OcrRecognizeOptions): Promise<OCRResult>;
+}
+
+export const visionEngine: OcrEngine = {
+  id: 'vision',
+  name: 'Google Vision',
+  isAvailable: isGoogleVisionAvailable,
+  recognize: (imageBlob, options) => {
+    options.onProgress?.('Reading text from receipt...');
+    return processImageWithVision(imageBlob, false, options);
+  }
+};
+
+export const tesseractEngine: OcrEngine = {
+  id: 'tesseract',
+  name: 'Tesseract',
+  isAvailable: async () => typeof window !== 'undefined' && typeof WebAssembly !== 'undefined',
+  recognize: (imageBlob, options) => processImageWithTesseract(imageBlob, options.onProgress)
+};
+
+// Engine registry, in order of preference - registering an id again replaces that engine in place
+const engines = new Map<string, OcrEngine>();
+
+// Opens after repeated outages or quota errors so scans stop waiting on retries
+const circuits = new Map<string, CircuitBreaker>();
+
+const getCircuit = (engine: OcrEngine): CircuitBreaker => {
+  if (!circuits.has(engine.id)) {
+    circuits.set(engine.id, new CircuitBreaker(engine.name, 3, 60000));
+  }
+  return circuits.get(engine.id)!;
+};
+
+export function registerOcrEngine(engine: OcrEngine) {
+  engines.set(engine.id, engine);
+}
+
+export function listOcrEngines(): OcrEngine[] {
+  return Array.from(engines.values());
+}
+
+export function getOcrEngine(id: string): OcrEngine | undefined {
+  return engines.get(id);
+}
+
+[visionEngine, tesseractEngine].forEach(registerOcrEngine);
+
+// Universal OCR processor used by both the upload and live-scan flows
+// options.bypassCache forces a fresh Vision call, e.g. after changing preprocessing
+export const processImageWithOCR = async (
+  imageBlob: Blob,
+  options: OcrRecognizeOptions = {}
+): Promise<OCRResult> => {
+  console.log('🔍 Starting OCR processing...');
+  console.log('📊 Image info:', {
+    size: imageBlob.size,
+    type: imageBlob.type,
+    sizeKB: Math.round(imageBlob.size / 1024)
+  });
+
+  // Basic image validation - more lenient requirements
+  if (imageBlob.size < 1000) { // Reduced from 10000 to 1000 bytes
+    console.warn('⚠️ Very small image detected:', imageBlob.size, 'bytes');
+    // Don't throw error, just warn and continue
+  }
+
+  if (imageBlob.size > 15000000) { // More than 15MB
+    throw new Error('Image file is too large. Please try again with a smaller photo.');
+  }
+
+  if (!imageBlob.type.startsWith('image/')) {
+    throw new Error('Invalid file type. Please provide a valid image.');
+  }
+
+  let fallback: OCRFallback | undefined;
+  let lastError: OCRError | undefined;
+
+  for (const engine of engines.values()) {
+    const circuit = getCircuit(engine);
+    if (!circuit.canRequest()) {
+      console.log(`🔌 ${engine.name} circuit is open, skipping`);
+      fallback ??= { engine: engine.id, reason: 'circuit-open', attempts: 0 };
+      continue;
+    }
+    if (!(await engine.isAvailable())) {
+      circuit.release();
+      console.log(`📡 ${engine.name} not available, skipping`);
+      fallback ??= { engine: engine.id, reason: 'not-configured', attempts: 0 };
+      continue;
+    }
+
+    try {
+      console.log(`📡 Attempting ${engine.name} OCR...`);
+      const result = await engine.recognize(imageBlob, options);
+      circuit.recordSuccess();
+
+      // Validate OCR result
+      if (!result.text || result.text.trim().length < 5) {
+        throw new OCRError('bad-image', 'No readable text found in the image. Please try again with a clearer photo.');
+      }
+
+      if (result.confidence < 0.3) {
+        throw new OCRError('bad-image', 'Text recognition confidence is too low. Please try again with better lighting and focus.');
+      }
+
+      console.log(`✅ ${engine.name} OCR successful!`);
+      console.log(`🔍 ${engine.name} result:`, {
+        textLength: result.text.length,
+        confidence: result.confidence,
+        words: result.words?.length || 0,
+        layoutRows: result.layout?.rows.length || 0,
+        fromCache: result.fromCache || false,
+        fallbackReason: fallback?.reason,
+        textSample: result.text.substring(0, 100) + (result.text.length > 100 ? '...' : '')
+      });
+      return { ...result, engine: engine.id, fallback };
+    } catch (error) {
+      const ocrError = toOCRError(error);
+      console.warn(`⚠️ ${engine.name} failed:`, {
+        kind: ocrError.kind,
+        message: ocrError.message,
+        status: ocrError.status,
+        attempts: ocrError.attempts
+      });
+
+      // Only service failures count towards opening the circuit - a blurry photo says nothing about the engine.
+      // A rejected key is one too: the next engine still reads the receipt, and the fallback reason says why.
+      if (ocrError.kind === 'transient' || ocrError.kind === 'quota' || ocrError.kind === 'auth') {
+        circuit.recordFailure();
+      } else {
+        circuit.release();
+      }
+      fallback ??= { engine: engine.id, reason: ocrError.kind, message: ocrError.message, attempts: ocrError.attempts };
+      lastError = ocrError;
+    }
+  }
+
+  console.error('❌ OCR processing failed:', lastError);
+
+  // Provide more specific error guidance
+  const errorMessage = lastError?.message || 'No OCR engine is available';
+
+  if (errorMessage.includes('insufficient text') || errorMessage.includes('confidence') || errorMessage.includes('No readable text')) {
+    throw new Error('Could not read the text clearly. Please ensure the receipt is well-lit, flat, and the text is clearly visible.');
+  } else if (lastError?.kind === 'transient' || errorMessage.includes('network') || errorMessage.includes('fetch')) {
+    throw new Error('Network error during processing. Please check your internet connection and try again.');
+  } else if (!lastError || errorMessage.includes('load')) {
+    throw new Error('Failed to initialize text recognition. Please refresh the page and try again.');
+  } else {
+    throw new Error('Failed to process the image. Please try again with a clearer photo in better lighting.');
+  }
+};
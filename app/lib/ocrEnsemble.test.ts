@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { OCRResult } from './googleVisionOCR';
+import { registerOcrEngine } from './ocrEngines';
+import { LineCandidate, processImageWithEnsemble, receiptLinePlausibility, voteOnLines } from './ocrEnsemble';
+
+// Only fake engines run here, so the image pipeline (and node-canvas, a native build) stays out
+vi.mock('./imagePreprocessing', () => ({ preprocessImage: vi.fn() }));
+
+// One read of a receipt, a line per row
+const read = (source: string, confidence: number, lines: string[]): LineCandidate[] =>
+  lines.map((text, index) => ({
+    source,
+    text,
+    confidence,
+    plausibility: receiptLinePlausibility(text),
+    row: { words: [], text, name: text, confidence, top: index, bottom: index + 1 }
+  }));
+
+const readText = (text: string, confidence: number): OCRResult => ({
+  text,
+  confidence,
+  quality: { imageSize: 0, processingTime: 1, confidence, textBlockCount: 1, averageWordConfidence: confidence }
+});
+
+describe('voteOnLines', () => {
+  it('keeps the rows aligned when one read misses a line', () => {
+    const lines = voteOnLines([
+      read('vision', 0.9, ['CORNER MARKET', 'BANANAS 0.99', 'ORGANIC MILK 4.49', 'BREAD 2.99', 'TOTAL 8.47']),
+      read('tesseract/original', 0.8, ['CORNER MARKET', 'BANANAS 0.99', 'BREAD 2.99', 'TOTAL 8.47']),
+      read('tesseract/contrast', 0.8, ['CORNER MARKFT', 'BANANAS 0.99', 'ORGANIC MlLK 4.49', 'BREAD 2.99', 'TOTAL 8.47'])
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(['CORNER MARKET', 'BANANAS 0.99', 'ORGANIC MILK 4.49', 'BREAD 2.99', 'TOTAL 8.47']);
+    expect(lines.map(line => line.candidates.length)).toEqual([3, 3, 2, 3, 3]);
+    expect(lines[2].agreement).toBeCloseTo(1 / 3);
+    expect(lines[3].agreement).toBe(1);
+  });
+
+  it('prefers a plausible reading over a more confident garbled one and keeps the loser', () => {
+    const [line] = voteOnLines([
+      read('vision', 0.95, ['BRRLLTN 2.99']),
+      read('tesseract/threshold', 0.8, ['BREAD 2.99'])
+    ]);
+
+    expect(line.text).toBe('BREAD 2.99');
+    expect(line.candidates.map(candidate => [candidate.source, candidate.text])).toEqual([
+      ['tesseract/threshold', 'BREAD 2.99'],
+      ['vision', 'BRRLLTN 2.99']
+    ]);
+  });
+
+  it('drops a line only a minority of reads saw that looks like noise', () => {
+    const lines = voteOnLines([
+      read('vision', 0.9, ['BANANAS 0.99', '~~,;:..', 'TOTAL 0.99']),
+      read('tesseract/original', 0.8, ['BANANAS 0.99', 'TOTAL 0.99']),
+      read('tesseract/contrast', 0.8, ['BANANAS 0.99', 'TOTAL 0.99'])
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(['BANANAS 0.99', 'TOTAL 0.99']);
+  });
+});
+
+describe('receiptLinePlausibility', () => {
+  it('scores receipt lines above garbled text', () => {
+    expect(receiptLinePlausibility('TOTAL 8.47')).toBe(1);
+    expect(receiptLinePlausibility('RRLLTN')).toBeLessThan(receiptLinePlausibility('BREAD 2.99'));
+    expect(receiptLinePlausibility('IIII ,,;')).toBeLessThan(0.5);
+  });
+});
+
+describe('processImageWithEnsemble', () => {
+  it('keeps the losing readings of each row as alternatives', async () => {
+    registerOcrEngine({ id: 'vision', name: 'Vision', isAvailable: async () => true, recognize: async () => readText('BANANAS 0.99\nBRRLLTN 2.99', 0.95) });
+    registerOcrEngine({ id: 'tesseract', name: 'Tesseract', isAvailable: async () => true, recognize: async () => readText('BANANAS 0.99\nBREAD 2.99', 0.8) });
+
+    const result = await processImageWithEnsemble(new Blob(['receipt'], { type: 'image/png' }), {
+      passes: [{ engine: 'vision', variant: 'original' }, { engine: 'tesseract', variant: 'original' }]
+    });
+
+    expect(result.engine).toBe('ensemble');
+    expect(result.text).toBe('BANANAS 0.99\nBREAD 2.99');
+    expect(result.layout!.rows[0].alternatives).toBeUndefined();
+    expect(result.layout!.rows[1].alternatives).toEqual([{ text: 'BRRLLTN 2.99', name: 'BRRLLTN 2.99', price: undefined, flag: undefined }]);
+  });
+});
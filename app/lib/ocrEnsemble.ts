@@ -0,0 +1,423 @@
+// Ensemble OCR - several engines and preprocessing variants read the same receipt, then vote line by line
+// Reads are aligned row by row, and each row's text is chosen by confidence-weighted voting, with
+// every vote discounted when the text doesn't look like something printed on a receipt.
+// Every candidate is kept, so the review screen can offer the readings that lost.
+
+import type { OCRResult } from './googleVisionOCR';
+import { getOcrEngine, OcrRecognizeOptions, processImageWithOCR } from './ocrEngines';
+import { binarize, convertToGrayscale, resizeImage, stretchContrast } from './imageCore';
+import { decodeInBrowser, encodeBlobInBrowser } from './browserCanvasAdapter';
+import { fuseFrames } from './frameFusion';
+import { labelReceiptRegions, LayoutRow, ReceiptRow, rowToLine } from './receiptLayout';
+
+export type ImageVariant =
+  | 'original'   // The photo as taken
+  | 'contrast'   // Grayscale with the histogram stretched - helps faded thermal print
+  | 'threshold'; // Black and white (Otsu) - helps on shadows and coloured paper
+
+export interface EnsemblePass {
+  engine: string;
+  variant: ImageVariant;
+}
+
+export interface EnsembleOptions extends OcrRecognizeOptions {
+  passes?: EnsemblePass[];
+}
+
+export interface LineCandidate {
+  // Which pass read it, e.g. "tesseract/threshold"
+  source: string;
+  text: string;
+  // Mean word confidence on the row (0-1)
+  confidence: number;
+  // How much the text looks like a receipt line (0-1)
+  plausibility: number;
+  row: ReceiptRow;
+}
+
+export interface EnsembleLine {
+  text: string;
+  confidence: number;
+  // Share of the reads that agreed on the winning text
+  agreement: number;
+  // Winner first, then the rest by weight
+  candidates: LineCandidate[];
+}
+
+export interface FusedScan {
+  // The frames fused and upscaled - what the review screen shows
+  image: Blob;
+  ocr: OCRResult;
+}
+
+interface EnsembleRead {
+  source: string;
+  result: OCRResult;
+  candidates: LineCandidate[];
+}
+
+// Vision is paid per call, so it reads the photo once; Tesseract is free and benefits most from variants
+export const DEFAULT_ENSEMBLE_PASSES: EnsemblePass[] = [
+  { engine: 'vision', variant: 'original' },
+  { engine: 'tesseract', variant: 'original' },
+  { engine: 'tesseract', variant: 'contrast' },
+  { engine: 'tesseract', variant: 'threshold' }
+];
+
+// Minimum similarity for rows from two reads to count as the same printed line
+const ALIGNMENT_THRESHOLD = 0.5;
+
+const RECEIPT_KEYWORDS = /\b(TOTAL|SUBTOTAL|SUB TOTAL|TAX|BALANCE|CHANGE|CASH|VISA|MASTERCARD|DEBIT|CREDIT|SAVINGS|YOU SAVED)\b/i;
+const TRAILING_PRICE = /-?\$?\d{1,4}[.,]\d{2}-?(\s+[A-Z]{1,2})?$/i;
+
+export async function processImageWithEnsemble(
+  imageBlob: Blob,
+  options: EnsembleOptions = {}
+): Promise<OCRResult> {
+  const startTime = performance.now();
+  const { passes = DEFAULT_ENSEMBLE_PASSES, ...recognizeOptions } = options;
+  const reads: EnsembleRead[] = [];
+  let lastError: unknown;
+
+  console.log(`🗳️ Ensemble OCR: ${passes.length} passes`);
+  const variants = new Map<ImageVariant, Promise<Blob>>();
+
+  for (const [index, pass] of passes.entries()) {
+    const engine = getOcrEngine(pass.engine);
+    const source = `${pass.engine}/${pass.variant}`;
+    if (!engine || !(await engine.isAvailable())) {
+      console.log(`📡 ${source} skipped - engine not available`);
+      continue;
+    }
+
+    try {
+      options.onProgress?.(`Reading your receipt (${index + 1} of ${passes.length})...`);
+      if (!variants.has(pass.variant)) {
+        variants.set(pass.variant, createImageVariant(imageBlob, pass.variant));
+      }
+      const image = await variants.get(pass.variant)!;
+
+      // Engines report their own progress steps, which would hide the pass counter
+      const result = await engine.recognize(image, { ...recognizeOptions, onProgress: undefined });
+      const candidates = readCandidates(source, result);
+      console.log(`📊 ${source}: ${candidates.length} lines, ${Math.round(result.confidence * 100)}% confidence`);
+      if (candidates.length > 0) {
+        reads.push({ source, result, candidates });
+      }
+    } catch (error) {
+      console.warn(`⚠️ ${source} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  return combineReads(reads, lastError, startTime);
+}
+
+// Video-stream OCR: the live scanner's sharpest frames (flattened receipts, best first) are fused into
+// one super-resolved image for the preferred engine, and each frame is also read by Tesseract on its
+// own. The reads vote line by line, so a line blurred or washed out on one frame is read from another.
+export async function processFramesWithEnsemble(
+  frames: Blob[],
+  options: OcrRecognizeOptions = {}
+): Promise<FusedScan> {
+  if (frames.length === 0) {
+    throw new Error('No frames to read');
+  }
+
+  const startTime = performance.now();
+  const reads: EnsembleRead[] = [];
+  let lastError: unknown;
+
+  options.onProgress?.(`Combining ${frames.length} frames...`);
+  const pixels = await Promise.all(frames.map(frame => decodeInBrowser(frame)));
+  const fusedPixels = fuseFrames(pixels);
+  const fused = await encodeBlobInBrowser(fusedPixels, 'image/png');
+  console.log(`🎞️ Fused ${frames.length} frames into ${fusedPixels.width}x${fusedPixels.height}`);
+
+  try {
+    const result = await processImageWithOCR(fused, {
+      ...options,
+      onProgress: message => options.onProgress?.(`Reading the combined frames... ${message}`)
+    });
+    reads.push({ source: 'fused', result, candidates: readCandidates('fused', result) });
+  } catch (error) {
+    console.warn('⚠️ Fused frame read failed:', error);
+    lastError = error;
+  }
+
+  // Vision is paid per call, so single frames are only read by the free engine
+  const tesseract = getOcrEngine('tesseract');
+  if (tesseract && (await tesseract.isAvailable())) {
+    for (const [index, frame] of pixels.entries()) {
+      const source = `frame ${index + 1}`;
+      try {
+        options.onProgress?.(`Reading frame ${index + 1} of ${pixels.length}...`);
+        // At the fused size, so every read's rows share the same coordinates
+        const image = await encodeBlobInBrowser(resizeImage(frame, fusedPixels.width, fusedPixels.height), 'image/png');
+        const result = await tesseract.recognize(image, { ...options, onProgress: undefined });
+        const candidates = readCandidates(source, result);
+        console.log(`📊 ${source}: ${candidates.length} lines, ${Math.round(result.confidence * 100)}% confidence`);
+        if (candidates.length > 0) {
+          reads.push({ source, result, candidates });
+        }
+      } catch (error) {
+        console.warn(`⚠️ ${source} failed:`, error);
+        lastError = error;
+      }
+    }
+  }
+
+  return { image: fused, ocr: combineReads(reads, lastError, startTime) };
+}
+
+// Align the reads row by row, then vote on each aligned line
+export function voteOnLines(reads: LineCandidate[][]): EnsembleLine[] {
+  const slots = alignReads(reads);
+
+  const lines = slots
+    .map(slot => voteOnSlot(slot, reads.length))
+    // A line only a minority of reads saw, and that doesn't look like receipt text, is noise
+    .filter(line => line.agreement >= 0.5 || line.candidates.some(candidate => candidate.plausibility >= 0.5));
+
+  const dropped = slots.length - lines.length;
+  if (dropped > 0) {
+    console.log(`🧹 Ensemble dropped ${dropped} noise lines`);
+  }
+  return lines;
+}
+
+// How much a line of text looks like something printed on a receipt (0-1)
+export function receiptLinePlausibility(text: string): number {
+  const line = text.trim();
+  if (line.length < 2) return 0;
+
+  let score = 0.5;
+  if (TRAILING_PRICE.test(line)) score += 0.3;
+  if (RECEIPT_KEYWORDS.test(line)) score += 0.2;
+
+  const visible = line.replace(/\s+/g, '');
+  const alphanumeric = visible.replace(/[^A-Za-z0-9]/g, '').length;
+  if (alphanumeric / visible.length < 0.6) score -= 0.4; // Mostly punctuation
+
+  const longWords = line.split(/\s+/).filter(word => /^[A-Za-z]{4,}$/.test(word));
+  const noVowels = longWords.filter(word => !/[AEIOUY]/i.test(word)).length;
+  if (longWords.length > 0 && noVowels / longWords.length > 0.5) score -= 0.3; // "RRLLTN"
+
+  if (/(.)\1{3,}/.test(visible.replace(/[-=*.]/g, ''))) score -= 0.2; // "IIII" - but not separator rules
+  if (line.length > 60) score -= 0.2;
+
+  return Math.max(0, Math.min(1, score));
+}
+
+// Each layout row is one line; reads without word positions fall back to their text lines
+export function readRows(result: OCRResult): ReceiptRow[] {
+  return result.layout?.rows.length
+    ? result.layout.rows
+    : result.text.split('\n').filter(line => line.trim()).map((line, index) => ({
+        words: [],
+        text: line.trim(),
+        name: line.trim(),
+        confidence: result.confidence,
+        top: index,
+        bottom: index + 1
+      }));
+}
+
+function readCandidates(source: string, result: OCRResult): LineCandidate[] {
+  return readRows(result).map(row => {
+    const text = rowToLine(row);
+    return {
+      source,
+      text,
+      confidence: row.words.length
+        ? row.words.reduce((sum, word) => sum + word.confidence, 0) / row.words.length
+        : row.confidence,
+      plausibility: receiptLinePlausibility(text),
+      row
+    };
+  });
+}
+
+// Progressive alignment: each read is aligned to the lines found so far (Needleman-Wunsch over rows),
+// so a row one engine missed or split doesn't shift every row after it
+function alignReads(reads: LineCandidate[][]): LineCandidate[][] {
+  let slots: LineCandidate[][] = [];
+
+  for (const read of reads) {
+    if (slots.length === 0) {
+      slots = read.map(candidate => [candidate]);
+      continue;
+    }
+
+    const n = slots.length;
+    const m = read.length;
+    const similarity = slots.map(slot => read.map(candidate =>
+      Math.max(...slot.map(member => stringSimilarity(normalizeLine(member.text), normalizeLine(candidate.text))))
+    ));
+
+    // score[i][j] - best total similarity aligning the first i slots with the first j rows
+    const score = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = 1; i <= n; i++) {
+      for (let j = 1; j <= m; j++) {
+        const sim = similarity[i - 1][j - 1];
+        score[i][j] = Math.max(
+          score[i - 1][j],
+          score[i][j - 1],
+          sim >= ALIGNMENT_THRESHOLD ? score[i - 1][j - 1] + sim : -Infinity
+        );
+      }
+    }
+
+    // Walk back from the end, collecting slots in reverse
+    const merged: LineCandidate[][] = [];
+    let i = n;
+    let j = m;
+    while (i > 0 || j > 0) {
+      if (i > 0 && j > 0 && similarity[i - 1][j - 1] >= ALIGNMENT_THRESHOLD &&
+          score[i][j] === score[i - 1][j - 1] + similarity[i - 1][j - 1]) {
+        merged.push([...slots[i - 1], read[j - 1]]);
+        i--;
+        j--;
+      } else if (i > 0 && (j === 0 || score[i][j] === score[i - 1][j])) {
+        merged.push(slots[i - 1]);
+        i--;
+      } else {
+        // A row no earlier read had - it becomes a line of its own
+        merged.push([read[j - 1]]);
+        j--;
+      }
+    }
+    slots = merged.reverse();
+  }
+
+  return slots;
+}
+
+function voteOnSlot(slot: LineCandidate[], readCount: number): EnsembleLine {
+  const tally = new Map<string, { weight: number; votes: number; best: LineCandidate }>();
+
+  for (const candidate of slot) {
+    const key = normalizeLine(candidate.text);
+    // Implausible text still counts a little - it may be a store name or code we don't recognize
+    const weight = candidate.confidence * (0.25 + 0.75 * candidate.plausibility);
+    const entry = tally.get(key);
+    if (entry) {
+      entry.weight += weight;
+      entry.votes++;
+      if (candidate.confidence > entry.best.confidence) entry.best = candidate;
+    } else {
+      tally.set(key, { weight, votes: 1, best: candidate });
+    }
+  }
+
+  // Ties go to the candidate read first (the more confident read)
+  let winner: { weight: number; votes: number; best: LineCandidate } | undefined;
+  tally.forEach(entry => {
+    if (!winner || entry.weight > winner.weight) winner = entry;
+  });
+
+  const weightOf = (candidate: LineCandidate) => tally.get(normalizeLine(candidate.text))!.weight;
+  const candidates = [
+    winner!.best,
+    ...slot.filter(candidate => candidate !== winner!.best).sort((a, b) => weightOf(b) - weightOf(a))
+  ];
+  const agreement = winner!.votes / readCount;
+
+  return {
+    text: winner!.best.text,
+    confidence: Math.max(0, Math.min(1, winner!.best.confidence * (0.5 + 0.5 * agreement))),
+    agreement,
+    candidates
+  };
+}
+
+// Vote the reads into one result, the most confident read supplying the words and image quality
+function combineReads(reads: EnsembleRead[], lastError: unknown, startTime: number): OCRResult {
+  if (reads.length === 0) {
+    throw lastError instanceof Error ? lastError : new Error('No OCR pass could read the image');
+  }
+
+  // The most confident read is the backbone the others are aligned to
+  reads.sort((a, b) => b.result.confidence - a.result.confidence);
+  const best = reads[0].result;
+  const lines = voteOnLines(reads.map(read => read.candidates));
+
+  const rows: ReceiptRow[] = lines.map(line => {
+    const [winner, ...others] = line.candidates;
+    const alternatives = uniqueReadings(others, winner.text);
+    return { ...winner.row, alternatives: alternatives.length ? alternatives : undefined };
+  });
+  const confidence = lines.length
+    ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length
+    : best.confidence;
+
+  console.log(`🏆 Ensemble OCR: ${reads.length} reads into ${lines.length} lines`, {
+    sources: reads.map(read => read.source),
+    contested: lines.filter(line => line.agreement < 1).length,
+    totalTime: Math.round(performance.now() - startTime)
+  });
+
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    confidence,
+    quality: {
+      ...best.quality,
+      processingTime: performance.now() - startTime,
+      confidence
+    },
+    words: best.words,
+    // Winning rows come from different reads, so their sections are worked out again
+    layout: { rows: labelReceiptRegions(rows), priceColumnRight: best.layout?.priceColumnRight },
+    engine: 'ensemble',
+    lines
+  };
+}
+
+// Distinct readings other than the winner, as parsers see rows
+function uniqueReadings(candidates: LineCandidate[], winnerText: string): LayoutRow[] {
+  const seen = new Set([normalizeLine(winnerText)]);
+  const readings: LayoutRow[] = [];
+
+  for (const { text, row } of candidates) {
+    const key = normalizeLine(text);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    readings.push({ text: row.text, name: row.name, price: row.price, flag: row.flag });
+  }
+  return readings;
+}
+
+// Render the image variant a pass reads - on pixels, so it runs on the page and in a Worker alike
+export async function createImageVariant(imageBlob: Blob, variant: ImageVariant): Promise<Blob> {
+  if (variant === 'original') {
+    return imageBlob;
+  }
+
+  const gray = convertToGrayscale(await decodeInBrowser(imageBlob));
+  return encodeBlobInBrowser(variant === 'contrast' ? stretchContrast(gray) : binarize(gray));
+}
+
+export function normalizeLine(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9.]+/g, ' ').trim();
+}
+
+// Normalized Levenshtein similarity (1 = identical)
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
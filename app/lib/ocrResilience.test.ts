@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, ocrErrorFromResponse } from './ocrResilience';
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const openCircuit = () => {
+    vi.useFakeTimers();
+    const circuit = new CircuitBreaker('Test', 2, 1000);
+    circuit.recordFailure();
+    circuit.recordFailure();
+    return circuit;
+  };
+
+  it('opens after repeated failures and refuses calls until the cooldown', () => {
+    const circuit = openCircuit();
+
+    expect(circuit.getState()).toBe('open');
+    expect(circuit.canRequest()).toBe(false);
+  });
+
+  it('lets a single trial call through while half-open', () => {
+    const circuit = openCircuit();
+    vi.advanceTimersByTime(1000);
+
+    expect(circuit.canRequest()).toBe(true);
+    expect(circuit.getState()).toBe('half-open');
+    expect(circuit.canRequest()).toBe(false);
+    expect(circuit.canRequest()).toBe(false);
+
+    circuit.recordSuccess();
+    expect(circuit.getState()).toBe('closed');
+    expect(circuit.canRequest()).toBe(true);
+    expect(circuit.canRequest()).toBe(true);
+  });
+
+  it('re-opens when the trial fails, and hands the trial on when it is released', () => {
+    const circuit = openCircuit();
+    vi.advanceTimersByTime(1000);
+
+    expect(circuit.canRequest()).toBe(true);
+    circuit.release();
+    expect(circuit.canRequest()).toBe(true);
+    circuit.recordFailure();
+    expect(circuit.getState()).toBe('open');
+    expect(circuit.canRequest()).toBe(false);
+  });
+});
+
+describe('ocrErrorFromResponse', () => {
+  it('classifies the route statuses', () => {
+    expect(ocrErrorFromResponse(403, '').kind).toBe('auth');
+    expect(ocrErrorFromResponse(429, '', '30')).toMatchObject({ kind: 'quota', retryAfterMs: 30000 });
+    expect(ocrErrorFromResponse(413, 'too big').kind).toBe('bad-image');
+    expect(ocrErrorFromResponse(503, '').kind).toBe('transient');
+  });
+});
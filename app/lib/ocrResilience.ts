@@ -0,0 +1,149 @@
+// Typed OCR failures, retry with backoff and a circuit breaker for the Vision engine
+// Only transient failures are retried. Repeated service failures open the circuit, and OCR then
+// goes straight to the fallback engine until the cooldown has passed.
+
+export type OCRErrorKind =
+  | 'quota'      // Rate limit or daily quota - retrying now won't help
+  | 'auth'       // Missing or invalid API key - needs configuration, not a retry
+  | 'transient'  // Network errors, timeouts and 5xx - worth another attempt
+  | 'bad-image'; // The image itself can't be read - another engine might
+
+export class OCRError extends Error {
+  // How many attempts were made before giving up
+  attempts = 1;
+
+  constructor(
+    public readonly kind: OCRErrorKind,
+    message: string,
+    public readonly status?: number,
+    // From Retry-After, when the server sent one
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'OCRError';
+  }
+}
+
+// Map an HTTP failure from the OCR route to an error kind
+export function ocrErrorFromResponse(status: number, details: string, retryAfterHeader?: string | null): OCRError {
+  const retryAfterSeconds = Number(retryAfterHeader);
+  const retryAfterMs = retryAfterHeader && Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined;
+
+  if (status === 401 || status === 403) {
+    return new OCRError('auth', 'API key invalid or Vision API not enabled', status);
+  }
+  if (status === 429) {
+    return new OCRError(
+      'quota',
+      retryAfterHeader ? `API quota exceeded - try again in ${retryAfterHeader} seconds` : 'API quota exceeded',
+      status,
+      retryAfterMs
+    );
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return new OCRError('bad-image', `The image could not be processed (${status}): ${details.substring(0, 200)}`, status);
+  }
+  return new OCRError('transient', `OCR API error: ${status}`, status, retryAfterMs);
+}
+
+// Anything thrown that isn't already typed - fetch rejects with a TypeError when the network fails
+export function toOCRError(error: unknown): OCRError {
+  if (error instanceof OCRError) return error;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new OCRError(error instanceof TypeError ? 'transient' : 'bad-image', message);
+}
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Run fn, retrying transient OCRErrors with exponential backoff and jitter
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const ocrError = toOCRError(error);
+      if (ocrError.kind !== 'transient' || attempt >= attempts) {
+        ocrError.attempts = attempt;
+        throw ocrError;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.max(ocrError.retryAfterMs ?? 0, backoff / 2 + Math.random() * backoff / 2);
+      console.warn(`🔁 OCR attempt ${attempt} failed (${ocrError.message}), retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Counts consecutive service failures. Once open, calls are refused until cooldownMs has passed;
+// then a single trial call is let through (half-open) and its result closes or re-opens the circuit.
+// Every other call is refused while the trial is out, so a recovering service isn't hit by a burst.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private state: CircuitState = 'closed';
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold = 3,
+    private readonly cooldownMs = 60000
+  ) {}
+
+  // True when the call may go ahead. A half-open call is the trial - report how it went with
+  // recordSuccess, recordFailure or release.
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+      console.log(`🔌 ${this.name} circuit half-open - trying one request`);
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess() {
+    if (this.state !== 'closed') {
+      console.log(`🔌 ${this.name} circuit closed`);
+    }
+    this.failures = 0;
+    this.state = 'closed';
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.warn(`🔌 ${this.name} circuit open after ${this.failures} failures - using fallback for ${this.cooldownMs / 1000}s`);
+    }
+  }
+
+  // The call ended without telling anything about the service (e.g. an unreadable photo) -
+  // a half-open circuit lets the next call be the trial instead
+  release() {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
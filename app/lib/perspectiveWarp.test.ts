@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { Quad } from './documentDetection';
+import { applyHomography, computeHomography } from './perspectiveWarp';
+
+// A receipt photographed at an angle, and the flat rectangle it is warped onto
+const photographed: Quad = [
+  { x: 112, y: 64 },
+  { x: 530, y: 98 },
+  { x: 561, y: 702 },
+  { x: 81, y: 655 }
+];
+const flat: Quad = [
+  { x: 0, y: 0 },
+  { x: 399, y: 0 },
+  { x: 399, y: 599 },
+  { x: 0, y: 599 }
+];
+
+describe('computeHomography', () => {
+  it('takes each corner to its target', () => {
+    const h = computeHomography(photographed, flat);
+
+    photographed.forEach((corner, i) => {
+      const mapped = applyHomography(h, corner);
+      expect(mapped.x).toBeCloseTo(flat[i].x, 6);
+      expect(mapped.y).toBeCloseTo(flat[i].y, 6);
+    });
+  });
+
+  it('round-trips points through the inverse transform', () => {
+    const forward = computeHomography(photographed, flat);
+    const inverse = computeHomography(flat, photographed);
+
+    for (const point of [{ x: 300, y: 400 }, { x: 150, y: 120 }, { x: 500, y: 640 }]) {
+      const back = applyHomography(inverse, applyHomography(forward, point));
+      expect(back.x).toBeCloseTo(point.x, 6);
+      expect(back.y).toBeCloseTo(point.y, 6);
+    }
+  });
+});
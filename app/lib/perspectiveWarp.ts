@@ -0,0 +1,101 @@
+// Four-point perspective warp
+// Maps the receipt's corners onto a flat rectangle, so a receipt photographed at an angle reads like a scan.
+
+import { createRGBAImage, RGBAImage, sampleBilinear } from './imageCore';
+import { detectReceiptQuad, Point, Quad } from './documentDetection';
+
+// 3x3 projective transform, row-major, with the last entry fixed at 1
+export type Homography = number[];
+
+// Transform that takes each `from` corner to the matching `to` corner
+export function computeHomography(from: Quad, to: Quad): Homography {
+  // Two equations per corner pair, unknowns h0..h7
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  return [...solveLinearSystem(rows), 1];
+}
+
+export function applyHomography(h: Homography, point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w
+  };
+}
+
+// Warp the quad to an upright rectangle as wide and tall as its longest edges (capped at maxSize)
+export function warpPerspective(image: RGBAImage, corners: Quad, maxSize = 2400): RGBAImage {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const edge = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  let width = Math.max(edge(topLeft, topRight), edge(bottomLeft, bottomRight));
+  let height = Math.max(edge(topLeft, bottomLeft), edge(topRight, bottomRight));
+
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+
+  // Map output pixels back into the photo
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+  const h = computeHomography(target, corners);
+  const warped = createRGBAImage(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = applyHomography(h, { x, y });
+      const sx = Math.min(image.width - 1, Math.max(0, source.x));
+      const sy = Math.min(image.height - 1, Math.max(0, source.y));
+      const dst = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        warped.data[dst + c] = sampleBilinear(image, sx, sy, c);
+      }
+    }
+  }
+
+  return warped;
+}
+
+// Find the receipt and flatten it - null when no receipt outline was found
+export function flattenReceipt(image: RGBAImage, minConfidence = 0.3): { image: RGBAImage; corners: Quad } | null {
+  const detected = detectReceiptQuad(image);
+  if (!detected || detected.confidence < minConfidence) {
+    return null;
+  }
+  return { image: warpPerspective(image, detected.corners), corners: detected.corners };
+}
+
+// Gaussian elimination with partial pivoting on an augmented matrix
+function solveLinearSystem(rows: number[][]): number[] {
+  const n = rows.length;
+  const m = rows.map(row => [...row]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(m[row][column]) > Math.abs(m[pivot][column])) pivot = row;
+    }
+    if (Math.abs(m[pivot][column]) < 1e-12) {
+      throw new Error('Corners are collinear - cannot compute perspective transform');
+    }
+    [m[column], m[pivot]] = [m[pivot], m[column]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === column) continue;
+      const factor = m[row][column] / m[column][column];
+      for (let k = column; k <= n; k++) {
+        m[row][k] -= factor * m[column][k];
+      }
+    }
+  }
+
+  return m.map((row, i) => row[n] / row[i]);
+}
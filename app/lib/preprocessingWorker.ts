@@ -0,0 +1,19 @@
+// Web Worker that runs image preprocessing off the main thread
+// Started by imagePreprocessing.ts - each message is one image to preprocess.
+
+import { preprocessInBrowser, PreprocessingWorkerRequest, PreprocessingWorkerResponse } from './imagePreprocessing';
+
+// The project's TypeScript lib is the DOM one, so type the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PreprocessingWorkerRequest>) => void) | null;
+  postMessage(message: PreprocessingWorkerResponse): void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, imageBlob, options } = event.data;
+  try {
+    scope.postMessage({ id, result: await preprocessInBrowser(imageBlob, options) });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : 'Preprocessing failed' });
+  }
+};
@@ -1,4 +1,6 @@
 // Product name enhancement using AI
+import { getStoreTemplate } from './storeTemplates';
+
 export interface EnhancedProduct {
   originalName: string;
   enhancedName: string;
@@ -6,74 +8,6 @@ export interface EnhancedProduct {
   confidence: number;
 }
 
-// Store-specific abbreviation patterns
-const STORE_PATTERNS = {
-  SAFEWAY: {
-    'G-P': 'Grey Poupon',
-    'TATES': 'Tate\'s',
-    'SPINDRIFT': 'Spindrift',
-    'LND O LKS': 'Land O Lakes',
-    'AMYS': 'Amy\'s',
-    'SIG': 'Signature',
-    'WT': 'Weight',
-    'CRV': 'California Redemption Value',
-    'GALBANI': 'Galbani',
-    'PUFFS': 'Puffs',
-    'BOUNCE': 'Bounce',
-    'PRECIOUS GALBANI': 'Precious Galbani',
-    'WHOLE GRAIN': 'Whole Grain'
-  },
-  WALMART: {
-    'GV': 'Great Value',
-    'MM': 'Marketside',
-    'EQ': 'Equate',
-    'MV': 'Member\'s Mark',
-    'HRI': 'Hormel',
-    'CL': 'Classic',
-    'CHS': 'Cheese',
-    'PEP': 'Pepperoni',
-    'USG': 'Usage',
-    'SC': 'South Carolina',
-    'BCN': 'Bacon',
-    'CHDDR': 'Cheddar',
-    'ABF': 'ABF',
-    'THINBRST': 'Thin Crust',
-    'DV': 'Dove',
-    'RSE': 'Rose',
-    'LT': 'Light',
-    'SWT': 'Sweet',
-    'BUTTR': 'Butter',
-    'AVO': 'Avocado',
-    'VERDE': 'Verde',
-    'BTS': 'Boots',
-    'BLON': 'Blonde',
-    'TR': 'Trail',
-    'HS': 'House',
-    'FRM': 'From',
-    'HNY': 'Honey',
-    'GRMS': 'Grams',
-    'ENTYSAS': 'Entity SAS',
-    'PAL ORI': 'Palmolive Original',
-    'TIDEHEORG': 'Tide HE Original',
-    'CHRMNSF': 'Charmin Soft',
-    'WHT GRAN SUG': 'White Granulated Sugar',
-    'ZPR SANDW': 'Zipper Sandwich',
-    'POUF': 'Pouf',
-    'PALOMA': 'Paloma',
-    'CCSERVINGBWL': 'CC Serving Bowl',
-    'FUSILL': 'Fusilli',
-    'MS10X14BOARD': 'MS 10x14 Board',
-    'ELD-HARV': 'Eldorado Harvest',
-    'CHK BST BNLS': 'Chicken Breast Boneless',
-    'MIX VEG': 'Mixed Vegetables'
-  },
-  TARGET: {
-    'UP&UP': 'Up & Up',
-    'GH': 'Good & Gather',
-    'MW': 'Market Pantry'
-  }
-};
-
 // Common abbreviations across all stores
 const COMMON_ABBREVIATIONS = {
   'CK': 'Cookies',
@@ -147,11 +81,10 @@ export function enhanceProductName(
     .replace(/[^\w\s&'-]/g, '')
     .trim();
 
-  // Apply store-specific patterns
-  const storeKey = storeName.toUpperCase();
-  if (STORE_PATTERNS[storeKey as keyof typeof STORE_PATTERNS]) {
-    const patterns = STORE_PATTERNS[storeKey as keyof typeof STORE_PATTERNS];
-    Object.entries(patterns).forEach(([abbrev, expansion]) => {
+  // Apply store-specific patterns from the chain's receipt template
+  const template = storeName ? getStoreTemplate(storeName) : undefined;
+  if (template) {
+    Object.entries(template.abbreviations).forEach(([abbrev, expansion]) => {
       const regex = new RegExp(`\\b${abbrev}\\b`, 'gi');
       if (regex.test(enhancedName)) {
         enhancedName = enhancedName.replace(regex, expansion);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter, getClientId } from './rateLimit';
+
+const config = { burst: 2, perMinute: 60, dailyQuotaPerClient: 5, dailyQuotaTotal: 8 };
+
+describe('createRateLimiter', () => {
+  it('admits a burst of calls, then asks the client to slow down', async () => {
+    const limiter = createRateLimiter('test', config);
+
+    expect((await limiter.admit('a')).allowed).toBe(true);
+    expect((await limiter.admit('a')).allowed).toBe(true);
+    const refused = await limiter.admit('a');
+    expect(refused).toMatchObject({ allowed: false, reason: 'rate' });
+    expect(refused.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it('never lets concurrent charges overshoot the daily quota', async () => {
+    const limiter = createRateLimiter('test', config);
+
+    const decisions = await Promise.all(Array.from({ length: 4 }, () => limiter.charge('a', 2)));
+    expect(decisions.filter(decision => decision.allowed)).toHaveLength(2);
+    expect(decisions.find(decision => !decision.allowed)?.reason).toBe('quota');
+  });
+
+  it('turns away a client with no quota left before it spends anything', async () => {
+    const limiter = createRateLimiter('test', config);
+
+    expect((await limiter.charge('a', 5)).allowed).toBe(true);
+    expect(await limiter.admit('a')).toMatchObject({ allowed: false, reason: 'quota' });
+    expect((await limiter.admit('b')).allowed).toBe(true);
+  });
+
+  it('caps every client together with the total quota', async () => {
+    const limiter = createRateLimiter('test', config);
+
+    expect((await limiter.charge('a', 5)).allowed).toBe(true);
+    const refused = await limiter.charge('b', 4);
+    expect(refused).toMatchObject({ allowed: false, reason: 'quota' });
+    expect(refused.message).toContain('service');
+    expect((await limiter.charge('b', 3)).allowed).toBe(true);
+  });
+});
+
+describe('getClientId', () => {
+  it('prefers the platform address over forwarded headers', () => {
+    expect(getClientId({ ip: '203.0.113.7', headers: new Headers({ 'x-forwarded-for': '10.0.0.1' }) })).toBe('203.0.113.7');
+  });
+
+  it('takes the last forwarded hop, not the one the client wrote', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.2.3.4, 198.51.100.9' });
+    expect(getClientId({ headers })).toBe('198.51.100.9');
+  });
+});
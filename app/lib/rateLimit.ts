@@ -0,0 +1,195 @@
+// Per-client rate limiting and daily quotas for routes that spend money on our API keys
+// A token bucket smooths bursts of calls; daily counters cap how many units (e.g. images) a client,
+// and everyone together, can use per UTC day. Counters live in a pluggable store.
+
+export interface TokenBucket {
+  tokens: number;
+  // ms since epoch of the last refill
+  updatedAt: number;
+}
+
+// One atomic step against the store: refill the bucket and take a token, and add to every counter.
+// Nothing changes unless everything fits, so concurrent calls can't overshoot a limit together.
+export interface ConsumeRequest {
+  now: number;
+  bucket?: { key: string; capacity: number; refillPerMs: number; ttlMs: number };
+  // A counter fits while value + amount stays at or under its limit; no limit means it always fits
+  counters: Array<{ key: string; amount: number; limit?: number; ttlMs: number }>;
+}
+
+export type ConsumeResult =
+  | { allowed: true }
+  // Tokens left in the bucket (under 1)
+  | { allowed: false; exhausted: 'bucket'; tokens: number }
+  | { allowed: false; exhausted: 'counter'; key: string };
+
+// Where counters are kept. The in-memory store is per server instance; a shared store implements
+// consume as one atomic operation (a Redis Lua script or similar) so every instance sees the same counts.
+export interface RateLimitStore {
+  consume(request: ConsumeRequest): Promise<ConsumeResult>;
+}
+
+export interface RateLimitConfig {
+  // Most calls a client can make back to back
+  burst: number;
+  // Calls per minute once the burst is spent
+  perMinute: number;
+  // Units per client per UTC day; 0 for no limit
+  dailyQuotaPerClient: number;
+  // Units across all clients per UTC day; 0 for no limit
+  dailyQuotaTotal: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Which limit was hit
+  reason?: 'rate' | 'quota';
+  // Seconds until a retry can succeed
+  retryAfterSeconds?: number;
+  message?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { bucket: TokenBucket; expiresAt: number }>();
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  // No awaits inside, so each call runs to completion before the next one starts
+  async consume({ now, bucket, counters }: ConsumeRequest): Promise<ConsumeResult> {
+    this.prune(now);
+
+    let tokens = 0;
+    if (bucket) {
+      const stored = this.buckets.get(bucket.key)?.bucket;
+      tokens = stored
+        ? Math.min(bucket.capacity, stored.tokens + (now - stored.updatedAt) * bucket.refillPerMs)
+        : bucket.capacity;
+      if (tokens < 1) {
+        return { allowed: false, exhausted: 'bucket', tokens };
+      }
+    }
+
+    const full = counters.find(counter =>
+      counter.limit !== undefined && (this.counters.get(counter.key)?.value ?? 0) + counter.amount > counter.limit
+    );
+    if (full) {
+      return { allowed: false, exhausted: 'counter', key: full.key };
+    }
+
+    if (bucket) {
+      this.buckets.set(bucket.key, { bucket: { tokens: tokens - 1, updatedAt: now }, expiresAt: now + bucket.ttlMs });
+    }
+    counters.forEach(counter => {
+      const existing = this.counters.get(counter.key);
+      this.counters.set(counter.key, {
+        value: (existing?.value ?? 0) + counter.amount,
+        expiresAt: existing?.expiresAt ?? now + counter.ttlMs
+      });
+    });
+    return { allowed: true };
+  }
+
+  // Drop expired entries so one-off clients don't accumulate forever
+  private prune(now: number) {
+    this.buckets.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.buckets.delete(key);
+    });
+    this.counters.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.counters.delete(key);
+    });
+  }
+}
+
+export function createRateLimiter(
+  name: string,
+  config: RateLimitConfig,
+  store: RateLimitStore = new MemoryRateLimitStore()
+) {
+  const refillPerMs = config.perMinute / 60000;
+  // A bucket left alone this long is full again, so there's no need to keep it
+  const bucketTtlMs = Math.ceil(config.burst / refillPerMs);
+
+  const quotas = (clientId: string, now: number) => {
+    const day = new Date(now).toISOString().slice(0, 10);
+    return [
+      { key: `${name}:quota:${clientId}:${day}`, quota: config.dailyQuotaPerClient, ttlMs: DAY_MS },
+      { key: `${name}:quota:all:${day}`, quota: config.dailyQuotaTotal, ttlMs: DAY_MS }
+    ];
+  };
+
+  const decide = (result: ConsumeResult, now: number): RateLimitDecision => {
+    if (result.allowed) {
+      return { allowed: true };
+    }
+    if (result.exhausted === 'bucket') {
+      return {
+        allowed: false,
+        reason: 'rate',
+        retryAfterSeconds: Math.ceil((1 - result.tokens) / refillPerMs / 1000),
+        message: 'Too many requests - please slow down'
+      };
+    }
+    return {
+      allowed: false,
+      reason: 'quota',
+      retryAfterSeconds: Math.ceil((DAY_MS - (now % DAY_MS)) / 1000),
+      message: result.key.includes(':quota:all:')
+        ? 'The service has reached its daily limit - try again tomorrow'
+        : `Daily limit of ${config.dailyQuotaPerClient} reached - try again tomorrow`
+    };
+  };
+
+  return {
+    // Cheap check before any work: takes a rate token and refuses clients with no quota left.
+    // Nothing is charged against the quotas yet.
+    async admit(clientId: string): Promise<RateLimitDecision> {
+      const now = Date.now();
+      const result = await store.consume({
+        now,
+        bucket: { key: `${name}:bucket:${clientId}`, capacity: config.burst, refillPerMs, ttlMs: bucketTtlMs },
+        counters: quotas(clientId, now).map(({ key, quota, ttlMs }) => ({
+          key,
+          amount: 0,
+          // Room for at least one more unit
+          limit: quota > 0 ? quota - 1 : undefined,
+          ttlMs
+        }))
+      });
+      return decide(result, now);
+    },
+
+    // Spend cost units (e.g. images) from the daily quotas - all of them or none
+    async charge(clientId: string, cost: number): Promise<RateLimitDecision> {
+      if (cost <= 0) {
+        return { allowed: true };
+      }
+      const now = Date.now();
+      const result = await store.consume({
+        now,
+        counters: quotas(clientId, now).map(({ key, quota, ttlMs }) => ({
+          key,
+          amount: cost,
+          limit: quota > 0 ? quota : undefined,
+          ttlMs
+        }))
+      });
+      return decide(result, now);
+    }
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// Client identity for rate limiting. The platform's address for the client when it has one (request.ip
+// on Vercel), else the last x-forwarded-for hop - the address our own proxy saw. Earlier entries are
+// whatever the client sent, so they can't identify it.
+export function getClientId(request: { ip?: string; headers: Headers }): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return request.ip || forwarded || request.headers.get('x-real-ip') || 'anonymous';
+}
+
+export function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
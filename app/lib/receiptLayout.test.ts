@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildReceiptLayout, OCRWord } from './receiptLayout';
+
+// A word with its box - 10px per character, 20px tall
+const word = (text: string, x: number, y: number, width = text.length * 10): OCRWord => ({
+  text,
+  confidence: 0.9,
+  box: { x, y, width, height: 20 }
+});
+
+// Item name at the left margin, price right-aligned at x = 400
+const itemRow = (name: string, price: string, y: number): OCRWord[] => [
+  word(name, 20, y),
+  word(price, 400 - price.length * 10, y)
+];
+
+describe('buildReceiptLayout', () => {
+  it('groups words into rows by height and orders them left to right', () => {
+    const words = [
+      word('4.49', 360, 62),
+      word('MILK', 100, 58),
+      word('BANANAS', 20, 20),
+      word('0.99', 360, 23),
+      word('ORGANIC', 20, 61)
+    ];
+
+    const { rows } = buildReceiptLayout(words);
+
+    expect(rows.map(row => row.text)).toEqual(['BANANAS 0.99', 'ORGANIC MILK 4.49']);
+  });
+
+  it('takes the price from the price column, not any amount on the row', () => {
+    const { rows, priceColumnRight } = buildReceiptLayout([
+      ...itemRow('BANANAS', '0.99', 20),
+      ...itemRow('MILK', '4.49', 60),
+      ...itemRow('BREAD', '2.99', 100),
+      // An amount in the middle of the line is part of the description
+      word('SAVE', 20, 140), word('1.00', 70, 140), word('ON', 120, 140), word('SOAP', 150, 140)
+    ]);
+
+    expect(priceColumnRight).toBe(400);
+    expect(rows.map(row => [row.name, row.price])).toEqual([
+      ['BANANAS', 0.99],
+      ['MILK', 4.49],
+      ['BREAD', 2.99],
+      ['SAVE 1.00 ON SOAP', undefined]
+    ]);
+  });
+
+  it('reads a price split into touching tokens as one amount, with its flag', () => {
+    const { rows } = buildReceiptLayout([
+      word('MUSTARD', 20, 20), word('6', 350, 20), word('.', 360, 20), word('49', 370, 20), word('S', 400, 20)
+    ]);
+
+    expect(rows[0]).toMatchObject({ name: 'MUSTARD', price: 6.49, flag: 'S' });
+  });
+
+  it('reads a discount printed with a trailing minus as negative', () => {
+    const { rows } = buildReceiptLayout([word('COUPON', 20, 20), word('1.00-', 350, 20)]);
+
+    expect(rows[0].price).toBe(-1);
+  });
+
+  it('joins a price alone on its row to the item named on the row above', () => {
+    const { rows } = buildReceiptLayout([
+      ...itemRow('BANANAS', '0.99', 20),
+      word('ORGANIC', 20, 60), word('WHOLE', 100, 60), word('MILK', 160, 60),
+      word('4.49', 360, 100),
+      ...itemRow('BREAD', '2.99', 140)
+    ]);
+
+    expect(rows.map(row => [row.name, row.price])).toEqual([
+      ['BANANAS', 0.99],
+      ['ORGANIC WHOLE MILK', 4.49],
+      ['BREAD', 2.99]
+    ]);
+    expect(rows[1]).toMatchObject({ top: 60, bottom: 120 });
+  });
+});
@@ -0,0 +1,282 @@
+// Receipt line reconstruction from OCR word boxes
+// Words are grouped into rows by their vertical position, then each row is split into the
+// item name and the price column by horizontal position - so a price is paired with the item
+// printed level with it, not with whatever the OCR engine put on the same text line.
+
+import type { ReceiptItem } from './receiptSchema';
+import { median } from './imageStatistics';
+import { ReceiptRegionKind, segmentReceiptRows } from './receiptPreprocessing';
+
+export interface OCRWord {
+  text: string;
+  // 0-1
+  confidence: number;
+  // Weakest single character in the word, when the engine reports per-symbol confidence
+  minSymbolConfidence?: number;
+  box: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface ReceiptRow {
+  // Words left to right
+  words: OCRWord[];
+  // Whole row as printed
+  text: string;
+  // Text left of the price column
+  name: string;
+  // Amount in the price column; negative for discounts printed as "4.00-"
+  price?: number;
+  // Text right of the price, usually a tax flag
+  flag?: string;
+  // Weakest character (or word, without per-symbol confidence) anywhere on the row
+  confidence: number;
+  // Other readings of the same row, when several OCR passes were compared
+  alternatives?: LayoutRow[];
+  // Section of the receipt the row was printed in, when the rows could be segmented
+  region?: ReceiptRegionKind;
+  top: number;
+  bottom: number;
+}
+
+export interface ReceiptLayout {
+  rows: ReceiptRow[];
+  // Right edge of the price column, when enough prices line up to find it
+  priceColumnRight?: number;
+}
+
+// The serializable part of a row that parsers work with
+export type LayoutRow = Pick<ReceiptRow, 'text' | 'name' | 'price' | 'flag' | 'region'>;
+
+const PRICE_TOKEN = /^-?\$?\d{1,4}[.,]\d{2}-?$/;
+// Fewer aligned prices than this and there is no column to speak of
+const MIN_PRICES_FOR_COLUMN = 3;
+// Items read below this are flagged for the user to check
+export const LOW_OCR_CONFIDENCE = 0.6;
+
+export function buildReceiptLayout(words: OCRWord[]): ReceiptLayout {
+  const usable = words.filter(word => word.text.trim() && word.box.height > 0);
+  if (usable.length === 0) {
+    return { rows: [] };
+  }
+
+  const lineHeight = median(usable.map(word => word.box.height));
+  const rows = groupIntoRows(usable, lineHeight).map(rowWords => mergeSplitTokens(rowWords, lineHeight));
+
+  // Prices on a receipt are right-aligned, so their right edges cluster
+  const priceRights = rows.flatMap(rowWords =>
+    rowWords.filter(word => PRICE_TOKEN.test(word.text)).map(word => word.box.x + word.box.width)
+  );
+  const priceColumnRight = priceRights.length >= MIN_PRICES_FOR_COLUMN ? median(priceRights) : undefined;
+  const pageWidth = Math.max(...usable.map(word => word.box.x + word.box.width)) - Math.min(...usable.map(word => word.box.x));
+  const columnTolerance = Math.max(lineHeight * 3, pageWidth * 0.12);
+
+  const layoutRows = rows.map(rowWords => splitRow(rowWords, priceColumnRight, columnTolerance));
+
+  console.log(`📐 Layout: ${usable.length} words into ${layoutRows.length} rows`, {
+    priceColumnRight,
+    rowsWithPrice: layoutRows.filter(row => row.price !== undefined).length
+  });
+
+  return {
+    rows: labelReceiptRegions(joinOrphanPrices(layoutRows)),
+    priceColumnRight
+  };
+}
+
+// Tag each row with the receipt section it was printed in - a hint for parsers, so a priced line
+// in the header or footer isn't taken for an item
+export function labelReceiptRegions(rows: ReceiptRow[]): ReceiptRow[] {
+  const regions = segmentReceiptRows(rows);
+  return regions ? rows.map((row, i) => ({ ...row, region: regions[i] })) : rows;
+}
+
+// One line of text per row, with the price column restored to the end of the line
+export function layoutToText(rows: LayoutRow[]): string {
+  return rows.map(rowToLine).join('\n');
+}
+
+export function rowToLine(row: LayoutRow): string {
+  if (row.price === undefined) {
+    return row.text;
+  }
+
+  const amount = row.price < 0 ? `${Math.abs(row.price).toFixed(2)}-` : row.price.toFixed(2);
+  return [row.name, amount, row.flag].filter(Boolean).join(' ');
+}
+
+// Give each parsed item the OCR confidence (and any alternative readings) of the row it was read from.
+// Parsers only see text, so rows are matched back to items by price and name, in receipt order.
+export function attachOcrConfidence(items: ReceiptItem[], rows: ReceiptRow[]): ReceiptItem[] {
+  const used = new Set<number>();
+  let cursor = 0;
+
+  return items.map(item => {
+    let best: { index: number; score: number } | undefined;
+
+    rows.forEach((row, index) => {
+      if (used.has(index)) return;
+
+      const priceMatches = row.price !== undefined && Math.abs(Math.abs(row.price) - item.price) < 0.005;
+      const similarity = nameSimilarity(item.name, row.name);
+      // A price alone is ambiguous (two items at 2.99), so some of the name has to agree too
+      if (!(similarity >= 0.5 || (priceMatches && similarity > 0))) return;
+
+      // Prefer rows after the last match, since parsers keep receipt order
+      const score = (priceMatches ? 1 : 0) + similarity + (index >= cursor ? 0.5 : 0);
+      if (!best || score > best.score) {
+        best = { index, score };
+      }
+    });
+
+    if (!best) {
+      return item;
+    }
+
+    used.add(best.index);
+    cursor = best.index + 1;
+    const row = rows[best.index];
+    return {
+      ...item,
+      ocrConfidence: row.confidence,
+      ocrAlternatives: row.alternatives?.map(({ name, price }) => ({ name, price }))
+    };
+  });
+}
+
+// Share of the item name's words that appear in the row
+function nameSimilarity(itemName: string, rowName: string): number {
+  const itemTokens = tokenize(itemName);
+  if (itemTokens.length === 0) return 0;
+
+  const rowTokens = new Set(tokenize(rowName));
+  return itemTokens.filter(token => rowTokens.has(token)).length / itemTokens.length;
+}
+
+function tokenize(text: string): string[] {
+  return text.toUpperCase().split(/[^A-Z0-9]+/).filter(token => token.length >= 2);
+}
+
+// Greedy grouping by vertical centre - a word joins the row whose centre it is closest to
+function groupIntoRows(words: OCRWord[], lineHeight: number): OCRWord[][] {
+  const sorted = [...words].sort((a, b) => centerY(a) - centerY(b));
+  const rows: Array<{ center: number; words: OCRWord[] }> = [];
+
+  for (const word of sorted) {
+    const y = centerY(word);
+    const row = rows
+      .filter(candidate => Math.abs(candidate.center - y) < lineHeight * 0.5)
+      .sort((a, b) => Math.abs(a.center - y) - Math.abs(b.center - y))[0];
+
+    if (row) {
+      row.words.push(word);
+      row.center = row.words.reduce((sum, w) => sum + centerY(w), 0) / row.words.length;
+    } else {
+      rows.push({ center: y, words: [word] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => a.center - b.center)
+    .map(row => row.words.sort((a, b) => a.box.x - b.box.x));
+}
+
+// OCR engines sometimes split "6.49" into "6" "." "49" - glue tokens that touch
+function mergeSplitTokens(words: OCRWord[], lineHeight: number): OCRWord[] {
+  const merged: OCRWord[] = [];
+
+  for (const word of words) {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? word.box.x - (previous.box.x + previous.box.width) : Infinity;
+    const joinsNumber = previous && /[\d.$,-]$/.test(previous.text) && /^[\d.,-]/.test(word.text);
+
+    if (previous && joinsNumber && gap < lineHeight * 0.25) {
+      const right = Math.max(previous.box.x + previous.box.width, word.box.x + word.box.width);
+      const bottom = Math.max(previous.box.y + previous.box.height, word.box.y + word.box.height);
+      const top = Math.min(previous.box.y, word.box.y);
+      merged[merged.length - 1] = {
+        text: previous.text + word.text,
+        confidence: Math.min(previous.confidence, word.confidence),
+        minSymbolConfidence: minDefined(previous.minSymbolConfidence, word.minSymbolConfidence),
+        box: { x: previous.box.x, y: top, width: right - previous.box.x, height: bottom - top }
+      };
+    } else {
+      merged.push(word);
+    }
+  }
+
+  return merged;
+}
+
+function splitRow(words: OCRWord[], priceColumnRight: number | undefined, tolerance: number): ReceiptRow {
+  const text = words.map(word => word.text).join(' ');
+  const confidence = Math.min(...words.map(word => word.minSymbolConfidence ?? word.confidence));
+  const top = Math.min(...words.map(word => word.box.y));
+  const bottom = Math.max(...words.map(word => word.box.y + word.box.height));
+
+  // The price is the rightmost amount that sits in the price column (or the last amount when there is no column)
+  let priceIndex = -1;
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (!PRICE_TOKEN.test(words[i].text)) continue;
+
+    const right = words[i].box.x + words[i].box.width;
+    if (priceColumnRight === undefined || Math.abs(right - priceColumnRight) <= tolerance) {
+      priceIndex = i;
+    }
+    break;
+  }
+
+  if (priceIndex === -1) {
+    return { words, text, name: text, confidence, top, bottom };
+  }
+
+  const priceText = words[priceIndex].text;
+  const amount = parseFloat(priceText.replace(/[$-]/g, '').replace(',', '.'));
+  const flag = words.slice(priceIndex + 1).map(word => word.text).join(' ');
+
+  return {
+    words,
+    text,
+    name: words.slice(0, priceIndex).map(word => word.text).join(' '),
+    price: /-/.test(priceText) ? -amount : amount,
+    flag: flag || undefined,
+    confidence,
+    top,
+    bottom
+  };
+}
+
+// A price alone on its row belongs to the item named on the row above when that row has no price
+function joinOrphanPrices(rows: ReceiptRow[]): ReceiptRow[] {
+  const joined: ReceiptRow[] = [];
+
+  for (const row of rows) {
+    const previous = joined[joined.length - 1];
+    if (previous && previous.price === undefined && row.price !== undefined && !row.name.trim()) {
+      joined[joined.length - 1] = {
+        ...previous,
+        words: [...previous.words, ...row.words],
+        text: `${previous.text} ${row.text}`,
+        price: row.price,
+        flag: row.flag,
+        confidence: Math.min(previous.confidence, row.confidence),
+        bottom: row.bottom
+      };
+    } else {
+      joined.push(row);
+    }
+  }
+
+  return joined;
+}
+
+function centerY(word: OCRWord): number {
+  return word.box.y + word.box.height / 2;
+}
+
+function minDefined(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
@@ -0,0 +1,150 @@
+// Claude and Gemini parsers against a local server that answers in each provider's response shape
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createClaudeProvider, createGeminiProvider } from './receiptParserProviders';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+const OCR_TEXT = `TRADER JOE'S
+BANANAS           0.99
+ORGANIC MILK      4.49
+TOTAL             5.48`;
+
+const PARSED_RECEIPT = {
+  storeName: "Trader Joe's",
+  items: [
+    { name: 'BANANAS', enhancedName: 'Bananas', category: 'Produce', price: 0.99, confidence: 0.9 },
+    { name: 'ORGANIC MILK', enhancedName: 'Organic Milk', category: 'Dairy', price: 4.49, confidence: 0.95 },
+    // Dropped by validation - no price
+    { name: 'BAG', enhancedName: 'Bag', category: 'Other', price: 0 }
+  ],
+  total: 5.48
+};
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let respond: (request: RecordedRequest, response: ServerResponse) => void;
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let raw = '';
+    request.on('data', chunk => (raw += chunk));
+    request.on('end', () => {
+      const recorded = { method: request.method, url: request.url, headers: request.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(recorded);
+      respond(recorded, response);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('Claude parser', () => {
+  const provider = () => createClaudeProvider({ apiKey: 'claude-test-key', baseUrl, model: 'claude-test' });
+
+  it('sends the prompt to the Messages API and validates the JSON in the text block', async () => {
+    respond = (_, response) => sendJson(response, 200, {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: '```json\n' + JSON.stringify(PARSED_RECEIPT) + '\n```' }],
+      stop_reason: 'end_turn'
+    });
+
+    const result = await provider().parse(OCR_TEXT);
+
+    const [request] = requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('claude-test-key');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body.model).toBe('claude-test');
+    expect(typeof request.body.system).toBe('string');
+    expect(request.body.messages[0].role).toBe('user');
+    expect(request.body.messages[0].content).toContain('ORGANIC MILK');
+
+    expect(result.storeName).toBe("Trader Joe's");
+    expect(result.items.map(item => item.enhancedName)).toEqual(['Bananas', 'Organic Milk']);
+    expect(result.total).toBe(5.48);
+  });
+
+  it('reports the status of a failed call', async () => {
+    respond = (_, response) => sendJson(response, 529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+
+    await expect(provider().parse(OCR_TEXT)).rejects.toThrow('Claude API error: 529');
+  });
+
+  it('rejects a response without a text block', async () => {
+    respond = (_, response) => sendJson(response, 200, { content: [{ type: 'tool_use', id: 'tool_1', name: 'x', input: {} }] });
+
+    await expect(provider().parse(OCR_TEXT)).rejects.toThrow('Claude API returned no text content');
+  });
+});
+
+describe('Gemini parser', () => {
+  const provider = (model = 'gemini-test') => createGeminiProvider({ apiKey: 'gemini-test-key', baseUrl, model });
+
+  it('sends the prompt to generateContent and joins the candidate parts', async () => {
+    const json = JSON.stringify(PARSED_RECEIPT);
+    respond = (_, response) => sendJson(response, 200, {
+      candidates: [{
+        content: { role: 'model', parts: [{ text: json.slice(0, 40) }, { text: json.slice(40) }] },
+        finishReason: 'STOP'
+      }]
+    });
+
+    const result = await provider().parse(OCR_TEXT);
+
+    const [request] = requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1/models/gemini-test:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('gemini-test-key');
+    expect(request.body.systemInstruction.parts[0].text).toBeTruthy();
+    expect(request.body.contents[0].parts[0].text).toContain('BANANAS');
+    expect(request.body.generationConfig.responseMimeType).toBe('application/json');
+
+    expect(result.storeName).toBe("Trader Joe's");
+    expect(result.items).toHaveLength(2);
+    expect(result.total).toBe(5.48);
+  });
+
+  it('keeps the key out of the URL and encodes the model name', async () => {
+    respond = (_, response) => sendJson(response, 200, { candidates: [{ content: { parts: [{ text: JSON.stringify(PARSED_RECEIPT) }] } }] });
+
+    await provider('tuned/receipts?v=2').parse(OCR_TEXT);
+
+    expect(requests[0].url).toBe('/v1/models/tuned%2Freceipts%3Fv%3D2:generateContent');
+    expect(requests[0].url).not.toContain('gemini-test-key');
+  });
+
+  it('rejects a response without candidates', async () => {
+    respond = (_, response) => sendJson(response, 200, { promptFeedback: { blockReason: 'SAFETY' } });
+
+    await expect(provider().parse(OCR_TEXT)).rejects.toThrow('Gemini API returned no candidates');
+  });
+
+  it('reports the status of a failed call', async () => {
+    respond = (_, response) => sendJson(response, 403, { error: { code: 403, message: 'API key not valid', status: 'PERMISSION_DENIED' } });
+
+    await expect(provider().parse(OCR_TEXT)).rejects.toThrow('Gemini API error: 403');
+  });
+});
@@ -0,0 +1,278 @@
+// Pluggable receipt parser providers (server-side only - these hold the API keys)
+// Each provider turns OCR text into an AIParsingResult. Which one runs is chosen
+// by configuration, so a self-hosted model can be used without code changes.
+
+import {
+  AIParsingResult,
+  RECEIPT_PARSER_SYSTEM_PROMPT,
+  createReceiptParsingPrompt,
+  validateAIResult,
+  extractJSON
+} from './receiptSchema';
+import { fallbackParsing } from './ruleBasedParser';
+import type { LayoutRow } from './receiptLayout';
+
+export interface ReceiptParserProvider {
+  id: string;
+  name: string;
+  // True when the provider has everything it needs (API key, endpoint) to run
+  isConfigured(): boolean;
+  // rows are the layout-reconstructed lines, when the OCR engine returned word positions
+  parse(ocrText: string, rows?: LayoutRow[]): Promise<AIParsingResult>;
+}
+
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export type ParserProviderId = 'openai' | 'claude' | 'gemini' | 'local' | 'rules';
+
+const DEFAULT_PROVIDER: ParserProviderId = 'openai';
+
+const DEFAULT_CONFIG: Record<Exclude<ParserProviderId, 'rules'>, ProviderConfig> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o' },
+  claude: { baseUrl: 'https://api.anthropic.com/v1', model: 'claude-3-5-sonnet-latest' },
+  gemini: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-1.5-pro' },
+  // No default endpoint - set LOCAL_LLM_BASE_URL, e.g. http://localhost:11434/v1
+  // for Ollama or http://localhost:8080/v1 for the llama.cpp server
+  local: { model: 'llama3.1' }
+};
+
+// Keys are plain server environment variables - never NEXT_PUBLIC_, which would ship them to the browser
+export function readProviderConfig(id: Exclude<ParserProviderId, 'rules'>): ProviderConfig {
+  const env = {
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      model: process.env.OPENAI_MODEL
+    },
+    claude: {
+      apiKey: process.env.CLAUDE_API_KEY,
+      baseUrl: process.env.CLAUDE_BASE_URL,
+      model: process.env.CLAUDE_MODEL
+    },
+    gemini: {
+      apiKey: process.env.GEMINI_API_KEY,
+      baseUrl: process.env.GEMINI_BASE_URL,
+      model: process.env.GEMINI_MODEL
+    },
+    local: {
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      baseUrl: process.env.LOCAL_LLM_BASE_URL,
+      model: process.env.LOCAL_LLM_MODEL
+    }
+  }[id];
+
+  return {
+    apiKey: env.apiKey,
+    baseUrl: env.baseUrl || DEFAULT_CONFIG[id].baseUrl,
+    model: env.model || DEFAULT_CONFIG[id].model
+  };
+}
+
+// Chat completions request shared by OpenAI and OpenAI-compatible local servers
+async function parseWithChatCompletions(
+  providerName: string,
+  config: ProviderConfig,
+  ocrText: string,
+  rows?: LayoutRow[]
+): Promise<AIParsingResult> {
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages: [
+        {
+          role: 'system',
+          content: RECEIPT_PARSER_SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: createReceiptParsingPrompt(ocrText, rows)
+        }
+      ],
+      temperature: 0.1, // Low temperature for consistent parsing
+      max_tokens: 2000,
+      response_format: { type: "json_object" }
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${providerName} API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  
+  if (!content) {
+    throw new Error(`${providerName} API returned no message content`);
+  }
+
+  return validateAIResult(extractJSON(content), ocrText);
+}
+
+export function createOpenAIProvider(config: ProviderConfig = readProviderConfig('openai')): ReceiptParserProvider {
+  return {
+    id: 'openai',
+    name: 'OpenAI',
+    isConfigured: () => !!config.apiKey,
+    parse: (ocrText, rows) => parseWithChatCompletions('OpenAI', config, ocrText, rows)
+  };
+}
+
+export function createLocalProvider(config: ProviderConfig = readProviderConfig('local')): ReceiptParserProvider {
+  return {
+    id: 'local',
+    name: `Local model (${config.model})`,
+    // Self-hosted servers usually run without a key, so only an endpoint is required
+    isConfigured: () => !!config.baseUrl,
+    parse: (ocrText, rows) => parseWithChatCompletions('Local model', config, ocrText, rows)
+  };
+}
+
+export function createClaudeProvider(config: ProviderConfig = readProviderConfig('claude')): ReceiptParserProvider {
+  return {
+    id: 'claude',
+    name: 'Claude',
+    isConfigured: () => !!config.apiKey,
+    parse: async (ocrText, rows) => {
+      const response = await fetch(`${config.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey || '',
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          system: RECEIPT_PARSER_SYSTEM_PROMPT,
+          messages: [
+            {
+              role: 'user',
+              content: createReceiptParsingPrompt(ocrText, rows)
+            }
+          ],
+          temperature: 0.1,
+          max_tokens: 2000
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Claude API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      
+      // Claude returns a list of content blocks - the JSON lives in the text block
+      const textBlock = Array.isArray(data.content)
+        ? data.content.find((block: any) => block.type === 'text')
+        : undefined;
+      
+      if (!textBlock?.text) {
+        throw new Error('Claude API returned no text content');
+      }
+
+      return validateAIResult(extractJSON(textBlock.text), ocrText);
+    }
+  };
+}
+
+export function createGeminiProvider(config: ProviderConfig = readProviderConfig('gemini')): ReceiptParserProvider {
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    isConfigured: () => !!config.apiKey,
+    parse: async (ocrText, rows) => {
+      // The key goes in a header - query strings end up in proxy and server logs
+      const response = await fetch(`${config.baseUrl}/models/${encodeURIComponent(config.model || '')}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey || '',
+        },
+        body: JSON.stringify({
+          systemInstruction: {
+            parts: [{ text: RECEIPT_PARSER_SYSTEM_PROMPT }]
+          },
+          contents: [
+            {
+              role: 'user',
+              parts: [{ text: createReceiptParsingPrompt(ocrText, rows) }]
+            }
+          ],
+          generationConfig: {
+            temperature: 0.1,
+            maxOutputTokens: 2000,
+            responseMimeType: 'application/json'
+          }
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gemini API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      
+      // Gemini nests the generated text inside candidates -> content -> parts
+      const text = data.candidates?.[0]?.content?.parts
+        ?.map((part: any) => part.text || '')
+        .join('');
+      
+      if (!text) {
+        throw new Error('Gemini API returned no candidates');
+      }
+
+      return validateAIResult(extractJSON(text), ocrText);
+    }
+  };
+}
+
+export const rulesProvider: ReceiptParserProvider = {
+  id: 'rules',
+  name: 'Rule-based parser',
+  isConfigured: () => true,
+  parse: async (ocrText, rows) => fallbackParsing(ocrText, rows)
+};
+
+// Provider registry
+const providers = new Map<string, ReceiptParserProvider>();
+
+export function registerParserProvider(provider: ReceiptParserProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getParserProvider(id: string): ReceiptParserProvider | undefined {
+  return providers.get(id);
+}
+
+export function listParserProviders(): ReceiptParserProvider[] {
+  return Array.from(providers.values());
+}
+
+// The provider selected by RECEIPT_PARSER_PROVIDER (defaults to OpenAI)
+export function getActiveParserProvider(): ReceiptParserProvider {
+  const id = process.env.RECEIPT_PARSER_PROVIDER || DEFAULT_PROVIDER;
+  const provider = providers.get(id);
+  
+  if (!provider) {
+    console.warn(`⚠️ Unknown receipt parser provider "${id}", using ${DEFAULT_PROVIDER}`);
+    return providers.get(DEFAULT_PROVIDER)!;
+  }
+  
+  return provider;
+}
+
+[
+  createOpenAIProvider(),
+  createClaudeProvider(),
+  createGeminiProvider(),
+  createLocalProvider(),
+  rulesProvider
+].forEach(registerParserProvider);
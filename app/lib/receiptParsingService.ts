@@ -0,0 +1,54 @@
+// Server-side receipt parsing - runs the configured providers for /api/parse-receipt
+import type { AIParsingResult } from './receiptSchema';
+import type { LayoutRow } from './receiptLayout';
+import { fallbackParsing } from './ruleBasedParser';
+import {
+  getActiveParserProvider,
+  getParserProvider,
+  listParserProviders
+} from './receiptParserProviders';
+import { mergeParsingResults, ProviderParsingResult } from './consensusMerge';
+
+export async function parseWithProvider(
+  ocrText: string,
+  providerId?: string,
+  rows?: LayoutRow[]
+): Promise<AIParsingResult> {
+  const provider = (providerId && getParserProvider(providerId)) || getActiveParserProvider();
+  
+  if (!provider.isConfigured()) {
+    console.warn(`🔑 ${provider.name} is not configured, falling back to rule-based parsing`);
+    return fallbackParsing(ocrText, rows);
+  }
+
+  try {
+    console.log(`🤖 Parsing with ${provider.name}...`);
+    return await provider.parse(ocrText, rows);
+    
+  } catch (error) {
+    console.error(`${provider.name} parsing failed:`, error);
+    return fallbackParsing(ocrText, rows);
+  }
+}
+
+// Multi-model approach - try every configured AI provider
+export async function parseWithAllProviders(
+  ocrText: string,
+  rows?: LayoutRow[]
+): Promise<AIParsingResult> {
+  const results: ProviderParsingResult[] = [];
+  
+  const aiProviders = listParserProviders()
+    .filter(provider => provider.id !== 'rules' && provider.isConfigured());
+  
+  for (const provider of aiProviders) {
+    try {
+      results.push({ providerId: provider.id, result: await provider.parse(ocrText, rows) });
+    } catch (error) {
+      console.error(`${provider.name} parsing failed:`, error);
+    }
+  }
+  
+  // Vote field by field across providers rather than picking a single winner
+  return results.length > 0 ? mergeParsingResults(results) : fallbackParsing(ocrText, rows);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createRGBAImage } from './imageCore';
+import type { ReceiptRow } from './receiptLayout';
+import { detectReceiptRegions, segmentReceiptRows } from './receiptPreprocessing';
+
+// Rows 20px tall with 10px line spacing; a `gap` adds blank space above the row
+const receiptRows = (lines: Array<{ text: string; price?: number; gap?: number }>): ReceiptRow[] => {
+  let top = 0;
+  return lines.map(({ text, price, gap = 0 }) => {
+    top += gap;
+    const row: ReceiptRow = { words: [], text, name: text, price, confidence: 0.9, top, bottom: top + 20 };
+    top += 30;
+    return row;
+  });
+};
+
+describe('segmentReceiptRows', () => {
+  it('labels header, items, totals, payment and footer rows', () => {
+    const rows = receiptRows([
+      { text: 'KROGER' },
+      { text: '123 MAIN ST' },
+      { text: 'MILK 3.49', price: 3.49, gap: 40 },
+      { text: 'BREAD 2.99', price: 2.99 },
+      { text: 'EGGS 4.19', price: 4.19 },
+      { text: '------------' },
+      { text: 'SUBTOTAL 10.67', price: 10.67 },
+      { text: 'TAX 0.75', price: 0.75 },
+      { text: 'TOTAL 11.42', price: 11.42 },
+      { text: 'VISA 11.42', price: 11.42, gap: 40 },
+      { text: 'CARD ************1234' },
+      { text: 'THANK YOU FOR SHOPPING', gap: 40 },
+      { text: 'STORE # 123' }
+    ]);
+
+    expect(segmentReceiptRows(rows)).toEqual([
+      'header', 'header',
+      'items', 'items', 'items', 'items',
+      'totals', 'totals', 'totals',
+      'payment', 'payment',
+      'footer', 'footer'
+    ]);
+  });
+
+  it('starts payment at the first tender line when no break sets it apart', () => {
+    const rows = receiptRows([
+      { text: 'MILK 3.49', price: 3.49 },
+      { text: 'TOTAL 3.49', price: 3.49 },
+      { text: 'CASH 5.00', price: 5 },
+      { text: 'CHANGE 1.51', price: 1.51 }
+    ]);
+
+    expect(segmentReceiptRows(rows)).toEqual(['items', 'totals', 'payment', 'payment']);
+  });
+
+  it('gives up without a priced row to anchor the items', () => {
+    expect(segmentReceiptRows(receiptRows([{ text: 'KROGER' }, { text: 'THANK YOU' }]))).toBeUndefined();
+  });
+});
+
+describe('detectReceiptRegions', () => {
+  // Dark text bands 10px tall on 6px spacing, with wider blank space between blocks
+  const receiptImage = (blocks: number[]) => {
+    const width = 200;
+    const lines: number[] = [];
+    let y = 10;
+    blocks.forEach(count => {
+      for (let i = 0; i < count; i++) {
+        lines.push(y);
+        y += 16;
+      }
+      y += 30;
+    });
+
+    const image = createRGBAImage(width, y);
+    image.data.fill(255);
+    lines.forEach(top => {
+      for (let row = top; row < top + 10; row++) {
+        // Words, not rules: ink broken up across the line
+        for (let x = 10; x < 150; x++) {
+          if (x % 20 < 14) image.data.fill(30, (row * width + x) * 4, (row * width + x) * 4 + 3);
+        }
+      }
+    });
+    return image;
+  };
+
+  it('names blocks by position around the longest one', () => {
+    const image = receiptImage([2, 6, 3, 2, 1]);
+    const regions = detectReceiptRegions(image);
+
+    expect(regions.map(region => region.kind)).toEqual(['header', 'items', 'totals', 'payment', 'footer']);
+    expect(regions[0].top).toBe(0);
+    expect(regions[regions.length - 1].bottom).toBe(image.height);
+    regions.slice(1).forEach((region, i) => expect(region.top).toBe(regions[i].bottom));
+  });
+
+  it('finds nothing on blank paper', () => {
+    const blank = createRGBAImage(100, 100);
+    blank.data.fill(255);
+    expect(detectReceiptRegions(blank)).toEqual([]);
+  });
+});
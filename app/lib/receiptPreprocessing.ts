@@ -1,4 +1,44 @@
-import { PreprocessingResult } from './imagePreprocessing';
+// Receipt sections: header, items, totals, payment and footer
+// Sections are found twice. Before OCR, from the pixels - text bands split by blank space and printed
+// rules - so each section gets its own enhancement. After OCR, from the rows - keywords plus the same
+// blank space and rules - so parsers know which section each row was printed in.
+
+import type { PreprocessingResult } from './imagePreprocessing';
+import type { RGBAImage } from './imageCore';
+import type { ReceiptRow } from './receiptLayout';
+import type { LightingAnalysis } from './lightingAnalysis';
+import { histogramPercentile, median, otsuThreshold } from './imageStatistics';
+
+// In the order they are printed
+export const RECEIPT_REGION_KINDS = ['header', 'items', 'totals', 'payment', 'footer'] as const;
+export type ReceiptRegionKind = typeof RECEIPT_REGION_KINDS[number];
+
+export interface ReceiptRegion {
+  kind: ReceiptRegionKind;
+  // Pixel rows, bottom exclusive - together the regions cover the image from top to bottom
+  top: number;
+  bottom: number;
+}
+
+export interface RegionEnhancement {
+  // Percent of the darkest and of the lightest pixels clipped by the contrast stretch
+  clipPercent: number;
+  // Tone curve after the stretch - above 1 darkens faint strokes, 1 leaves the midtones alone
+  gamma: number;
+}
+
+export const REGION_ENHANCEMENT: Record<ReceiptRegionKind, RegionEnhancement> = {
+  // Logos, large type and reverse print - keep the midtones
+  header: { clipPercent: 0.5, gamma: 1 },
+  // Small dense print
+  items: { clipPercent: 1, gamma: 1.2 },
+  // The amounts everything else is checked against
+  totals: { clipPercent: 1, gamma: 1.3 },
+  // Masked card numbers and auth codes
+  payment: { clipPercent: 1, gamma: 1.2 },
+  // Fine print, usually the most faded part of the roll
+  footer: { clipPercent: 2, gamma: 1.4 }
+};
 
 export interface ReceiptAnalysis {
   isReceipt: boolean;
@@ -10,14 +50,33 @@ export interface ReceiptAnalysis {
     height: number;
     aspectRatio: number;
   };
-  regions: {
-    header?: { y: number };
-    items?: { start: number; end: number };
-    total?: { y: number };
-  };
+  regions: ReceiptRegion[];
+  // Glare and shadow areas, located on the photo
+  lighting: LightingAnalysis;
 }
 
-export async function analyzeReceiptImage(imageData: PreprocessingResult): Promise<ReceiptAnalysis> {
+// A pixel row holds text when at least this share of it is ink
+const INK_ROW_SHARE = 0.004;
+// Ink spanning this share of the width in a band thinner than a text line is a printed rule (---- or ====)
+const RULE_WIDTH_SHARE = 0.4;
+// Blank space this many line heights beyond the usual line spacing separates two sections
+const SECTION_GAP_LINES = 0.8;
+// Bands with less tonal range than this are left as they are
+const MIN_STRETCH_RANGE = 16;
+
+type RowCue = 'rule' | 'totals' | 'payment' | 'footer';
+
+const RULE_ROW = /^[\s\-=_*~.#]*[\-=_*~.#]{5,}[\s\-=_*~.#]*$/;
+// Anchored at the start of the row - "CRY SFIDK 8 PK TAX 6.49 S" is an item, "TAX 7.000% 1.23" is not
+const TOTALS_ROW = /^[^A-Z0-9]*(SUB\s?-?TOTAL|TOTAL|ORDER TOTAL|GRAND TOTAL|(SALES\s+)?TAX|BALANCE|AMOUNT DUE|AMT DUE|YOU SAVED|TOTAL SAVINGS|ITEMS SOLD|NUMBER OF ITEMS)\b/;
+const PAYMENT_ROW = /\b(CASH|CHANGE|VISA|MASTER\s?CARD|AMEX|DISCOVER|DEBIT|CREDIT|EBT|TEND|TENDERED|APPROVED|APPROVAL|AUTH|CARD|ACCOUNT|ACCT|CHIP|CONTACTLESS|PAYMENT)\b|[*X#]{4,}\s?\d{4}\b/;
+const FOOTER_ROW = /THANK|RETURN|REFUND|SURVEY|FEEDBACK|WWW\.|\.COM\b|VISIT|COME AGAIN|KEEP YOUR RECEIPT|CASHIER|STORE\s*#|ST#|TRANS(ACTION)?\s*#|TERMINAL/;
+
+// Only the measurements are read - the encoded image isn't needed, and the live scanner measures
+// quality and lighting itself without preprocessing the frame
+export async function analyzeReceiptImage(
+  imageData: Pick<PreprocessingResult, 'width' | 'height' | 'quality' | 'lighting' | 'regions'>
+): Promise<ReceiptAnalysis> {
   const issues: string[] = [];
   const recommendations: string[] = [];
   
@@ -48,13 +107,28 @@ export async function analyzeReceiptImage(imageData: PreprocessingResult): Promi
     issues.push('Image is blurry');
     recommendations.push('Hold camera steady and ensure receipt is in focus');
   }
+
+  // Local lighting problems the averages above miss
+  const { lighting } = imageData;
+  lighting.glare.forEach(region => issues.push(`Glare on the ${region.location}`));
+  if (lighting.glare.length > 0) {
+    recommendations.push('Tilt the receipt away from the light to get rid of the glare');
+  }
+  lighting.shadows.forEach(region => issues.push(`Shadow over the ${region.location}`));
+  if (lighting.shadows.length > 0) {
+    recommendations.push('Keep your hand and phone from shading the receipt');
+  }
+  
+  // Sections found while preprocessing (empty when region enhancement was off)
+  const { regions } = imageData;
+  if (regions.length === 1) {
+    issues.push('Only one block of text found');
+    recommendations.push('Fit the whole receipt, top to bottom, in the frame');
+  }
   
   // Calculate confidence based on issues
   const confidence = Math.max(0, 1 - (issues.length * 0.2));
   
-  // Attempt to identify receipt regions (placeholder logic)
-  const regions = detectReceiptRegions(imageData);
-  
   return {
     isReceipt: confidence > 0.3,
     confidence,
@@ -65,44 +139,174 @@ export async function analyzeReceiptImage(imageData: PreprocessingResult): Promi
       height: imageData.height,
       aspectRatio
     },
-    regions
+    regions,
+    lighting
   };
 }
 
-function detectReceiptRegions(imageData: PreprocessingResult) {
-  // This is a placeholder for more sophisticated region detection
-  // In a full implementation, this would:
-  // 1. Detect the store name/header region
-  // 2. Identify the itemized list section
-  // 3. Locate the total amount area
-  // 4. Find any additional sections (tax, subtotal, etc.)
-  
-  return {
-    header: { y: Math.floor(imageData.height * 0.1) },
-    items: {
-      start: Math.floor(imageData.height * 0.2),
-      end: Math.floor(imageData.height * 0.8)
-    },
-    total: { y: Math.floor(imageData.height * 0.9) }
-  };
+// Sections of a grayscale image, before OCR. Text lines are bands of pixel rows holding ink; blocks of
+// lines are split where the blank space is taller than usual or a rule is printed. Without any text to
+// go on, blocks are named by position: the longest block is the item list, blocks above it the header,
+// and the blocks below it totals, payment and footer in turn.
+export function detectReceiptRegions(image: RGBAImage): ReceiptRegion[] {
+  const { data, width, height } = image;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[data[i]]++;
+  }
+  const threshold = otsuThreshold(histogram, width * height);
+
+  // Runs of pixel rows with ink, with how far the ink spreads across them
+  const bands: Array<{ top: number; bottom: number; spread: number; longestRun: number }> = [];
+  for (let y = 0; y < height; y++) {
+    let ink = 0, run = 0, longestRun = 0, first = width, last = -1;
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] < threshold) {
+        ink++;
+        run++;
+        longestRun = Math.max(longestRun, run);
+        first = Math.min(first, x);
+        last = x;
+      } else {
+        run = 0;
+      }
+    }
+
+    if (ink < width * INK_ROW_SHARE) continue;
+    const previous = bands[bands.length - 1];
+    if (previous && previous.bottom === y) {
+      previous.bottom = y + 1;
+      previous.spread = Math.max(previous.spread, last - first + 1);
+      previous.longestRun = Math.max(previous.longestRun, longestRun);
+    } else {
+      bands.push({ top: y, bottom: y + 1, spread: last - first + 1, longestRun });
+    }
+  }
+
+  const lineHeight = median(bands.map(band => band.bottom - band.top));
+  // Solid rules are one long run; dashed ones are a thin band spread across the page
+  const isRule = (band: typeof bands[number]) => band.longestRun >= width * RULE_WIDTH_SHARE ||
+    (band.bottom - band.top < lineHeight * 0.5 && band.spread >= width * RULE_WIDTH_SHARE);
+  // Thin specks that aren't rules are noise
+  const lines = bands.filter(band => !isRule(band) && band.bottom - band.top >= lineHeight * 0.3);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const usualGap = median(lines.slice(1).map((line, i) => line.top - lines[i].bottom));
+  const blocks: Array<{ top: number; bottom: number; lines: number }> = [];
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    const ruleBetween = previous && bands.some(band => isRule(band) && band.top >= previous.bottom && band.bottom <= line.top);
+    const wideGap = previous && line.top - previous.bottom > usualGap + lineHeight * SECTION_GAP_LINES;
+    const block = blocks[blocks.length - 1];
+    if (!block || ruleBetween || wideGap) {
+      blocks.push({ top: line.top, bottom: line.bottom, lines: 1 });
+    } else {
+      block.bottom = line.bottom;
+      block.lines++;
+    }
+  });
+
+  const itemsIndex = blocks.reduce((best, block, i) => block.lines > blocks[best].lines ? i : best, 0);
+  const after: ReceiptRegionKind[] = ['totals', 'payment', 'footer'];
+
+  // Boundaries sit halfway across the blank space between blocks
+  const regions: ReceiptRegion[] = [];
+  blocks.forEach((block, i) => {
+    const kind = i < itemsIndex ? 'header' : i === itemsIndex ? 'items' : after[Math.min(i - itemsIndex - 1, after.length - 1)];
+    const top = i === 0 ? 0 : Math.round((blocks[i - 1].bottom + block.top) / 2);
+    const bottom = i === blocks.length - 1 ? height : Math.round((block.bottom + blocks[i + 1].top) / 2);
+
+    const previous = regions[regions.length - 1];
+    if (previous && previous.kind === kind) {
+      previous.bottom = bottom;
+    } else {
+      regions.push({ kind, top, bottom });
+    }
+  });
+
+  console.log('🧾 Receipt regions:', regions.map(region => `${region.kind} ${region.top}-${region.bottom}`).join(', '));
+  return regions;
 }
 
-export async function optimizeForReceipt(
-  imageData: PreprocessingResult,
-  analysis: ReceiptAnalysis
-): Promise<PreprocessingResult> {
-  // Apply receipt-specific optimizations based on analysis
-  
-  // If we detected specific regions, we could:
-  // 1. Increase contrast in the items region
-  // 2. Enhance text clarity in the total area
-  // 3. Adjust brightness differently for different sections
-  // 4. Remove background patterns or logos
-  // 5. Straighten text lines
-  
-  // For now, return the original data
-  // This is where we'd implement the actual optimizations
-  return imageData;
+// Contrast stretch and tone curve per section, with the settings in REGION_ENHANCEMENT
+export function optimizeForReceipt(image: RGBAImage, regions: ReceiptRegion[]): RGBAImage {
+  const { data, width } = image;
+
+  for (const region of regions) {
+    const { clipPercent, gamma } = REGION_ENHANCEMENT[region.kind];
+    const start = region.top * width * 4;
+    const end = region.bottom * width * 4;
+
+    const histogram = new Array<number>(256).fill(0);
+    for (let i = start; i < end; i += 4) {
+      histogram[data[i]]++;
+    }
+    const count = (end - start) / 4;
+    const low = histogramPercentile(histogram, count, clipPercent / 100);
+    const high = histogramPercentile(histogram, count, 1 - clipPercent / 100);
+    if (high - low < MIN_STRETCH_RANGE) continue;
+
+    const curve = new Uint8ClampedArray(256);
+    for (let value = 0; value < 256; value++) {
+      const normalized = Math.min(1, Math.max(0, (value - low) / (high - low)));
+      curve[value] = Math.round(255 * normalized ** gamma);
+    }
+    for (let i = start; i < end; i += 4) {
+      data[i] = data[i + 1] = data[i + 2] = curve[data[i]];
+    }
+  }
+
+  return image;
+}
+
+// Section of each OCR row, top to bottom - undefined when no row has a price to anchor the item list.
+// Sections only ever follow one another in print order. Each one starts at its first tell-tale row
+// (the first priced item, SUBTOTAL/TAX/TOTAL, a tender line), moved up to the blank space or rule
+// that opens its block when nothing in between belongs to the section before.
+export function segmentReceiptRows(rows: ReceiptRow[]): ReceiptRegionKind[] | undefined {
+  const cues = rows.map(rowCue);
+  const isItem = (i: number) => rows[i].price !== undefined && cues[i] === undefined;
+
+  const firstItem = rows.findIndex((_, i) => isItem(i));
+  if (firstItem === -1) {
+    return undefined;
+  }
+  const boundaries = sectionBoundaries(rows, cues);
+
+  const firstTotals = findIndexFrom(rows, firstItem + 1, i => cues[i] === 'totals');
+  const firstPayment = findIndexFrom(rows, firstTotals === -1 ? firstItem + 1 : firstTotals + 1, i => cues[i] === 'payment');
+  // Survey codes and reward balances print amounts too - past the totals, only summary lines count
+  const hasSummary = firstTotals !== -1 || firstPayment !== -1;
+  const lastMoney = findLastIndexBefore(rows, rows.length, i => hasSummary ? cues[i] === 'totals' || cues[i] === 'payment' : isItem(i));
+
+  const starts: Array<[ReceiptRegionKind, number]> = [['items', sectionStart(boundaries, -1, firstItem)]];
+  if (firstTotals !== -1) {
+    starts.push(['totals', sectionStart(boundaries, findLastIndexBefore(rows, firstTotals, isItem), firstTotals)]);
+  }
+  if (firstPayment !== -1) {
+    const floor = findLastIndexBefore(rows, firstPayment, i => isItem(i) || cues[i] === 'totals');
+    starts.push(['payment', sectionStart(boundaries, floor, firstPayment)]);
+  }
+
+  // The footer opens at the first break or footer line after the last amount - without one there is no footer
+  let footerStart = rows.length;
+  for (let i = lastMoney + 1; i < rows.length; i++) {
+    if (boundaries.has(i) || cues[i] === 'footer') {
+      footerStart = i;
+      break;
+    }
+  }
+  starts.push(['footer', footerStart]);
+
+  return rows.map((_, i) => {
+    let kind: ReceiptRegionKind = 'header';
+    for (const [section, start] of starts) {
+      if (i >= start) kind = section;
+    }
+    return kind;
+  });
 }
 
 export function generateReceiptGuidance(analysis: ReceiptAnalysis): string[] {
@@ -127,4 +331,50 @@ export function generateReceiptGuidance(analysis: ReceiptAnalysis): string[] {
   }
   
   return guidance;
-} 
\ No newline at end of file
+}
+
+function rowCue(row: ReceiptRow): RowCue | undefined {
+  const text = row.text.toUpperCase();
+  if (RULE_ROW.test(text)) return 'rule';
+  if (TOTALS_ROW.test(text)) return 'totals';
+  if (PAYMENT_ROW.test(text)) return 'payment';
+  if (FOOTER_ROW.test(text)) return 'footer';
+  return undefined;
+}
+
+// Rows that open a new block: the row after a printed rule, or after more blank space than usual
+function sectionBoundaries(rows: ReceiptRow[], cues: Array<RowCue | undefined>): Set<number> {
+  const boundaries = new Set<number>();
+  const lineHeight = median(rows.map(row => row.bottom - row.top));
+  const gaps = rows.slice(1).map((row, i) => row.top - rows[i].bottom);
+  const usualGap = median(gaps);
+
+  for (let i = 1; i < rows.length; i++) {
+    if (cues[i - 1] === 'rule' || gaps[i - 1] > usualGap + lineHeight * SECTION_GAP_LINES) {
+      boundaries.add(i);
+    }
+  }
+  return boundaries;
+}
+
+// The latest block start after `floor` and no later than `cue`
+function sectionStart(boundaries: Set<number>, floor: number, cue: number): number {
+  for (let i = cue; i > floor + 1; i--) {
+    if (boundaries.has(i)) return i;
+  }
+  return cue;
+}
+
+function findIndexFrom(rows: ReceiptRow[], from: number, test: (i: number) => boolean): number {
+  for (let i = from; i < rows.length; i++) {
+    if (test(i)) return i;
+  }
+  return -1;
+}
+
+function findLastIndexBefore(rows: ReceiptRow[], before: number, test: (i: number) => boolean): number {
+  for (let i = Math.min(before, rows.length) - 1; i >= 0; i--) {
+    if (test(i)) return i;
+  }
+  return -1;
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileReceipt } from './receiptReconciliation';
+import type { AIParsingResult } from './receiptSchema';
+
+const receipt = (prices: number[], amounts: { subtotal?: number; tax?: number; total: number }): AIParsingResult => ({
+  storeName: 'Test Market',
+  items: prices.map((price, index) => ({ name: `ITEM ${index + 1}`, enhancedName: `Item ${index + 1}`, category: 'Other', price, confidence: 0.9 })),
+  subtotal: amounts.subtotal,
+  taxes: amounts.tax !== undefined ? [{ label: 'Tax', amount: amounts.tax }] : [],
+  discounts: [],
+  tenders: [],
+  total: amounts.total,
+  metadata: { storeFormat: 'Unknown', itemCount: prices.length }
+});
+
+describe('reconcileReceipt', () => {
+  it('balances items, tax and the printed amounts', () => {
+    const report = reconcileReceipt(receipt([5, 3], { subtotal: 8, tax: 0.5, total: 8.5 })).reconciliation!;
+
+    expect(report.status).toBe('balanced');
+    expect(report.residual).toBe(0);
+    expect(report.residualAgainst).toBeUndefined();
+  });
+
+  it('reports the subtotal gap when only the subtotal fails', () => {
+    const report = reconcileReceipt(receipt([5, 3], { subtotal: 9.99, tax: 0.5, total: 8.5 })).reconciliation!;
+
+    expect(report.status).toBe('unbalanced');
+    expect(report.residualAgainst).toBe('subtotal');
+    expect(report.residual).toBeCloseTo(1.99);
+  });
+
+  it('reports the total gap when the total fails', () => {
+    const report = reconcileReceipt(receipt([5, 3], { tax: 0.5, total: 9.75 })).reconciliation!;
+
+    expect(report.status).toBe('unbalanced');
+    expect(report.residualAgainst).toBe('total');
+    expect(report.residual).toBeCloseTo(1.25);
+  });
+
+  it('corrects a single misread item price', () => {
+    // 3.00 read as 8.00
+    const result = reconcileReceipt(receipt([5, 8], { subtotal: 8, tax: 0.5, total: 8.5 }));
+
+    expect(result.reconciliation!.status).toBe('corrected');
+    expect(result.items[1].price).toBe(3);
+    expect(result.reconciliation!.residual).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+// Arithmetic reconciliation - checks items, discounts and tax against the printed subtotal and total,
+// and tries likely OCR misreads to close any gap.
+import type {
+  AIParsingResult,
+  ReceiptItem,
+  ReconciliationCorrection,
+  ReconciliationReport,
+  ReconciliationSuspect
+} from './receiptSchema';
+
+// Digits OCR commonly confuses on thermal receipt print
+const DIGIT_CONFUSIONS: Record<string, string[]> = {
+  '0': ['8', '6', '9'],
+  '1': ['7', '4'],
+  '2': ['7'],
+  '3': ['8', '5'],
+  '4': ['1', '9'],
+  '5': ['6', '3', '8'],
+  '6': ['8', '5', '0'],
+  '7': ['1', '2'],
+  '8': ['3', '6', '0', '9'],
+  '9': ['8', '0', '4']
+};
+
+// One cent of slack for tax rounding
+const TOLERANCE_CENTS = 1;
+const MAX_SUSPECTS = 5;
+
+interface PriceVariant {
+  cents: number;
+  reason: string;
+}
+
+export function reconcileReceipt(result: AIParsingResult): AIParsingResult {
+  const items: ReceiptItem[] = result.items.map(item => ({ ...item }));
+  const corrections: ReconciliationCorrection[] = [];
+
+  const discountCents = sumCents(result.discounts.filter(discount => !discount.includedInPrice).map(discount => discount.amount));
+  const taxCents = sumCents(result.taxes.map(tax => tax.amount));
+  const itemCents = () => sumCents(items.map(item => item.price));
+  const computedTotalCents = () => itemCents() - discountCents + taxCents;
+
+  let subtotalCents = result.subtotal && result.subtotal > 0 ? toCents(result.subtotal) : undefined;
+  let totalCents = result.total > 0 ? toCents(result.total) : undefined;
+
+  // Stores print the subtotal either before or after discounts - use whichever is closer
+  const subtotalResidual = () => {
+    if (subtotalCents === undefined) return undefined;
+    const gross = subtotalCents - itemCents();
+    const net = subtotalCents - (itemCents() - discountCents);
+    return Math.abs(net) < Math.abs(gross) ? net : gross;
+  };
+  const totalResidual = () => totalCents === undefined ? undefined : totalCents - computedTotalCents();
+  const isBalanced = (residual: number | undefined) => residual === undefined || Math.abs(residual) <= TOLERANCE_CENTS;
+
+  // 1. Items agree with neither printed amount - look for a single misread price that closes the gap.
+  //    When the subtotal is printed the items are checked against it, since tax can't blur the match.
+  const itemResidual = subtotalCents !== undefined
+    ? (!isBalanced(subtotalResidual()) && !isBalanced(totalResidual()) ? subtotalResidual() : undefined)
+    : (!isBalanced(totalResidual()) ? totalResidual() : undefined);
+  if (itemResidual !== undefined) {
+    const fix = findUniqueItemFix(items, itemResidual);
+
+    if (fix) {
+      corrections.push({
+        field: 'item',
+        itemIndex: fix.itemIndex,
+        original: items[fix.itemIndex].price,
+        corrected: fix.cents / 100,
+        reason: fix.reason
+      });
+      items[fix.itemIndex].price = fix.cents / 100;
+    }
+  }
+
+  // 2. Items now match the total but not the subtotal - the subtotal itself was misread
+  if (subtotalCents !== undefined && !isBalanced(subtotalResidual()) && totalCents !== undefined && isBalanced(totalResidual())) {
+    const target = subtotalCents - subtotalResidual()!;
+    const variant = priceVariants(subtotalCents).find(v => v.cents === target);
+    if (variant) {
+      corrections.push({ field: 'subtotal', original: subtotalCents / 100, corrected: variant.cents / 100, reason: variant.reason });
+      subtotalCents = variant.cents;
+    }
+  }
+
+  // 3. Items match the subtotal but not the total - the total was misread.
+  //    Without a subtotal to back the items up there's no telling which side is wrong.
+  if (totalCents !== undefined && !isBalanced(totalResidual()) && subtotalCents !== undefined && isBalanced(subtotalResidual())) {
+    const variant = priceVariants(totalCents).find(v => v.cents === computedTotalCents());
+    if (variant) {
+      corrections.push({ field: 'total', original: totalCents / 100, corrected: variant.cents / 100, reason: variant.reason });
+      totalCents = variant.cents;
+    }
+  }
+
+  const hasPrintedAmounts = totalCents !== undefined || subtotalCents !== undefined;
+  // The gap is reported against whichever printed amount failed - the total first, since that's what was paid
+  const residualAgainst = !isBalanced(totalResidual()) ? 'total' : !isBalanced(subtotalResidual()) ? 'subtotal' : undefined;
+  const residualCents = residualAgainst === 'total' ? totalResidual()!
+    : residualAgainst === 'subtotal' ? subtotalResidual()!
+    : 0;
+  const balanced = residualAgainst === undefined;
+
+  const report: ReconciliationReport = {
+    status: !hasPrintedAmounts ? 'unverifiable' : !balanced ? 'unbalanced' : corrections.length > 0 ? 'corrected' : 'balanced',
+    itemsTotal: itemCents() / 100,
+    discountsTotal: discountCents / 100,
+    taxTotal: taxCents / 100,
+    computedTotal: computedTotalCents() / 100,
+    printedSubtotal: result.subtotal,
+    printedTotal: result.total > 0 ? result.total : undefined,
+    residual: residualCents / 100,
+    residualAgainst,
+    corrections,
+    suspects: balanced ? [] : findSuspects(items, residualCents)
+  };
+
+  console.log(`🧮 Reconciliation: ${report.status}`, {
+    computedTotal: report.computedTotal,
+    printedTotal: report.printedTotal,
+    residual: report.residual,
+    corrections: corrections.length
+  });
+
+  return {
+    ...result,
+    items,
+    subtotal: subtotalCents !== undefined ? subtotalCents / 100 : result.subtotal,
+    // Without a printed total the computed one is the best we have
+    total: (totalCents ?? computedTotalCents()) / 100,
+    reconciliation: report
+  };
+}
+
+// Prices the printed amount could really have been, given common OCR mistakes
+function priceVariants(cents: number): PriceVariant[] {
+  const variants: PriceVariant[] = [];
+  const digits = String(cents);
+
+  for (let i = 0; i < digits.length; i++) {
+    for (const replacement of DIGIT_CONFUSIONS[digits[i]] || []) {
+      const variant = Number(digits.slice(0, i) + replacement + digits.slice(i + 1));
+      if (variant > 0) {
+        variants.push({ cents: variant, reason: `Read ${replacement} as ${digits[i]}` });
+      }
+    }
+  }
+
+  // "4.99" read as "499" comes through as 499.00
+  if (cents >= 1000 && cents % 100 === 0) {
+    variants.push({ cents: cents / 100, reason: 'Missing decimal point' });
+  }
+  // "12.99" read as "129.9"
+  if (cents % 10 === 0 && cents >= 100) {
+    variants.push({ cents: cents / 10, reason: 'Decimal point in the wrong place' });
+  }
+
+  return variants;
+}
+
+// The one item whose misread price explains the gap exactly, if there is only one
+function findUniqueItemFix(items: ReceiptItem[], residualCents: number) {
+  const fixes = items.flatMap((item, itemIndex) => {
+    const cents = toCents(item.price);
+    return priceVariants(cents)
+      .filter(variant => variant.cents - cents === residualCents)
+      .map(variant => ({ itemIndex, ...variant }));
+  });
+
+  // Several different items could explain it - guessing would be worse than asking
+  const itemIndexes = new Set(fixes.map(fix => fix.itemIndex));
+  return itemIndexes.size === 1 && fixes.length === 1 ? fixes[0] : null;
+}
+
+function findSuspects(items: ReceiptItem[], residualCents: number): ReconciliationSuspect[] {
+  const suspects: ReconciliationSuspect[] = [];
+
+  items.forEach((item, itemIndex) => {
+    const cents = toCents(item.price);
+
+    if (residualCents < 0 && cents === -residualCents) {
+      suspects.push({ itemIndex, reason: 'Its price matches the gap - it may not be a purchased item' });
+    } else if (priceVariants(cents).some(v => Math.abs(residualCents - (v.cents - cents)) <= TOLERANCE_CENTS)) {
+      suspects.push({ itemIndex, reason: 'A misread digit in its price would close the gap' });
+    } else if (item.confidence < 0.7) {
+      suspects.push({ itemIndex, reason: 'Read with low confidence' });
+    }
+  });
+
+  return suspects.slice(0, MAX_SUSPECTS);
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function sumCents(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+}
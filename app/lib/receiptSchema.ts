@@ -0,0 +1,494 @@
+// Receipt parsing result shape, prompt and validation shared by every parser provider
+import { reconcileReceipt } from './receiptReconciliation';
+import { extractTransactionDetails, normalizeReceiptDate } from './receiptTransaction';
+import type { TransactionDetails } from './receiptTransaction';
+import { LOW_OCR_CONFIDENCE, rowToLine } from './receiptLayout';
+import type { LayoutRow } from './receiptLayout';
+
+export interface ReceiptItem {
+  name: string;
+  enhancedName: string;
+  category: string;
+  // Line total actually charged
+  price: number;
+  confidence: number;
+  // How clearly the OCR engine read the item's row (0-1) - the weakest character in the row
+  ocrConfidence?: number;
+  // Other ways the OCR passes read the item's row, for the review screen to offer
+  ocrAlternatives?: Array<{ name: string; price?: number }>;
+  // Multi-buys ("3 @ 1.00") - number of units bought
+  quantity?: number;
+  // Unit that unitPrice is quoted in - 'each' for counted items
+  unit?: ItemUnit;
+  unitPrice?: number;
+  // Weighed items ("2.34 lb @ $3.99/lb") - weight in unit
+  weight?: number;
+  // Department heading the item was printed under, e.g. 'PRODUCE'
+  department?: string;
+  // Tax flag from the receipt's flag column, e.g. 'T' or 'F'
+  taxFlag?: string;
+  // Set when the item comes from merging several providers' results
+  consensus?: ItemConsensus;
+}
+
+export type ItemUnit = 'each' | 'lb' | 'oz' | 'kg' | 'g';
+
+export interface ItemConsensus {
+  // Providers that found this item at all
+  providers: string[];
+  // Share of all providers that found the item (0-1)
+  agreement: number;
+  // Only one provider found this item - worth a second look
+  singleSource: boolean;
+  // Provider whose value won the vote for each field
+  sources: {
+    name: string;
+    price: string;
+    category: string;
+  };
+}
+
+export interface TaxLine {
+  label: string;
+  amount: number;
+  // Percentage, e.g. 8.25 for 8.25%
+  rate?: number;
+  // Amount the tax was charged on, when the receipt prints it
+  taxableAmount?: number;
+}
+
+export interface DiscountLine {
+  description: string;
+  // Positive amount saved
+  amount: number;
+  // Index into items of the item the discount applies to; absent for whole-receipt discounts
+  itemIndex?: number;
+  // The item's printed price already has this taken off - shown for information, not subtracted again
+  includedInPrice?: boolean;
+}
+
+export interface TenderLine {
+  // e.g. 'Credit', 'Debit', 'Cash', 'EBT', 'Gift Card'
+  method: string;
+  // e.g. 'Visa', 'Mastercard'
+  cardType?: string;
+  last4?: string;
+  amount: number;
+}
+
+export interface AIParsingResult {
+  storeName: string;
+  items: ReceiptItem[];
+  subtotal?: number;
+  taxes: TaxLine[];
+  discounts: DiscountLine[];
+  tenders: TenderLine[];
+  total: number;
+  change?: number;
+  // Purchase date/time and store, register, transaction and cashier identifiers
+  transaction?: TransactionDetails;
+  metadata: {
+    // Purchase date as YYYY-MM-DD
+    date?: string;
+    location?: string;
+    storeFormat: string;
+    itemCount: number;
+    // Providers whose results were merged into this one
+    providers?: string[];
+  };
+  // Set once the items, discounts and tax have been checked against the printed totals
+  reconciliation?: ReconciliationReport;
+}
+
+export interface ReconciliationCorrection {
+  field: 'item' | 'subtotal' | 'total';
+  // Set when field is 'item'
+  itemIndex?: number;
+  original: number;
+  corrected: number;
+  // e.g. 'Read 8 as 3', 'Missing decimal point'
+  reason: string;
+}
+
+export interface ReconciliationSuspect {
+  itemIndex: number;
+  reason: string;
+}
+
+export interface ReconciliationReport {
+  // 'unverifiable' means the receipt had no printed subtotal or total to check against
+  status: 'balanced' | 'corrected' | 'unbalanced' | 'unverifiable';
+  itemsTotal: number;
+  discountsTotal: number;
+  taxTotal: number;
+  // Items - discounts + tax, after corrections
+  computedTotal: number;
+  printedSubtotal?: number;
+  printedTotal?: number;
+  // Printed amount minus computed amount after corrections (0 when balanced)
+  residual: number;
+  // Which printed amount didn't add up - the total, or the subtotal when only that failed
+  residualAgainst?: 'subtotal' | 'total';
+  corrections: ReconciliationCorrection[];
+  suspects: ReconciliationSuspect[];
+}
+
+// What a parse attempt produced. Only 'parsed' is safe to save as-is; 'partial' needs the
+// user to confirm or fix it, and 'unparseable' should lead to manual entry or a rescan.
+export type ReceiptParseOutcome =
+  | { status: 'parsed'; result: AIParsingResult }
+  | { status: 'partial'; result: AIParsingResult; issues: string[] }
+  | { status: 'unparseable'; reason: string; storeName?: string };
+
+// Product categories for consistency
+export const PRODUCT_CATEGORIES = [
+  'Groceries',
+  'Dairy & Eggs',
+  'Meat & Seafood',
+  'Fresh Produce',
+  'Bakery',
+  'Frozen Foods',
+  'Pantry & Dry Goods',
+  'Snacks & Candy',
+  'Beverages',
+  'Health & Beauty',
+  'Personal Care',
+  'Household & Cleaning',
+  'Baby & Kids',
+  'Pet Supplies',
+  'Pharmacy',
+  'Electronics',
+  'Clothing',
+  'Home & Garden',
+  'Automotive',
+  'Office Supplies',
+  'Other'
+];
+
+// Shared system prompt so every provider is asked the same question
+export const RECEIPT_PARSER_SYSTEM_PROMPT = `You are an expert receipt parser. Analyze receipt OCR text and extract structured data. Always return valid JSON with confidence scores for each item.`;
+
+export function createReceiptParsingPrompt(ocrText: string, rows?: LayoutRow[]): string {
+  return `
+UNIVERSAL GROCERY RECEIPT PARSER - Works with ALL store formats worldwide
+
+Analyze this receipt OCR text and extract structured information:
+
+"""
+${ocrText}
+"""
+${rows?.length ? createLayoutSection(rows) : ''}
+
+UNIVERSAL PARSING INSTRUCTIONS:
+1. STORE DETECTION: Identify store name from common patterns:
+   - Walmart, Target, Safeway, Kroger, Costco, Whole Foods, Trader Joe's
+   - WinCo, Publix, Albertsons, Fred Meyer, King Soopers, Smith's
+   - Aldi, H-E-B, Wegmans, Giant, Stop & Shop, Food Lion
+   - Regional chains and independent markets
+   - Default to "Grocery Store" if unclear
+
+2. ITEM EXTRACTION - Handle ANY receipt format:
+   - Standard: "ITEM NAME       PRICE"
+   - Store-coded: "PUB BREAD", "GV MILK", "SF TOMATOES"
+   - Weight-based: "2.34 lb @ $3.99/lb = $9.33" → weight 2.34, unit "lb", unitPrice 3.99, price 9.33
+   - Multi-buy: "3 @ 1.00" → quantity 3, unit "each", unitPrice 1.00; "3 @ 2/$5.00" → unitPrice 2.50
+   - The quantity/weight line may sit above or below the item name - attach it to that item, never list it separately
+   - "price" is always the line total charged; leave quantity, unit, unitPrice and weight null for plain items
+   - Multi-line: Item name on one line, price on next
+   - Tax codes: "F" (food), "T" (taxable), "S" (sale)
+
+3. ABBREVIATION EXPANSION (Universal):
+   - Store prefixes: PUB/PUBLIX → Publix, SF/SAFEWAY → Safeway
+   - Common: GV → Great Value, TGT → Target, WC → WinCo
+   - Units: LB → Pound, OZ → Ounce, CT → Count, PK → Pack
+   - Food terms: TOM → Tomatoes, CHKN → Chicken, BRD → Bread
+
+4. CATEGORIES: ${PRODUCT_CATEGORIES.join(', ')}
+
+5. UNIVERSAL SKIP PATTERNS (never list these as items):
+   - Store info: addresses, phone numbers, store hours
+   - Payment: subtotal, tax, total, cash, card, change - extract these into the summary fields below instead
+   - Staff: cashier, manager, associate names
+   - Promotional: "Regular Price", "Member Savings", "Sale"
+   - Non-food: cleaning supplies, pharmacy, household items
+
+6. PRICE VALIDATION:
+   - Must be reasonable: $0.25 - $999.99
+   - Format: X.XX with 2 decimal places
+   - Handle cents-only items (under $1.00)
+
+7. RECEIPT SUMMARY FIELDS:
+   - subtotal: the printed SUBTOTAL / Order Total before tax, or null
+   - taxes: one entry per tax line with its printed rate (percent) and taxable amount when shown
+   - discounts: member savings, coupons and sale markdowns as positive amounts; set "appliesToItem"
+     to the index in "items" of the item the discount line follows, or null for whole-receipt discounts.
+     Set "includedInPrice" to true when the item's printed price already has the saving taken off
+     (e.g. "Regular Price 8.99 / Member Savings 4.00-" under an item printed at 4.99)
+   - tenders: each payment line with method (Credit, Debit, Cash, EBT, Gift Card), card brand and last 4 digits
+   - change: change given back, or null
+   - total: the printed TOTAL / BALANCE - do not compute it yourself
+
+QUALITY ASSURANCE:
+- Confidence scoring: 0.9+ for clear text, 0.7+ for abbreviated, 0.5+ for unclear
+- Ensure all items are actual food/grocery products
+- Total should approximately match sum of item prices
+- Flag suspicious patterns but still process
+
+Return ONLY valid JSON in this exact format:
+{
+  "storeName": "Store Name",
+  "items": [
+    {
+      "name": "original receipt text",
+      "enhancedName": "Clean Readable Name",
+      "category": "Category",
+      "price": 0.00,
+      "confidence": 0.95,
+      "quantity": null,
+      "unit": "each | lb | oz | kg | g or null",
+      "unitPrice": null,
+      "weight": null
+    }
+  ],
+  "subtotal": 0.00,
+  "taxes": [
+    { "label": "Sales Tax", "amount": 0.00, "rate": 8.25, "taxableAmount": 0.00 }
+  ],
+  "discounts": [
+    { "description": "Member Savings", "amount": 0.00, "appliesToItem": 0, "includedInPrice": false }
+  ],
+  "tenders": [
+    { "method": "Credit", "cardType": "Visa", "last4": "1234", "amount": 0.00 }
+  ],
+  "total": 0.00,
+  "change": null,
+  "metadata": {
+    "date": "YYYY-MM-DD or null",
+    "location": "City, State or null",
+    "storeFormat": "detected format description",
+    "itemCount": 0
+  }
+}
+`;
+}
+
+// Rows rebuilt from word positions - prices here are already paired with the item level with them
+function createLayoutSection(rows: LayoutRow[]): string {
+  const sectioned = rows.some(row => row.region);
+  return `
+The same receipt rebuilt row by row from word positions, with the price column at the end of each row.
+When the OCR text and these rows disagree about which price belongs to which item, trust the rows:
+${sectioned ? `Rows are grouped under the receipt section they were printed in ([header], [items], [totals], [payment], [footer]).
+Sections were found from the page layout and can be off by a row - use them as a hint: items come from [items],
+the summary fields from [totals] and [payment], and store details from [header].` : ''}
+"""
+${sectioned ? withSectionMarkers(rows) : rows.map(rowToLine).join('\n')}
+"""
+`;
+}
+
+// A [section] line wherever the section changes
+function withSectionMarkers(rows: LayoutRow[]): string {
+  return rows.map((row, i) => {
+    const line = rowToLine(row);
+    return row.region && row.region !== rows[i - 1]?.region ? `[${row.region}]\n${line}` : line;
+  }).join('\n');
+}
+
+export function validateAIResult(aiResult: any, originalText: string): AIParsingResult {
+  // Dates and IDs are read from the OCR text directly; the model's date is only a fallback
+  const transaction = extractTransactionDetails(originalText);
+  if (!transaction.purchaseDate) {
+    transaction.purchaseDate = normalizeReceiptDate(aiResult.metadata?.date);
+    transaction.purchasedAt = transaction.purchaseDate;
+  }
+
+  // Ensure required fields exist
+  const result: AIParsingResult = {
+    storeName: aiResult.storeName || 'Unknown Store',
+    items: [],
+    subtotal: toAmount(aiResult.subtotal),
+    taxes: [],
+    discounts: [],
+    tenders: [],
+    total: typeof aiResult.total === 'number' ? aiResult.total : 0,
+    change: toAmount(aiResult.change),
+    transaction,
+    metadata: {
+      date: transaction.purchaseDate,
+      location: aiResult.metadata?.location,
+      storeFormat: aiResult.metadata?.storeFormat || 'Unknown',
+      itemCount: 0
+    }
+  };
+
+  // Validate and clean items
+  if (Array.isArray(aiResult.items)) {
+    result.items = aiResult.items
+      .filter((item: any) => 
+        item.name && 
+        item.enhancedName && 
+        typeof item.price === 'number' && 
+        item.price > 0
+      )
+      .map((item: any) => ({
+        name: String(item.name).trim(),
+        enhancedName: String(item.enhancedName).trim(),
+        category: PRODUCT_CATEGORIES.includes(item.category) 
+          ? item.category 
+          : 'Other',
+        price: Number(item.price),
+        confidence: Math.max(0, Math.min(1, Number(item.confidence) || 0.7)),
+        ...validateItemQuantity(item, Number(item.price))
+      }));
+  }
+
+  result.metadata.itemCount = result.items.length;
+
+  // Validate summary lines - amounts must be real numbers, discounts stored as positive savings
+  if (Array.isArray(aiResult.taxes)) {
+    result.taxes = aiResult.taxes
+      .filter((tax: any) => toAmount(tax?.amount) !== undefined)
+      .map((tax: any) => ({
+        label: String(tax.label || 'Tax').trim(),
+        amount: toAmount(tax.amount)!,
+        rate: toAmount(tax.rate),
+        taxableAmount: toAmount(tax.taxableAmount)
+      }));
+  }
+
+  if (Array.isArray(aiResult.discounts)) {
+    result.discounts = aiResult.discounts
+      .filter((discount: any) => toAmount(discount?.amount))
+      .map((discount: any) => {
+        const itemIndex = Number.isInteger(discount.appliesToItem) &&
+          discount.appliesToItem >= 0 && discount.appliesToItem < result.items.length
+          ? discount.appliesToItem
+          : undefined;
+        return {
+          description: String(discount.description || 'Discount').trim(),
+          amount: Math.abs(toAmount(discount.amount)!),
+          itemIndex,
+          includedInPrice: itemIndex !== undefined && discount.includedInPrice === true ? true : undefined
+        };
+      });
+  }
+
+  if (Array.isArray(aiResult.tenders)) {
+    result.tenders = aiResult.tenders
+      .filter((tender: any) => toAmount(tender?.amount) !== undefined)
+      .map((tender: any) => ({
+        method: String(tender.method || 'Other').trim(),
+        cardType: tender.cardType ? String(tender.cardType).trim() : undefined,
+        last4: /^\d{4}$/.test(String(tender.last4 ?? '')) ? String(tender.last4) : undefined,
+        amount: toAmount(tender.amount)!
+      }));
+  }
+
+  // The total is kept as printed - receiptReconciliation checks it against the items
+  return result;
+}
+
+// Map the many ways receipts spell units onto ItemUnit
+export function normalizeUnit(unit: unknown): ItemUnit | undefined {
+  const value = String(unit ?? '').toLowerCase().replace(/[^a-z]/g, '');
+  if (['lb', 'lbs', 'pound', 'pounds'].includes(value)) return 'lb';
+  if (['oz', 'ounce', 'ounces'].includes(value)) return 'oz';
+  if (['kg', 'kgs', 'kilo', 'kilogram', 'kilograms'].includes(value)) return 'kg';
+  if (['g', 'gram', 'grams'].includes(value)) return 'g';
+  if (['each', 'ea', 'ct', 'count', 'unit', 'units'].includes(value)) return 'each';
+  return undefined;
+}
+
+// Quantity, unit, unit price and weight for one item - only the fields that make sense are kept
+function validateItemQuantity(item: any, price: number): Pick<ReceiptItem, 'quantity' | 'unit' | 'unitPrice' | 'weight'> {
+  const positive = (value: unknown) => {
+    const amount = toAmount(value);
+    return amount !== undefined && amount > 0 ? amount : undefined;
+  };
+
+  const weight = positive(item.weight);
+  const quantity = positive(item.quantity);
+  let unit = normalizeUnit(item.unit);
+  let unitPrice = positive(item.unitPrice);
+
+  if (weight !== undefined && (!unit || unit === 'each')) {
+    // A weight without a unit is almost always pounds on US receipts
+    unit = 'lb';
+  }
+  if (quantity !== undefined && !unit) {
+    unit = 'each';
+  }
+
+  // Derive the unit price when the model only gave the amount bought
+  const amountBought = weight ?? quantity;
+  if (unitPrice === undefined && amountBought !== undefined && amountBought !== 1) {
+    unitPrice = Math.round((price / amountBought) * 100) / 100;
+  }
+
+  if (weight === undefined && quantity === undefined && unitPrice === undefined) {
+    return {};
+  }
+
+  return { quantity, unit, unitPrice, weight };
+}
+
+// Numbers (or numeric strings like "4.58") as amounts; anything else is treated as missing
+function toAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'string' ? parseFloat(value.replace(/[$,]/g, '')) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : undefined;
+}
+
+// Pull the JSON object out of a model response that may be wrapped in prose or code fences
+export function extractJSON(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in model response');
+  }
+  
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+export function classifyParsingResult(result: AIParsingResult): ReceiptParseOutcome {
+  if (result.items.length === 0) {
+    return {
+      status: 'unparseable',
+      reason: 'No items could be read from this receipt',
+      storeName: result.storeName !== 'Unknown Store' ? result.storeName : undefined
+    };
+  }
+
+  if (!result.reconciliation) {
+    result = reconcileReceipt(result);
+  }
+  const report = result.reconciliation!;
+
+  const issues: string[] = [];
+  const averageConfidence = result.items.reduce((sum, item) => sum + item.confidence, 0) / result.items.length;
+
+  if (report.status === 'unverifiable') {
+    issues.push('No total was found on the receipt');
+  } else if (report.status === 'unbalanced') {
+    issues.push(`Items, discounts and tax are off from the printed total by $${Math.abs(report.residual).toFixed(2)}`);
+  } else if (report.status === 'corrected') {
+    issues.push(`${report.corrections.length} likely misread ${report.corrections.length === 1 ? 'amount was' : 'amounts were'} corrected - please check`);
+  }
+  if (averageConfidence < 0.6) {
+    issues.push('Several items were read with low confidence');
+  }
+  const hardToRead = result.items.filter(item => item.ocrConfidence !== undefined && item.ocrConfidence < LOW_OCR_CONFIDENCE).length;
+  if (hardToRead > 0) {
+    issues.push(`${hardToRead} ${hardToRead === 1 ? 'item was' : 'items were'} hard to read on the photo - please check ${hardToRead === 1 ? 'its price' : 'their prices'}`);
+  }
+  if (result.storeName === 'Unknown Store') {
+    issues.push('The store could not be identified');
+  }
+
+  return issues.length > 0
+    ? { status: 'partial', result, issues }
+    : { status: 'parsed', result };
+}
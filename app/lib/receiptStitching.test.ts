@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createRGBAImage } from './imageCore';
+import type { ReceiptRow } from './receiptLayout';
+import { joinSegments, mergeSegmentRows } from './receiptStitching';
+
+// Blank paper - no features to match, so the rows have to place the segments
+const paper = (height: number) => {
+  const image = createRGBAImage(1000, height);
+  image.data.fill(255);
+  return image;
+};
+
+const LINES = Array.from({ length: 30 }, (_, i) => `ITEM ${String.fromCharCode(65 + i)}${String.fromCharCode(90 - (i % 26))} ${(i + 1).toFixed(2)}`);
+const PITCH = 40;
+
+// Rows of the printed lines a segment shows, in its pixels; line 0 is printed at y = 100
+const rowsOf = (from: number, height: number): ReceiptRow[] => LINES
+  .map((text, i) => ({ text, y: 100 + i * PITCH - from }))
+  .filter(({ y }) => y >= 0 && y + 20 <= height)
+  .map(({ text, y }) => ({
+    words: [{ text, confidence: 0.9, box: { x: 40, y, width: 300, height: 20 } }],
+    text,
+    name: text,
+    confidence: 0.9,
+    top: y,
+    bottom: y + 20
+  }));
+
+describe('joinSegments', () => {
+  it('places a segment by the rows both read, with paper above and below the text', () => {
+    // The upper segment has 100 px of paper above its first row and some below its last
+    const upper = paper(800);
+    const lower = paper(900);
+    const join = joinSegments(upper, lower, rowsOf(0, 790), rowsOf(600, 900));
+
+    expect(join.method).toBe('text');
+    expect(join.dy).toBeCloseTo(600);
+  });
+});
+
+describe('mergeSegmentRows', () => {
+  it('reads the overlap once', () => {
+    const images = [paper(800), paper(900)];
+    const rowsBySegment = [rowsOf(0, 790), rowsOf(600, 900)];
+    const join = joinSegments(images[0], images[1], rowsBySegment[0], rowsBySegment[1]);
+
+    const merged = mergeSegmentRows(images, rowsBySegment, [join]);
+    const texts = merged.map(row => row.text);
+    expect(new Set(texts).size).toBe(texts.length);
+    expect(texts).toEqual(LINES.slice(0, texts.length));
+  });
+
+  it('places rows where the stitched image draws them', () => {
+    // The lower segment starts 600 px down and 30 px left of the upper one, so its text sits 30 px further right
+    const images = [paper(800), paper(900)];
+    const rowsBySegment = [rowsOf(0, 790), rowsOf(600, 900).map(row => ({
+      ...row,
+      words: row.words.map(word => ({ ...word, box: { ...word.box, x: word.box.x + 30 } }))
+    }))];
+
+    const merged = mergeSegmentRows(images, rowsBySegment, [{ dx: -30, dy: 600, method: 'text', support: 10, duplicateRows: 0 }]);
+
+    // The upper segment is drawn 30 px in, and the lower strip carries on straight below its cut
+    merged.forEach(row => {
+      const printedAt = 100 + LINES.indexOf(row.text) * PITCH;
+      expect(row.top).toBe(printedAt);
+      expect(row.words[0].box.y).toBe(printedAt);
+      expect(row.words[0].box.x).toBe(70);
+    });
+    expect(merged.map(row => row.text)).toEqual(LINES);
+  });
+});
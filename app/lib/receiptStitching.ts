@@ -0,0 +1,481 @@
+// Long receipt stitching
+// Receipts too long for one frame are scanned in overlapping segments, top to bottom. Each segment is
+// placed under the one before it twice over: by matching corner features in the strip both photos
+// show, and by matching the OCR rows both segments read. The images are joined at the middle of the
+// overlap, and the rows are merged with the repeated lines read once. When one method finds nothing
+// (a blank stretch of paper has no features, a blurry one no readable rows) the other one places the segment.
+
+import type { OCRResult } from './googleVisionOCR';
+import { processImageWithOCR, OcrRecognizeOptions } from './ocrEngines';
+import { createRGBAImage, resizeImage, RGBAImage } from './imageCore';
+import { decodeInBrowser, encodeBlobInBrowser } from './browserCanvasAdapter';
+import { labelReceiptRegions, ReceiptRow } from './receiptLayout';
+import { normalizeLine, readRows, stringSimilarity } from './ocrEnsemble';
+
+export interface SegmentJoin {
+  // Where the segment's top-left corner sits in the segment above it, in pixels of the stitched image
+  dx: number;
+  dy: number;
+  // What placed it: image features, rows read in both segments, or nothing (stacked edge to edge)
+  method: 'features' | 'text' | 'stacked';
+  // Feature matches that agreed on the offset, or rows read in both segments
+  support: number;
+  // Rows dropped as repeats of the segment above
+  duplicateRows: number;
+}
+
+export interface StitchedReceipt {
+  // The whole receipt in one image
+  image: Blob;
+  // Rows of every segment, the overlaps read once
+  ocr: OCRResult;
+  joins: SegmentJoin[];
+}
+
+export interface FeatureOffset {
+  dx: number;
+  dy: number;
+  // Matches that agree on the offset
+  inliers: number;
+}
+
+export interface RowOverlap {
+  // Pairs of [upper row, lower row] that read the same printed line
+  pairs: Array<[number, number]>;
+}
+
+// Segments are stitched at this width - the receipt spans the width of every flattened capture,
+// so scaling them to one width puts them at one scale
+const STITCH_WIDTH = 1000;
+// Features are matched on a smaller copy
+const FEATURE_WIDTH = 400;
+const MAX_KEYPOINTS = 300;
+const PATCH_RADIUS = 7;
+// Normalized cross-correlation for two patches to count as the same spot
+const MIN_PATCH_CORRELATION = 0.85;
+// Receipt text repeats letters everywhere, so each keypoint keeps several candidate matches and the offset is voted on
+const CANDIDATES_PER_KEYPOINT = 3;
+const VOTE_BIN = 4;
+const MIN_INLIERS = 12;
+// Share of each segment searched for the overlap (bottom of the upper one, top of the lower one)
+const OVERLAP_SEARCH = 0.7;
+// Rows that read this much alike are the same printed line
+const ROW_MATCH = 0.8;
+const MIN_ROW_CHARS = 4;
+const MIN_OVERLAP_ROWS = 2;
+
+// OCR each capture, place each one under the one before, and merge images and rows
+export async function stitchReceiptCaptures(
+  captures: Blob[],
+  options: OcrRecognizeOptions = {}
+): Promise<StitchedReceipt> {
+  if (captures.length === 0) {
+    throw new Error('No receipt segments to stitch');
+  }
+
+  const images: RGBAImage[] = [];
+  const reads: OCRResult[] = [];
+  // Each capture's pixels to its segment's - OCR positions are in the capture as taken
+  const scales: number[] = [];
+  for (let i = 0; i < captures.length; i++) {
+    const step = `Reading segment ${i + 1} of ${captures.length}...`;
+    options.onProgress?.(step);
+    const pixels = await decodeInBrowser(captures[i]);
+    const scale = STITCH_WIDTH / pixels.width;
+    scales.push(scale);
+    images.push(resizeImage(pixels, STITCH_WIDTH, Math.max(1, Math.round(pixels.height * scale))));
+    reads.push(await processImageWithOCR(captures[i], { ...options, onProgress: message => options.onProgress?.(`${step} ${message}`) }));
+  }
+
+  options.onProgress?.('Joining the segments...');
+  const rowsBySegment = reads.map((read, i) => readRows(read).map(row => scaleRow(row, scales[i])));
+  const joins: SegmentJoin[] = [];
+  for (let i = 1; i < images.length; i++) {
+    joins.push(joinSegments(images[i - 1], images[i], rowsBySegment[i - 1], rowsBySegment[i]));
+  }
+
+  const image = stitchSegmentImages(images, joins);
+  const rows = labelReceiptRegions(mergeSegmentRows(images, rowsBySegment, joins));
+  const confidence = reads.reduce((sum, read) => sum + read.confidence, 0) / reads.length;
+  const engines = Array.from(new Set(reads.map(read => read.engine)));
+
+  console.log(`🧵 Stitched ${captures.length} segments into ${image.width}x${image.height}, ${rows.length} rows`, {
+    joins: joins.map(join => `${join.method} dy=${Math.round(join.dy)} (${join.support}), ${join.duplicateRows} repeated rows`)
+  });
+
+  return {
+    image: await encodeBlobInBrowser(image, 'image/jpeg', 0.92),
+    ocr: {
+      text: rows.map(row => row.text).join('\n'),
+      confidence,
+      quality: {
+        imageSize: reads.reduce((sum, read) => sum + read.quality.imageSize, 0),
+        processingTime: reads.reduce((sum, read) => sum + read.quality.processingTime, 0),
+        confidence,
+        textBlockCount: reads.reduce((sum, read) => sum + read.quality.textBlockCount, 0),
+        averageWordConfidence: reads.reduce((sum, read) => sum + read.quality.averageWordConfidence, 0) / reads.length
+      },
+      words: rows.flatMap(row => row.words),
+      layout: { rows },
+      engine: engines.length === 1 ? engines[0] : engines.filter(Boolean).join('+'),
+      fallback: reads.find(read => read.fallback)?.fallback
+    },
+    joins
+  };
+}
+
+// Place `lower` under `upper` (both STITCH_WIDTH wide, rows in their pixels): features first, the rows
+// when the features don't agree
+export function joinSegments(upper: RGBAImage, lower: RGBAImage, upperRows: ReceiptRow[], lowerRows: ReceiptRow[]): SegmentJoin {
+  const overlap = findRowOverlap(upperRows, lowerRows);
+  const duplicateRows = overlap ? overlap.pairs.length : 0;
+
+  const features = matchSegmentFeatures(upper, lower);
+  if (features) {
+    return { dx: features.dx, dy: features.dy, method: 'features', support: features.inliers, duplicateRows };
+  }
+
+  // Only rows with word boxes have pixel positions - text-only reads just number their lines
+  const placed = overlap?.pairs.filter(([u, l]) => upperRows[u].words.length > 0 && lowerRows[l].words.length > 0) ?? [];
+  if (overlap && placed.length > 0) {
+    const dy = placed.reduce((sum, [u, l]) => sum + upperRows[u].top - lowerRows[l].top, 0) / placed.length;
+    return { dx: 0, dy: Math.max(1, Math.min(upper.height, dy)), method: 'text', support: overlap.pairs.length, duplicateRows };
+  }
+
+  return { dx: 0, dy: upper.height, method: 'stacked', support: 0, duplicateRows: 0 };
+}
+
+// Offset of `lower` within `upper` from Harris corners matched by patch correlation, with the offset
+// most matches agree on winning
+export function matchSegmentFeatures(upper: RGBAImage, lower: RGBAImage): FeatureOffset | null {
+  const scale = FEATURE_WIDTH / upper.width;
+  const upperGray = toGray(resizeImage(upper, FEATURE_WIDTH, Math.max(1, Math.round(upper.height * scale))));
+  const lowerGray = toGray(resizeImage(lower, FEATURE_WIDTH, Math.max(1, Math.round(lower.height * scale))));
+
+  const upperPoints = detectKeypoints(upperGray, Math.floor(upperGray.height * (1 - OVERLAP_SEARCH)), upperGray.height);
+  const lowerPoints = detectKeypoints(lowerGray, 0, Math.ceil(lowerGray.height * OVERLAP_SEARCH));
+  if (upperPoints.length < MIN_INLIERS || lowerPoints.length < MIN_INLIERS) {
+    return null;
+  }
+
+  // Candidate offsets, one per plausible match
+  const offsets: Array<{ dx: number; dy: number; point: number }> = [];
+  lowerPoints.forEach((point, index) => {
+    const scored = upperPoints
+      .map(candidate => ({ candidate, score: correlate(point.descriptor, candidate.descriptor) }))
+      .filter(match => match.score >= MIN_PATCH_CORRELATION)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, CANDIDATES_PER_KEYPOINT);
+    for (const { candidate } of scored) {
+      const dy = candidate.y - point.y;
+      // The lower segment starts below the top of the upper one and sideways drift is small
+      if (dy <= 0 || Math.abs(candidate.x - point.x) > FEATURE_WIDTH * 0.15) continue;
+      offsets.push({ dx: candidate.x - point.x, dy, point: index });
+    }
+  });
+
+  // Vote in coarse bins, then average the matches in the winning one
+  const votes = new Map<string, Set<number>>();
+  for (const offset of offsets) {
+    const key = `${Math.round(offset.dx / VOTE_BIN)},${Math.round(offset.dy / VOTE_BIN)}`;
+    if (!votes.has(key)) votes.set(key, new Set());
+    votes.get(key)!.add(offset.point);
+  }
+  const ranked = Array.from(votes.entries()).sort((a, b) => b[1].size - a[1].size);
+  if (ranked.length === 0) return null;
+
+  const [bestKey] = ranked[0];
+  const [binX, binY] = bestKey.split(',').map(Number);
+  const inliers = offsets.filter(offset =>
+    Math.abs(offset.dx - binX * VOTE_BIN) <= VOTE_BIN && Math.abs(offset.dy - binY * VOTE_BIN) <= VOTE_BIN
+  );
+  const support = new Set(inliers.map(offset => offset.point)).size;
+
+  // Text lines repeat at a fixed pitch - a runner-up nearly as strong means the offset is a guess
+  const runnerUp = ranked.find(([key]) => {
+    const [x, y] = key.split(',').map(Number);
+    return Math.abs(x - binX) > 1 || Math.abs(y - binY) > 1;
+  });
+  if (support < MIN_INLIERS || (runnerUp && runnerUp[1].size > support * 0.8)) {
+    return null;
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    dx: mean(inliers.map(offset => offset.dx)) / scale,
+    dy: mean(inliers.map(offset => offset.dy)) / scale,
+    inliers: support
+  };
+}
+
+// The last rows of `upper` that the first rows of `lower` read again. Rows read in both sit at a fixed
+// index shift, so every shift is tried and the one with the most matching rows wins.
+export function findRowOverlap(upper: ReceiptRow[], lower: ReceiptRow[]): RowOverlap | null {
+  const upperText = upper.map(row => normalizeLine(row.text));
+  const lowerText = lower.map(row => normalizeLine(row.text));
+
+  let best: RowOverlap | null = null;
+  for (let shift = 0; shift < upper.length; shift++) {
+    const length = Math.min(upper.length - shift, lower.length);
+    const pairs: Array<[number, number]> = [];
+    let compared = 0;
+    for (let j = 0; j < length; j++) {
+      const a = upperText[shift + j];
+      const b = lowerText[j];
+      if (a.length < MIN_ROW_CHARS || b.length < MIN_ROW_CHARS) continue;
+      compared++;
+      if (stringSimilarity(a, b) >= ROW_MATCH) pairs.push([shift + j, j]);
+    }
+
+    // Most of the comparable rows have to agree - one repeated "BANANAS 0.59" is not an overlap
+    if (pairs.length >= MIN_OVERLAP_ROWS && pairs.length >= compared * 0.6 && (!best || pairs.length > best.pairs.length)) {
+      best = { pairs };
+    }
+  }
+
+  return best;
+}
+
+// Draw every segment, each cut at the middle of its overlap with the next
+export function stitchSegmentImages(images: RGBAImage[], joins: SegmentJoin[]): RGBAImage {
+  const strips = segmentStrips(images, joins);
+  const offsets = segmentOffsets(strips);
+  const minX = Math.min(...strips.map(strip => strip.x));
+  const maxX = Math.max(...strips.map((strip, i) => strip.x + images[i].width));
+  const width = Math.round(maxX - minX);
+  const height = strips.reduce((sum, strip) => sum + strip.to - strip.from, 0);
+
+  const stitched = createRGBAImage(width, height);
+  stitched.data.fill(255);
+
+  strips.forEach((strip, i) => {
+    const image = images[i];
+    const offset = offsets[i];
+    for (let row = strip.from; row < strip.to; row++) {
+      const y = row + offset.y;
+      for (let x = 0; x < image.width; x++) {
+        const target = offset.x + x;
+        if (target < 0 || target >= width) continue;
+        const src = (row * image.width + x) * 4;
+        const dst = (y * width + target) * 4;
+        stitched.data[dst] = image.data[src];
+        stitched.data[dst + 1] = image.data[src + 1];
+        stitched.data[dst + 2] = image.data[src + 2];
+        stitched.data[dst + 3] = 255;
+      }
+    }
+  });
+
+  return stitched;
+}
+
+// Rows of every segment top to bottom, repeats dropped, positioned in the stitched image's pixels
+export function mergeSegmentRows(images: RGBAImage[], rowsBySegment: ReceiptRow[][], joins: SegmentJoin[]): ReceiptRow[] {
+  const strips = segmentStrips(images, joins);
+  const offsets = segmentOffsets(strips);
+  const merged: ReceiptRow[] = [];
+  let keepFrom = 0;
+
+  rowsBySegment.forEach((rows, i) => {
+    const next = rowsBySegment[i + 1];
+    let keepTo = rows.length;
+    let nextFrom = 0;
+
+    if (next && joins[i].method !== 'stacked') {
+      const overlap = findRowOverlap(rows, next);
+      if (overlap) {
+        // Cut at the middle pair - rows at the edge of a frame are the ones most likely cut off or blurred
+        const [upperCut, lowerCut] = overlap.pairs[Math.floor(overlap.pairs.length / 2)];
+        keepTo = upperCut;
+        nextFrom = lowerCut;
+      } else {
+        // No rows in common - cut where the images were cut
+        keepTo = rows.findIndex(row => (row.top + row.bottom) / 2 >= strips[i].to);
+        keepTo = keepTo === -1 ? rows.length : keepTo;
+        nextFrom = next.findIndex(row => (row.top + row.bottom) / 2 >= strips[i + 1].from);
+        nextFrom = nextFrom === -1 ? next.length : nextFrom;
+      }
+    }
+
+    const kept = rows.slice(keepFrom, Math.max(keepFrom, keepTo));
+    merged.push(...kept.map(row => shiftRow(row, offsets[i].x, offsets[i].y)));
+    keepFrom = nextFrom;
+  });
+
+  return merged;
+}
+
+// Which rows of each segment end up in the stitched image, and where the segment sits across
+function segmentStrips(images: RGBAImage[], joins: SegmentJoin[]): Array<{ from: number; to: number; x: number }> {
+  const strips = images.map(image => ({ from: 0, to: image.height, x: 0 }));
+  joins.forEach((join, i) => {
+    const upper = strips[i];
+    const lower = strips[i + 1];
+    // Middle of the overlap, in the upper segment's pixels
+    const seam = Math.round(Math.min(images[i].height, join.dy + (images[i].height - join.dy) / 2));
+    upper.to = Math.max(upper.from, seam);
+    lower.from = Math.max(0, Math.min(images[i + 1].height, Math.round(seam - join.dy)));
+    lower.x = upper.x + join.dx;
+  });
+  return strips;
+}
+
+// Where each segment's pixel (0, 0) lands in the stitched image - the strips are drawn one below the other
+function segmentOffsets(strips: Array<{ from: number; to: number; x: number }>): Array<{ x: number; y: number }> {
+  const minX = Math.min(...strips.map(strip => strip.x));
+  let top = 0;
+  return strips.map(strip => {
+    const offset = { x: Math.round(strip.x - minX), y: top - strip.from };
+    top += strip.to - strip.from;
+    return offset;
+  });
+}
+
+// A row in a capture's pixels, in its segment's
+function scaleRow(row: ReceiptRow, scale: number): ReceiptRow {
+  return {
+    ...row,
+    words: row.words.map(word => ({
+      ...word,
+      box: { x: word.box.x * scale, y: word.box.y * scale, width: word.box.width * scale, height: word.box.height * scale }
+    })),
+    top: row.top * scale,
+    bottom: row.bottom * scale
+  };
+}
+
+function shiftRow(row: ReceiptRow, dx: number, dy: number): ReceiptRow {
+  if (dx === 0 && dy === 0) return row;
+  return {
+    ...row,
+    words: row.words.map(word => ({ ...word, box: { ...word.box, x: word.box.x + dx, y: word.box.y + dy } })),
+    top: row.top + dy,
+    bottom: row.bottom + dy
+  };
+}
+
+interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface Keypoint {
+  x: number;
+  y: number;
+  descriptor: Float32Array;
+}
+
+function toGray(image: RGBAImage): GrayImage {
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = image.data[i * 4] * 0.299 + image.data[i * 4 + 1] * 0.587 + image.data[i * 4 + 2] * 0.114;
+  }
+  return { data, width: image.width, height: image.height };
+}
+
+// Harris corners between two pixel rows, strongest first, each with a normalized patch around it
+function detectKeypoints(gray: GrayImage, fromRow: number, toRow: number): Keypoint[] {
+  const { data, width, height } = gray;
+  const margin = PATCH_RADIUS + 2;
+  const top = Math.max(margin, fromRow);
+  const bottom = Math.min(height - margin, toRow);
+  if (bottom <= top) return [];
+
+  // Structure tensor from Sobel gradients, summed over a 5x5 window
+  const ixx = new Float32Array(width * height);
+  const iyy = new Float32Array(width * height);
+  const ixy = new Float32Array(width * height);
+  for (let y = top - 2; y < bottom + 2; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = (data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1]) - (data[i - width - 1] + 2 * data[i - 1] + data[i + width - 1]);
+      const gy = (data[i + width - 1] + 2 * data[i + width] + data[i + width + 1]) - (data[i - width - 1] + 2 * data[i - width] + data[i - width + 1]);
+      ixx[i] = gx * gx;
+      iyy[i] = gy * gy;
+      ixy[i] = gx * gy;
+    }
+  }
+
+  const response = new Float32Array(width * height);
+  let maxResponse = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = margin; x < width - margin; x++) {
+      let sxx = 0, syy = 0, sxy = 0;
+      for (let wy = -2; wy <= 2; wy++) {
+        for (let wx = -2; wx <= 2; wx++) {
+          const i = (y + wy) * width + x + wx;
+          sxx += ixx[i];
+          syy += iyy[i];
+          sxy += ixy[i];
+        }
+      }
+      const r = sxx * syy - sxy * sxy - 0.04 * (sxx + syy) ** 2;
+      response[y * width + x] = r;
+      maxResponse = Math.max(maxResponse, r);
+    }
+  }
+  if (maxResponse <= 0) return [];
+
+  // Local maxima in a 7x7 neighbourhood
+  const corners: Array<{ x: number; y: number; r: number }> = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = margin; x < width - margin; x++) {
+      const r = response[y * width + x];
+      if (r < maxResponse * 0.01) continue;
+      let isMax = true;
+      for (let wy = -3; wy <= 3 && isMax; wy++) {
+        for (let wx = -3; wx <= 3; wx++) {
+          if ((wx || wy) && response[(y + wy) * width + x + wx] > r) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) corners.push({ x, y, r });
+    }
+  }
+
+  return corners
+    .sort((a, b) => b.r - a.r)
+    .slice(0, MAX_KEYPOINTS)
+    .map(({ x, y }) => ({ x, y, descriptor: patchDescriptor(gray, x, y) }))
+    .filter((point): point is Keypoint => point.descriptor !== null);
+}
+
+// Zero-mean, unit-length patch - correlation between two is a plain dot product
+function patchDescriptor(gray: GrayImage, cx: number, cy: number): Float32Array | null {
+  const size = PATCH_RADIUS * 2 + 1;
+  const patch = new Float32Array(size * size);
+  let sum = 0;
+  let k = 0;
+  for (let y = cy - PATCH_RADIUS; y <= cy + PATCH_RADIUS; y++) {
+    for (let x = cx - PATCH_RADIUS; x <= cx + PATCH_RADIUS; x++) {
+      patch[k] = gray.data[y * gray.width + x];
+      sum += patch[k++];
+    }
+  }
+
+  const mean = sum / patch.length;
+  let norm = 0;
+  for (let i = 0; i < patch.length; i++) {
+    patch[i] -= mean;
+    norm += patch[i] * patch[i];
+  }
+  // Flat patches match everything
+  if (norm < patch.length * 25) return null;
+
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < patch.length; i++) {
+    patch[i] /= norm;
+  }
+  return patch;
+}
+
+function correlate(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { extractTransactionDetails } from './receiptTransaction';
+
+describe('extractTransactionDetails', () => {
+  it('reads the register number', () => {
+    expect(extractTransactionDetails('ST# 0123 REG 04 TRN 5567').register).toBe('04');
+    expect(extractTransactionDetails('LANE: 7').register).toBe('7');
+  });
+
+  it('reads the transaction number with or without a separator', () => {
+    expect(extractTransactionDetails('ST# 0123 REG 04 TRN 5567').transactionNumber).toBe('5567');
+    expect(extractTransactionDetails('TRANS 1234').transactionNumber).toBe('1234');
+    expect(extractTransactionDetails('TR 0042').transactionNumber).toBe('0042');
+    expect(extractTransactionDetails('TRANSACTION #: A1B2-77').transactionNumber).toBe('A1B2-77');
+  });
+
+  it("doesn't take a word after the label for the transaction number", () => {
+    expect(extractTransactionDetails('TRANSACTION RECORD\nRECEIPT TOTAL 4.99').transactionNumber).toBeUndefined();
+  });
+
+  it("doesn't take a price after REG for the register", () => {
+    expect(extractTransactionDetails('REG 4.99\nREG 12,49').register).toBeUndefined();
+  });
+
+  it('prefers a date at either end of the receipt over one in the middle', () => {
+    const lines = ['SAVE MART', '01/02/2024 10:15', ...Array.from({ length: 8 }, (_, i) => `ITEM ${i} 1.00`), '03/04/2024 11:20', 'TOTAL 8.00', 'THANK YOU', '05/06/2024 12:30'];
+    // The last line is closer to its end of the receipt than the second line is to the top
+    expect(extractTransactionDetails(lines.join('\n')).purchaseDate).toBe('2024-05-06');
+  });
+});
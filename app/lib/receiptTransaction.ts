@@ -0,0 +1,168 @@
+// Purchase date/time and transaction identifiers read straight from the OCR text
+// Dates are normalized to ISO-8601 so receipts sort by when they were bought, not when they were scanned.
+
+export interface TransactionDetails {
+  // YYYY-MM-DD
+  purchaseDate?: string;
+  // HH:mm, 24-hour
+  purchaseTime?: string;
+  // YYYY-MM-DDTHH:mm when the time is known, otherwise the date alone (store local time)
+  purchasedAt?: string;
+  storeNumber?: string;
+  register?: string;
+  transactionNumber?: string;
+  cashier?: string;
+}
+
+// How to read ambiguous numeric dates like 03/04/24
+export type DateOrder = 'MDY' | 'DMY';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+  january: 1, february: 2, march: 3, april: 4, june: 6, july: 7, august: 8, september: 9, october: 10, november: 11, december: 12
+};
+const MONTH_NAMES = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+// Dates on these lines are for returns, coupons or card expiry - not the purchase
+const NON_PURCHASE_DATE = /return|exp(ir|\b|\.)|valid|until|\bby\b|survey|offer|member since/i;
+const PURCHASE_DATE_HINT = /date|purchase|sale|trans|time/i;
+
+const STORE_NUMBER = /\b(?:store|str|st)\s*(?:#|no\.?|num(?:ber)?)\s*:?\s*(\d{1,6})\b|\bstore\s+(\d{1,6})\b/i;
+const REGISTER = /\b(?:reg(?:ister)?|lane|te|trm|term(?:inal)?|pos)\s*(?:#|no\.?)?\s*:?\s*(\d{1,4})\b(?![.,]\d)/i;
+const TRANSACTION = /\b(?:trans(?:action)?|txn|trn|tran|trx|tr|receipt|rcpt|ticket|inv(?:oice)?)\s*(?:#|no\.?|id|num(?:ber)?)?\s*:?\s*([A-Z0-9][A-Z0-9-]{2,})\b/i;
+const CASHIER = /\b(?:cashier|checker|served by|your cashier(?: today)? was|associate|op)\s*(?:#|id|name)?\s*:?\s*([A-Z][A-Z .'-]{1,30}[A-Z]|\d{1,8})\b/i;
+
+export function extractTransactionDetails(ocrText: string, dateOrder?: DateOrder): TransactionDetails {
+  const lines = ocrText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const order = dateOrder ?? detectDateOrder(ocrText);
+  const details: TransactionDetails = {};
+
+  // Best purchase date: prefer lines that say so, skip return-by and expiry dates
+  let bestDate: { date: string; time?: string; score: number } | undefined;
+  lines.forEach((line, index) => {
+    if (NON_PURCHASE_DATE.test(line)) return;
+
+    const date = findDate(line, order);
+    if (!date) return;
+
+    const time = findTime(line) ?? (lines[index + 1] ? findTime(lines[index + 1]) : undefined);
+    // Dates near the top or bottom of the receipt, with a time beside them, are the transaction stamp
+    const distanceFromEnd = Math.min(index, lines.length - 1 - index) / lines.length;
+    const score = (PURCHASE_DATE_HINT.test(line) ? 2 : 0) + (time ? 2 : 0) - distanceFromEnd;
+    if (!bestDate || score > bestDate.score) {
+      bestDate = { date, time, score };
+    }
+  });
+
+  if (bestDate) {
+    details.purchaseDate = bestDate.date;
+    details.purchaseTime = bestDate.time;
+    details.purchasedAt = bestDate.time ? `${bestDate.date}T${bestDate.time}` : bestDate.date;
+  }
+
+  for (const line of lines) {
+    details.storeNumber ??= firstGroup(line.match(STORE_NUMBER));
+    details.register ??= firstGroup(line.match(REGISTER));
+    details.transactionNumber ??= withDigit(firstGroup(line.match(TRANSACTION)));
+    details.cashier ??= cleanCashier(firstGroup(line.match(CASHIER)));
+  }
+
+  return details;
+}
+
+// Normalize a free-form date (e.g. from a model response) to YYYY-MM-DD
+export function normalizeReceiptDate(raw: string | undefined | null, dateOrder: DateOrder = 'MDY'): string | undefined {
+  if (!raw) return undefined;
+  return findDate(String(raw), dateOrder);
+}
+
+// EU and Canadian receipts print day first; US receipts month first
+function detectDateOrder(ocrText: string): DateOrder {
+  return /\b(VAT|MwSt|TVA|IVA|BTW|GST|HST|QST|TPS|TVQ)\b|€|£/i.test(ocrText) ? 'DMY' : 'MDY';
+}
+
+function findDate(line: string, order: DateOrder): string | undefined {
+  // 2024-03-15, 2024/03/15
+  const iso = line.match(/\b(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    return toIsoDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  // 03/15/2024, 15.03.24, 3-15-24
+  const numeric = line.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/);
+  if (numeric) {
+    const first = +numeric[1];
+    const second = +numeric[2];
+    const year = expandYear(numeric[3]);
+    // An impossible month settles the order regardless of region
+    const dayFirst = first > 12 ? true : second > 12 ? false : order === 'DMY';
+    const date = dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+    if (date) return date;
+  }
+
+  // Mar 15, 2024 / MAR 15 24
+  const monthFirst = line.match(new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4}|\\d{2})\\b`, 'i'));
+  if (monthFirst) {
+    return toIsoDate(expandYear(monthFirst[3]), MONTHS[monthFirst[1].toLowerCase()], +monthFirst[2]);
+  }
+
+  // 15 Mar 2024 / 15-MAR-24
+  const dayFirstNamed = line.match(new RegExp(`\\b(\\d{1,2})[\\s-](${MONTH_NAMES})\\.?[\\s-,]*(\\d{4}|\\d{2})\\b`, 'i'));
+  if (dayFirstNamed) {
+    return toIsoDate(expandYear(dayFirstNamed[3]), MONTHS[dayFirstNamed[2].toLowerCase()], +dayFirstNamed[1]);
+  }
+
+  return undefined;
+}
+
+// 3:45 PM, 15:45, 03:45:12p
+function findTime(line: string): string | undefined {
+  const match = line.match(/\b(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp])?\.?[Mm]?\b/);
+  if (!match) return undefined;
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1) return undefined;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCDate() !== day) return undefined; // e.g. Feb 30
+
+  // Receipts from before 2000 or more than a day in the future are misreads
+  const tomorrow = Date.now() + 24 * 60 * 60 * 1000;
+  if (year < 2000 || date.getTime() > tomorrow) return undefined;
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + +year : +year;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function firstGroup(match: RegExpMatchArray | null): string | undefined {
+  return match?.slice(1).find(group => group !== undefined)?.trim();
+}
+
+function withDigit(value: string | undefined): string | undefined {
+  return value && /\d/.test(value) ? value : undefined;
+}
+
+function cleanCashier(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const cashier = value.replace(/\s+/g, ' ').trim();
+  // "CASHIER: THANK YOU" style false positives
+  return /thank|welcome|total/i.test(cashier) ? undefined : cashier;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { fallbackParsing } from './ruleBasedParser';
+import { classifyParsingResult } from './receiptSchema';
+
+describe('fallbackParsing', () => {
+  it('reads nothing from unreadable text instead of inventing a receipt', () => {
+    for (const text of ['', 'XQZRTP BLRKKN 4.99\n~~ ,,; ]]', 'THANK YOU\nPLEASE COME AGAIN']) {
+      const result = fallbackParsing(text);
+
+      expect(result.items).toEqual([]);
+      expect(result.total).toBe(0);
+      expect(classifyParsingResult(result)).toMatchObject({ status: 'unparseable' });
+    }
+  });
+
+  it('reads subtotal, tax, discounts, tenders and change into their own fields', () => {
+    const cash = fallbackParsing([
+      'CORNER MARKET',
+      'BANANAS 0.99',
+      'ORGANIC MILK 4.49',
+      'COUPON MILK 1.00-',
+      'SUBTOTAL 4.48',
+      'SALES TAX 7.25% 0.32',
+      'TOTAL 4.80',
+      'CASH TEND 10.00',
+      'CHANGE DUE 5.20'
+    ].join('\n'));
+
+    expect(cash.items.map(item => [item.name, item.price])).toEqual([['BANANAS', 0.99], ['ORGANIC MILK', 4.49]]);
+    expect(cash.subtotal).toBe(4.48);
+    expect(cash.taxes).toEqual([{ label: 'SALES TAX', amount: 0.32, rate: 7.25, taxableAmount: undefined }]);
+    expect(cash.discounts).toEqual([{ description: 'COUPON MILK', amount: 1, itemIndex: 1, includedInPrice: undefined }]);
+    expect(cash.total).toBe(4.8);
+    expect(cash.tenders).toEqual([{ method: 'Cash', cardType: undefined, last4: undefined, amount: 10 }]);
+    expect(cash.change).toBe(5.2);
+
+    // Card lines often print the amount on the line below
+    const card = fallbackParsing(['CORNER MARKET', 'BREAD 2.99', 'TOTAL 2.99', 'VISA ************1234', 'AMOUNT: 2.99'].join('\n'));
+    expect(card.items).toHaveLength(1);
+    expect(card.tenders).toEqual([{ method: 'Credit', cardType: 'Visa', last4: '1234', amount: 2.99 }]);
+  });
+
+  it('reads weighed and multi-buy lines into quantity, unit price and weight', () => {
+    const result = fallbackParsing([
+      'CORNER MARKET',
+      'BANANAS',
+      '2.34 lb @ 0.59/lb 1.38',
+      'LIMES 3 @ 0.50 1.50',
+      '2 @ 1.25 ea',
+      'AVOCADO 2.50',
+      'TOTAL 5.38'
+    ].join('\n'));
+
+    expect(result.items).toMatchObject([
+      // Name on the line above the weight
+      { name: 'BANANAS', price: 1.38, weight: 2.34, unit: 'lb', unitPrice: 0.59 },
+      { name: 'LIMES', price: 1.5, quantity: 3, unit: 'each', unitPrice: 0.5 },
+      // Multi-buy printed above its item
+      { name: 'AVOCADO', price: 2.5, quantity: 2, unit: 'each', unitPrice: 1.25 }
+    ]);
+  });
+});
@@ -0,0 +1,545 @@
+// Rule-based receipt parser - regex line matching with no external services
+import { normalizeUnit } from './receiptSchema';
+import { extractTransactionDetails } from './receiptTransaction';
+import { detectStoreTemplate, matchDepartment, matchTemplateItem } from './storeTemplates';
+import type { StoreTemplate } from './storeTemplates';
+import { rowToLine } from './receiptLayout';
+import type { LayoutRow } from './receiptLayout';
+import type { ReceiptRegionKind } from './receiptPreprocessing';
+import type { AIParsingResult, ReceiptItem, TaxLine, DiscountLine, TenderLine } from './receiptSchema';
+
+// Totals, taxes, discounts and payments recognised by parseSummaryLine
+type SummaryLine =
+  | { kind: 'subtotal'; amount?: number }
+  | { kind: 'total'; amount?: number }
+  | { kind: 'tax'; tax: TaxLine }
+  | { kind: 'discount'; description: string; amount: number }
+  | { kind: 'tender'; tender: Omit<TenderLine, 'amount'>; amount?: number }
+  | { kind: 'change'; amount: number }
+  | { kind: 'ignore' };
+
+// Weight or multi-buy detail from lines like "2.34 lb @ $3.99/lb" or "3 @ 1.00"
+type QuantityFields = Pick<ReceiptItem, 'quantity' | 'unit' | 'unitPrice' | 'weight'>;
+
+// Everything about an item beyond its name and price
+type ItemDetails = QuantityFields & Pick<ReceiptItem, 'department' | 'taxFlag'>;
+
+interface QuantityDetail extends QuantityFields {
+  // Extended price printed on the same line, if any
+  linePrice?: number;
+  // Text left once the quantity and prices are removed - the item name when it shares the line
+  name: string;
+}
+
+const CARD_BRANDS: Array<[RegExp, string]> = [
+  [/\bvisa\b/i, 'Visa'],
+  [/\bmaster\s?card\b|\bmc\b/i, 'Mastercard'],
+  [/\bamex\b|american express/i, 'American Express'],
+  [/\bdiscover\b/i, 'Discover']
+];
+
+// Rule-based parsing used when no AI provider is available or the provider fails
+export function fallbackParsing(ocrText: string, rows?: LayoutRow[]): AIParsingResult {
+  console.log('🔄 Using rule-based receipt parsing');
+  console.log('📝 OCR Text to parse:', ocrText);
+  
+  // Parse the OCR text to extract store name, items, and prices.
+  // Layout rows already have each price paired with the item printed level with it, so they win over the flat text.
+  const source: Array<{ line: string; region?: ReceiptRegionKind }> = rows?.length
+    ? rows.map(row => ({ line: rowToLine(row).trim(), region: row.region }))
+    : ocrText.split('\n').map(line => ({ line: line.trim() }));
+  const usable = source.filter(({ line }) => line.length > 0);
+  const lines = usable.map(({ line }) => line);
+  // Section of each line, when the layout rows were segmented
+  const regions = usable.map(({ region }) => region);
+  console.log('📄 OCR Lines:', lines);
+  
+  // Chains with a template get their own item grammar; everything else uses the generic patterns
+  const template = detectStoreTemplate(lines);
+  
+  // Find store name (usually first non-empty line)
+  let storeName = template?.name ?? 'Unknown Store';
+  for (const line of template ? [] : lines) {
+    if (line.match(/walmart|target|safeway|kroger|costco|whole foods|winco|trader joe|publix|albertsons/i)) {
+      storeName = line;
+      break;
+    }
+  }
+  
+  // Extract items and prices using multiple pattern matching approaches
+  const items: ReceiptItem[] = [];
+  
+  let total = 0;
+  let subtotal: number | undefined;
+  let change: number | undefined;
+  const taxes: TaxLine[] = [];
+  const discounts: DiscountLine[] = [];
+  const tenders: TenderLine[] = [];
+  // Card lines often print the amount on a following line
+  let pendingTender: Omit<TenderLine, 'amount'> | null = null;
+  let lastLineWasItem = false;
+  // A quantity line printed above its item, waiting for the item
+  let pendingQuantity: QuantityFields | null = null;
+  // Previous line if it could be the name for a quantity line printed underneath it
+  let previousNameLine: string | null = null;
+  // Department heading the current items are printed under
+  let department: string | undefined;
+  // Past the template's footer marker - summary lines still count, items don't
+  let inFooter = false;
+  
+  // Template matches are trusted - their grammar is strict enough to skip the keyword and garble checks
+  const addItem = (itemName: string, price: number, details?: ItemDetails | null, trusted = false) => {
+    if (!itemName || price <= 0 || price >= 1000) { // reasonable price range
+      return;
+    }
+    
+    const cleanName = itemName.replace(/\s+/g, ' ').trim();
+    
+    // Skip obvious non-items (more comprehensive)
+    if (!trusted && cleanName.match(/subtotal|tax|total|balance|change|tender|cashier|manager|card|cash|credit|debit|thank you|visit|store|hours|phone|address|city|state|zip/i)) {
+      return;
+    }
+    
+    // Skip very short names that are likely not items
+    if (cleanName.length < 2) {
+      return;
+    }
+    
+    // Skip garbled OCR text - reject items with too many unusual patterns
+    if (!trusted && isGarbledText(cleanName)) {
+      console.log(`⚠️ Skipping garbled text: "${cleanName}"`);
+      return;
+    }
+    
+    // Enhanced name processing
+    const enhancedName = enhanceProductName(cleanName, template);
+    const category = categorizeProduct(enhancedName);
+    
+    console.log(`✅ Found item: "${cleanName}" -> "${enhancedName}" ($${price})`);
+    
+    items.push({
+      name: cleanName,
+      enhancedName,
+      category,
+      price,
+      confidence: 0.8, // Good confidence for rule-based parsing
+      department,
+      ...details
+    });
+  };
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const itemCountBefore = items.length;
+    const nameLine = previousNameLine;
+    previousNameLine = null;
+    
+    if (template && !inFooter && template.footer.some(pattern => pattern.test(line))) {
+      inFooter = true;
+    }
+    
+    // The template's item grammar wins over the summary patterns ("CRY SFIDK 8 PK TAX 6.49 S" is an item)
+    const templateItem = template && !inFooter ? matchTemplateItem(template, line) : null;
+    if (templateItem) {
+      addItem(templateItem.name, templateItem.price, { ...pendingQuantity, taxFlag: templateItem.taxFlag }, true);
+      lastLineWasItem = items.length > itemCountBefore;
+      if (lastLineWasItem) pendingQuantity = null;
+      continue;
+    }
+    
+    // Totals, taxes, discounts and payments go into their own fields, never into items
+    const summary = parseSummaryLine(line);
+    if (summary) {
+      let amount = 'amount' in summary ? summary.amount : undefined;
+      // Label on one line, amount on the next
+      if (amount === undefined && summary.kind !== 'ignore' && summary.kind !== 'tax' && i + 1 < lines.length) {
+        const nextAmount = lines[i + 1].match(/^-?\$?\s*(\d+\.\d{2})-?$/);
+        if (nextAmount) {
+          amount = parseFloat(nextAmount[1]);
+          i++;
+        }
+      }
+      
+      switch (summary.kind) {
+        case 'subtotal':
+          subtotal = amount;
+          break;
+        case 'total':
+          total = amount ?? total;
+          break;
+        case 'tax':
+          taxes.push(summary.tax);
+          break;
+        case 'discount':
+          discounts.push({
+            description: summary.description,
+            amount: summary.amount,
+            // A discount printed straight after an item belongs to that item
+            itemIndex: lastLineWasItem ? items.length - 1 : undefined,
+            includedInPrice: lastLineWasItem && template?.savingsIncludedInPrice ? true : undefined
+          });
+          break;
+        case 'tender':
+          if (amount !== undefined) {
+            tenders.push({ ...summary.tender, amount });
+            pendingTender = null;
+          } else {
+            pendingTender = summary.tender;
+          }
+          break;
+        case 'change':
+          change = summary.amount;
+          break;
+      }
+      
+      console.log(`🧾 Summary line (${summary.kind}): "${line}"`);
+      // Discounts and reference lines ("Regular Price") keep the item link so savings printed after them still attach
+      lastLineWasItem = lastLineWasItem && (summary.kind === 'discount' || summary.kind === 'ignore');
+      continue;
+    }
+    
+    // Amount for a card line printed without one
+    if (pendingTender) {
+      const tenderAmount = line.match(/^(?:payment\s+)?(?:amount|amt|approved|purchase|total)?:?\s*\$?\s*(\d+\.\d{2})$/i);
+      if (tenderAmount) {
+        tenders.push({ ...pendingTender, amount: parseFloat(tenderAmount[1]) });
+        pendingTender = null;
+        continue;
+      }
+    }
+    
+    if (template) {
+      const heading = matchDepartment(template, line);
+      if (heading) {
+        department = heading;
+        lastLineWasItem = false;
+        continue;
+      }
+      
+      if (inFooter || template.header.some(pattern => pattern.test(line)) || template.ignore.some(pattern => pattern.test(line))) {
+        continue;
+      }
+    }
+    
+    // The layout put this row above the item list or below the payment lines - a priced line there
+    // is a reward balance or survey code, not an item
+    if (regions[i] === 'header' || regions[i] === 'footer') {
+      lastLineWasItem = false;
+      continue;
+    }
+    
+    // Weighed items and multi-buys
+    const detail = parseQuantityDetail(line);
+    if (detail) {
+      const { name, linePrice, ...quantity } = detail;
+      const lastItem = items[items.length - 1];
+      const detailPrice = linePrice ?? Math.round(quantity.unitPrice! * (quantity.weight ?? quantity.quantity ?? 1) * 100) / 100;
+      
+      if (!name && lastLineWasItem && lastItem.unitPrice === undefined && Math.abs(lastItem.price - detailPrice) <= 0.02) {
+        // Printed under an item that already has its price
+        Object.assign(lastItem, quantity);
+      } else if (name || nameLine) {
+        // Name on the same line, or on the line above with the price here
+        addItem(name || nameLine!, detailPrice, quantity);
+      } else {
+        // Printed above its item - the next item picks it up
+        pendingQuantity = quantity;
+      }
+      
+      console.log(`⚖️ Quantity line: "${line}"`, quantity);
+      lastLineWasItem = items.length > itemCountBefore || lastLineWasItem;
+      continue;
+    }
+    
+    // Skip obvious non-item lines
+    if (line.match(/^\d{3}-\d{3}-\d{4}/) || // phone
+        line.match(/^\d+\s+\w+\s+(st|ave|rd|blvd)/i) || // address
+        line.match(/^[a-z\s]+,\s*[a-z]{2}\s*\d{5}/i) || // city, state zip
+        line.match(/^(sub)?total|tax|balance|change|tender|payment/i) || // payment info
+        line.match(/^card|cash|credit|debit/i) || // payment method
+        line.match(/^cashier|manager|associate/i) || // staff info
+        line.match(/^thank you|visit us|store hours/i) || // footer text
+        line.length < 3) { // too short
+      lastLineWasItem = false;
+      continue;
+    }
+    
+    // Multiple price pattern approaches
+    let priceMatch = null;
+    let itemName = '';
+    let price = 0;
+    
+    // Pattern 1: "ITEM NAME    PRICE" (most common)
+    priceMatch = line.match(/^(.+?)\s+(\d+\.\d{2})$/);
+    if (priceMatch) {
+      [, itemName, ] = priceMatch;
+      price = parseFloat(priceMatch[2]);
+    }
+    
+    // Pattern 2: Price on next line
+    if (!priceMatch && i + 1 < lines.length) {
+      const nextLine = lines[i + 1];
+      if (nextLine.match(/^\s*\d+\.\d{2}\s*$/)) {
+        itemName = line;
+        price = parseFloat(nextLine.trim());
+        i++; // skip next line since we consumed it
+      }
+    }
+    
+    // Pattern 3: "PRICE ITEM NAME"
+    if (!priceMatch) {
+      priceMatch = line.match(/^(\d+\.\d{2})\s+(.+)$/);
+      if (priceMatch) {
+        price = parseFloat(priceMatch[1]);
+        itemName = priceMatch[2];
+      }
+    }
+    
+    // Pattern 4: Look for any price in the line
+    if (!priceMatch) {
+      const anyPriceMatch = line.match(/(.+?)\s*(\d+\.\d{2})/);
+      if (anyPriceMatch && !line.match(/phone|address|zip/i)) {
+        itemName = anyPriceMatch[1];
+        price = parseFloat(anyPriceMatch[2]);
+      }
+    }
+    
+    addItem(itemName, price, pendingQuantity);
+    
+    lastLineWasItem = items.length > itemCountBefore;
+    if (lastLineWasItem) {
+      pendingQuantity = null;
+    } else if (!line.match(/\d+\.\d{2}/)) {
+      previousNameLine = line;
+    }
+  }
+  
+  console.log(`🛍️ Found ${items.length} items from OCR`);
+  
+  const transaction = extractTransactionDetails(ocrText);
+  
+  // No items is a real outcome - never invent any. Callers classify it as unparseable.
+  return {
+    storeName: storeName,
+    items,
+    subtotal,
+    taxes,
+    discounts,
+    tenders,
+    // 0 when no total was printed - reconciliation fills it in from the items
+    total,
+    change,
+    transaction,
+    metadata: {
+      date: transaction.purchaseDate,
+      storeFormat: 'Rule-based fallback parsing',
+      itemCount: items.length
+    }
+  };
+}
+
+// Helper function to recognise subtotal, tax, total, discount, payment and change lines
+function parseSummaryLine(line: string): SummaryLine | null {
+  // Rates like "7.25%" are not amounts
+  const amounts = Array.from(line.matchAll(/(-)?\$?\s?(\d+\.\d{2})(?![\d%]|\s+%)(-)?/g));
+  const last = amounts[amounts.length - 1];
+  const amount = last ? parseFloat(last[2]) : undefined;
+  // Discounts print as "-1.00" or "1.00-"
+  const isNegative = !!last && !!(last[1] || last[3]);
+  const lower = line.toLowerCase();
+  
+  // Savings summaries and regular-price reference lines repeat amounts found elsewhere
+  if (lower.match(/total\s+savings|you saved|savings total|regular price|reg price|was \$/)) {
+    return { kind: 'ignore' };
+  }
+  
+  if (lower.match(/^\s*(sub\s?-?total|order total|merchandise total)\b/)) {
+    return { kind: 'subtotal', amount };
+  }
+  
+  if (lower.match(/\btax\b/) && !lower.match(/tax\s*exempt|taxable total/)) {
+    if (amount === undefined) return { kind: 'ignore' };
+    const rate = line.match(/(\d+(?:\.\d+)?)\s*%/);
+    return {
+      kind: 'tax',
+      tax: {
+        label: line
+          .replace(/\d+(?:\.\d+)?\s*%/, '')
+          .replace(/-?\$?\s?\d+\.\d{2}-?/g, '')
+          .replace(/\s+(on|@)\s*$/i, '')
+          .replace(/\s+/g, ' ')
+          .trim() || 'Tax',
+        amount,
+        rate: rate ? parseFloat(rate[1]) : undefined,
+        taxableAmount: amounts.length > 1 ? parseFloat(amounts[amounts.length - 2][2]) : undefined
+      }
+    };
+  }
+  
+  if (lower.match(/^[\s*]*(grand\s+)?total\b|^[\s*]*balance( due)?\b|^\s*amount due\b/)) {
+    return { kind: 'total', amount };
+  }
+  
+  if (lower.match(/^\s*change( due)?\b/)) {
+    return amount !== undefined ? { kind: 'change', amount } : { kind: 'ignore' };
+  }
+  
+  if (amount !== undefined && (isNegative || lower.match(/savings|coupon|discount|promo|\boff\b|member price|club price|markdown/))) {
+    return {
+      kind: 'discount',
+      description: line.replace(/-?\$?\s?\d+\.\d{2}-?/g, '').replace(/\s+/g, ' ').trim() || 'Discount',
+      amount
+    };
+  }
+  
+  const brand = CARD_BRANDS.find(([pattern]) => pattern.test(line));
+  const methodMatch = lower.match(/\b(debit|credit|cash|ebt|gift\s?card|check)\b/);
+  if ((brand || methodMatch) && !lower.match(/cash\s?back|cashier/)) {
+    const last4 = line.match(/(?:\*+|x{2,}|#)\s*(\d{4})\b/i);
+    const method = methodMatch
+      ? methodMatch[1].replace(/\s+/g, ' ').replace(/\b\w/g, c => c.toUpperCase()).replace('Ebt', 'EBT').replace('Giftcard', 'Gift Card')
+      : 'Credit';
+    
+    return {
+      kind: 'tender',
+      tender: {
+        method,
+        cardType: brand?.[1],
+        last4: last4?.[1]
+      },
+      amount
+    };
+  }
+  
+  return null;
+}
+
+// Helper function to read weight and multi-buy lines
+function parseQuantityDetail(line: string): QuantityDetail | null {
+  const weighed = line.match(/(\d*\.\d+|\d+)\s*(lbs?|kg|oz|g)\b\s*@\s*\$?\s*(\d+\.\d{2})\s*\/\s*(lbs?|kg|oz|g)\b/i);
+  // "3 @ 1.00", "3 @ 2/$5.00", "2 @ 1.25 ea"
+  const multiBuy = line.match(/(?:^|[^\d.])(\d{1,3})\s*@\s*(?:(\d+)\s*\/\s*)?\$?\s*(\d+\.\d{2})(?:\s*(?:ea|each)\b)?/i);
+  
+  let fields: QuantityFields;
+  let matched: string;
+  
+  if (weighed) {
+    fields = {
+      weight: parseFloat(weighed[1]),
+      unit: normalizeUnit(weighed[4]),
+      unitPrice: parseFloat(weighed[3])
+    };
+    matched = weighed[0];
+  } else if (multiBuy && parseInt(multiBuy[1]) > 0) {
+    const dealCount = multiBuy[2] ? parseInt(multiBuy[2]) : 1;
+    fields = {
+      quantity: parseInt(multiBuy[1]),
+      unit: 'each',
+      unitPrice: Math.round((parseFloat(multiBuy[3]) / Math.max(1, dealCount)) * 100) / 100
+    };
+    matched = multiBuy[0];
+  } else {
+    return null;
+  }
+  
+  const rest = line.replace(matched, ' ');
+  // Extended price, possibly followed by a tax flag like "F" or "T"
+  const priceMatch = rest.match(/(\d+\.\d{2})\s*[A-Z]{0,2}\s*$/);
+  const name = (priceMatch ? rest.slice(0, priceMatch.index) : rest)
+    .replace(/^\s*WT\b|[=$]/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  
+  return {
+    ...fields,
+    linePrice: priceMatch ? parseFloat(priceMatch[1]) : undefined,
+    name: name.replace(/[^a-z]/gi, '').length >= 2 ? name : ''
+  };
+}
+
+// Helper function to enhance product names
+function enhanceProductName(name: string, template?: StoreTemplate): string {
+  let enhanced = name;
+  
+  // Chain-specific abbreviations first - they override the generic ones
+  for (const [abbreviation, expansion] of Object.entries(template?.abbreviations ?? {})) {
+    enhanced = enhanced.replace(new RegExp(`\\b${escapeRegExp(abbreviation)}\\b`, 'gi'), expansion);
+  }
+  
+  // Common abbreviation expansions
+  enhanced = enhanced.replace(/\bGV\b/gi, 'Great Value');
+  enhanced = enhanced.replace(/\bLB\b/gi, 'Pound');
+  enhanced = enhanced.replace(/\bOZ\b/gi, 'Ounce');
+  enhanced = enhanced.replace(/\bCT\b/gi, 'Count');
+  enhanced = enhanced.replace(/\bPK\b/gi, 'Pack');
+  enhanced = enhanced.replace(/\bCHS\b/gi, 'Cheese');
+  
+  // Capitalize properly
+  enhanced = enhanced.toLowerCase()
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  
+  return enhanced;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Helper function to detect garbled OCR text
+function isGarbledText(text: string): boolean {
+  const cleanText = text.toLowerCase().replace(/[^a-z\s]/g, '');
+  
+  // Skip if too many single characters or very short "words"
+  const words = cleanText.split(/\s+/).filter(w => w.length > 0);
+  const shortWords = words.filter(w => w.length <= 2);
+  if (shortWords.length > words.length * 0.6) {
+    return true; // More than 60% single/double char words
+  }
+  
+  // Skip if contains too many unusual letter combinations
+  const unusualPatterns = [
+    /[aeiou]{4,}/, // 4+ consecutive vowels
+    /[bcdfghjklmnpqrstvwxyz]{4,}/, // 4+ consecutive consonants
+    /(.)\1{3,}/, // same letter 4+ times in a row
+  ];
+  
+  for (const pattern of unusualPatterns) {
+    if (pattern.test(cleanText)) {
+      return true;
+    }
+  }
+  
+  // Skip if no recognizable English patterns
+  const hasVowels = /[aeiou]/.test(cleanText);
+  const hasConsonants = /[bcdfghjklmnpqrstvwxyz]/.test(cleanText);
+  if (!hasVowels || !hasConsonants) {
+    return true;
+  }
+  
+  return false;
+}
+
+// Helper function to categorize products
+function categorizeProduct(name: string): string {
+  const lowerName = name.toLowerCase();
+  
+  if (lowerName.includes('egg') || lowerName.includes('milk') || lowerName.includes('cheese') || lowerName.includes('yogurt')) {
+    return 'Dairy & Eggs';
+  }
+  if (lowerName.includes('beef') || lowerName.includes('chicken') || lowerName.includes('pork') || lowerName.includes('fish')) {
+    return 'Meat & Seafood';
+  }
+  if (lowerName.includes('apple') || lowerName.includes('banana') || lowerName.includes('orange') || lowerName.includes('vegetable')) {
+    return 'Fresh Produce';
+  }
+  if (lowerName.includes('bread') || lowerName.includes('cake') || lowerName.includes('donut')) {
+    return 'Bakery';
+  }
+  if (lowerName.includes('frozen') || lowerName.includes('ice cream')) {
+    return 'Frozen Foods';
+  }
+  
+  return 'Groceries';
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createRGBAImage, rotateImage, rotateImageBy, RGBAImage } from './imageCore';
+import { estimateRotation } from './skewDetection';
+
+// Upright page of text lines: each word is a dense x-height body sitting on the baseline,
+// with a few thin ascenders above it - the way Latin text leans to the bottom of its line
+const textPage = (): RGBAImage => {
+  const width = 400;
+  const height = 500;
+  const image = createRGBAImage(width, height);
+  image.data.fill(255);
+
+  const ink = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    image.data[idx] = image.data[idx + 1] = image.data[idx + 2] = 20;
+  };
+
+  // Seeded so word lengths and letters vary like real text without making the test flaky
+  let seed = 11;
+  const next = (range: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % range;
+  };
+
+  for (let line = 0; line < 14; line++) {
+    const top = 40 + line * 30;
+    let left = 30 + next(20);
+    while (left < width - 60) {
+      const wordWidth = 18 + next(40);
+      for (let x = left; x < left + wordWidth; x++) {
+        for (let y = top + 8; y < top + 18; y++) ink(x, y);
+        if (next(5) === 0) {
+          for (let y = top; y < top + 8; y++) ink(x, y);
+        }
+      }
+      left += wordWidth + 8 + next(10);
+    }
+  }
+  return image;
+};
+
+describe('estimateRotation', () => {
+  it('measures a clockwise tilt that deskewing by the negative angle undoes', () => {
+    const tilted = rotateImageBy(textPage(), 5);
+
+    const estimate = estimateRotation(tilted);
+    expect(estimate.orientation).toBe(0);
+    expect(estimate.skewAngle).toBeCloseTo(5, 0);
+    expect(estimate.confidence).toBeGreaterThan(0.5);
+
+    const leveled = estimateRotation(rotateImageBy(tilted, -estimate.skewAngle));
+    expect(Math.abs(leveled.skewAngle)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('measures a counter-clockwise tilt as a negative angle', () => {
+    expect(estimateRotation(rotateImageBy(textPage(), -4)).skewAngle).toBeCloseTo(-4, 0);
+  });
+
+  it('finds the quarter turn that puts sideways and upside-down pages upright', () => {
+    expect(estimateRotation(textPage()).orientation).toBe(0);
+    // Turned clockwise by 90, the page needs another 270 to come back upright
+    expect(estimateRotation(rotateImage(textPage(), 90)).orientation).toBe(270);
+    expect(estimateRotation(rotateImage(textPage(), 180)).orientation).toBe(180);
+    expect(estimateRotation(rotateImage(textPage(), 270)).orientation).toBe(90);
+  });
+
+  it('keeps the tilt of a sideways page measured once it is upright', () => {
+    const estimate = estimateRotation(rotateImage(rotateImageBy(textPage(), 3), 90));
+
+    expect(estimate.orientation).toBe(270);
+    expect(estimate.skewAngle).toBeCloseTo(3, 0);
+  });
+});
@@ -0,0 +1,221 @@
+// Orientation and skew estimation for receipt photos (projection profiles)
+// Dark pixels are projected onto the vertical axis at a range of angles: when the projection runs
+// along the text lines, the profile turns into sharp peaks (lines) and gaps (line spacing), so the
+// angle with the peakiest profile is the tilt. The same test on swapped axes finds sideways photos,
+// and where the ink sits within each line (Latin text hangs above its baseline) tells upright from upside down.
+
+import type { RGBAImage } from './imageCore';
+import { otsuThreshold } from './imageStatistics';
+
+export interface RotationEstimate {
+  // Clockwise quarter turn that makes the text upright: 0, 90, 180 or 270
+  orientation: number;
+  // Degrees the text lines slope down to the right once upright (positive = tilted clockwise), within ±MAX_SKEW_DEGREES
+  skewAngle: number;
+  // How clear the line structure was (0-1) - 0 when there wasn't enough text to measure
+  confidence: number;
+}
+
+export const MAX_SKEW_DEGREES = 15;
+
+// Analysis runs on a sample of the image - line structure survives, the cost doesn't grow with megapixels
+const ANALYSIS_SIZE = 800;
+const MAX_INK_POINTS = 40000;
+// A sideways reading has to beat the upright one by this much, so square-ish noise doesn't flip photos
+const ORIENTATION_MARGIN = 1.3;
+// Ink centre of mass below the line middle by this share of the line height means upright text
+const UPSIDE_DOWN_MARGIN = 0.04;
+
+interface InkPoints {
+  xs: Float64Array;
+  ys: Float64Array;
+  count: number;
+  width: number;
+  height: number;
+}
+
+const NO_ESTIMATE: RotationEstimate = { orientation: 0, skewAngle: 0, confidence: 0 };
+
+export function estimateRotation(image: RGBAImage): RotationEstimate {
+  const ink = sampleInk(image);
+  if (!ink) {
+    return NO_ESTIMATE;
+  }
+
+  // Text lines run across the photo, or down it when the photo is sideways
+  const across = findSkew(ink);
+  const down = findSkew(turnPoints(ink, 90));
+  const sideways = down.score > across.score * ORIENTATION_MARGIN;
+  const baseTurn = sideways ? 90 : 0;
+  const best = sideways ? down : across;
+
+  // Upright and upside down have the same lines - only where the ink sits within them differs
+  const upright = turnPoints(ink, baseTurn);
+  const lean = inkLean(upright, best.angle);
+  const orientation = lean < -UPSIDE_DOWN_MARGIN ? (baseTurn + 180) % 360 : baseTurn;
+
+  // Peakiness relative to an unstructured spread of the same ink, mapped onto 0-1
+  const confidence = Math.max(0, Math.min(1, 1 - best.baseline / best.score));
+
+  // A half turn leaves the slope of the lines as it was
+  return { orientation, skewAngle: best.angle, confidence };
+}
+
+// Dark pixels (below the Otsu threshold) of a downsampled copy, centred on the image middle
+function sampleInk(image: RGBAImage): InkPoints | undefined {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / ANALYSIS_SIZE));
+  const sampledWidth = Math.ceil(width / step);
+  const sampledHeight = Math.ceil(height / step);
+
+  const gray = new Uint8Array(sampledWidth * sampledHeight);
+  const histogram = new Array<number>(256).fill(0);
+  for (let y = 0; y < sampledHeight; y++) {
+    for (let x = 0; x < sampledWidth; x++) {
+      const idx = ((y * step) * width + x * step) * 4;
+      const value = Math.round(data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114);
+      gray[y * sampledWidth + x] = value;
+      histogram[value]++;
+    }
+  }
+
+  const threshold = otsuThreshold(histogram, gray.length);
+  let inkCount = 0;
+  gray.forEach(value => {
+    if (value < threshold) inkCount++;
+  });
+
+  // Blank, or mostly dark (a photo of the table, not a receipt) - nothing to measure
+  const inkShare = inkCount / gray.length;
+  if (inkShare < 0.002 || inkShare > 0.5) {
+    return undefined;
+  }
+
+  const stride = Math.max(1, Math.ceil(inkCount / MAX_INK_POINTS));
+  const capacity = Math.ceil(inkCount / stride);
+  const xs = new Float64Array(capacity);
+  const ys = new Float64Array(capacity);
+  let seen = 0;
+  let count = 0;
+  for (let i = 0; i < gray.length && count < capacity; i++) {
+    if (gray[i] >= threshold) continue;
+    if (seen++ % stride !== 0) continue;
+    xs[count] = (i % sampledWidth) - sampledWidth / 2;
+    ys[count] = Math.floor(i / sampledWidth) - sampledHeight / 2;
+    count++;
+  }
+
+  return { xs, ys, count, width: sampledWidth, height: sampledHeight };
+}
+
+// The points as they would be after turning the image clockwise by a multiple of 90 degrees
+function turnPoints(ink: InkPoints, degrees: number): InkPoints {
+  if (degrees % 360 === 0) return ink;
+
+  const xs = new Float64Array(ink.count);
+  const ys = new Float64Array(ink.count);
+  for (let i = 0; i < ink.count; i++) {
+    if (degrees === 90) {
+      xs[i] = -ink.ys[i];
+      ys[i] = ink.xs[i];
+    } else if (degrees === 180) {
+      xs[i] = -ink.xs[i];
+      ys[i] = -ink.ys[i];
+    } else {
+      xs[i] = ink.ys[i];
+      ys[i] = -ink.xs[i];
+    }
+  }
+
+  const quarter = degrees % 180 !== 0;
+  return {
+    xs,
+    ys,
+    count: ink.count,
+    width: quarter ? ink.height : ink.width,
+    height: quarter ? ink.width : ink.height
+  };
+}
+
+// Coarse search over the whole range, then a fine one around the best coarse angle
+function findSkew(ink: InkPoints): { angle: number; score: number; baseline: number } {
+  let best = { angle: 0, score: -1 };
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += 1) {
+    const score = profileScore(ink, angle);
+    if (score > best.score) best = { angle, score };
+  }
+
+  const coarse = best.angle;
+  for (let angle = coarse - 1; angle <= coarse + 1 + 1e-9; angle += 0.1) {
+    const rounded = Math.round(angle * 10) / 10;
+    if (Math.abs(rounded) > MAX_SKEW_DEGREES) continue;
+    const score = profileScore(ink, rounded);
+    if (score > best.score) best = { angle: rounded, score };
+  }
+
+  // The flattest profile in the range stands in for "no line structure"
+  const baseline = Math.min(profileScore(ink, -MAX_SKEW_DEGREES), profileScore(ink, MAX_SKEW_DEGREES), best.score);
+  return { ...best, baseline };
+}
+
+// Sum of squared bin counts of the projection along lines sloping by `angle` - higher means peakier
+function profileScore(ink: InkPoints, angle: number): number {
+  const bins = projectionProfile(ink, angle);
+  let sum = 0;
+  for (let i = 0; i < bins.length; i++) {
+    sum += bins[i] * bins[i];
+  }
+  return sum / (ink.count * ink.count);
+}
+
+function projectionProfile(ink: InkPoints, angle: number): Float64Array {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const offset = Math.ceil(Math.hypot(ink.width, ink.height) / 2);
+  const bins = new Float64Array(offset * 2 + 1);
+
+  for (let i = 0; i < ink.count; i++) {
+    // Distance across the lines: a line y = x * tan(angle) projects onto a single bin
+    const projected = ink.ys[i] * cos - ink.xs[i] * sin;
+    bins[Math.round(projected) + offset]++;
+  }
+  return bins;
+}
+
+// Where the ink sits within each text line, averaged over lines: positive when it leans to the
+// bottom of the line (upright Latin text - x-height letters on the baseline, ascenders above it)
+function inkLean(ink: InkPoints, angle: number): number {
+  const profile = projectionProfile(ink, angle);
+  // Low enough that the sparse ascender rows stay part of their line, high enough that stray specks between lines don't
+  const nonEmpty = Array.from(profile).filter(value => value > 0);
+  const level = (nonEmpty.reduce((sum, value) => sum + value, 0) / Math.max(1, nonEmpty.length)) * 0.15;
+
+  let weightedLean = 0;
+  let totalInk = 0;
+  let lines = 0;
+  for (let start = 0; start < profile.length; start++) {
+    if (profile[start] <= level) continue;
+
+    let end = start;
+    while (end + 1 < profile.length && profile[end + 1] > level) end++;
+
+    const height = end - start + 1;
+    if (height >= 3) {
+      let mass = 0;
+      let moment = 0;
+      for (let bin = start; bin <= end; bin++) {
+        mass += profile[bin];
+        moment += profile[bin] * bin;
+      }
+      const middle = (start + end) / 2;
+      weightedLean += ((moment / mass - middle) / height) * mass;
+      totalInk += mass;
+      lines++;
+    }
+    start = end;
+  }
+
+  // Two or three lines aren't enough to overrule the photo as taken
+  return lines >= 3 ? weightedLean / totalInk : 0;
+}
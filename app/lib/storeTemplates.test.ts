@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { detectStoreTemplate, getStoreTemplate, matchTemplateItem } from './storeTemplates';
+
+const template = (id: string) => getStoreTemplate(id)!;
+
+describe('detectStoreTemplate', () => {
+  it('picks the chain named at the top of the receipt', () => {
+    expect(detectStoreTemplate(['PUBLIX', '1234 MAIN ST', 'PUB DICED TOMATOES 0.67 F'])?.id).toBe('publix');
+    expect(detectStoreTemplate(['Walmart', 'ST# 05678 OP# 00123', 'GV WHL MLK 007874235186 F 3.48 N'])?.id).toBe('walmart');
+  });
+
+  it("doesn't pick a chain named only in an item or promo line", () => {
+    const lines = [
+      'CORNER MARKET',
+      '12 ELM ST',
+      ...Array.from({ length: 8 }, (_, index) => `ITEM ${index} 1.00`),
+      'TARGET PRACTICE DARTS 9.99',
+      'SUBTOTAL 17.99',
+      'TOTAL 17.99',
+      'THANK YOU'
+    ];
+
+    expect(detectStoreTemplate(lines)).toBeUndefined();
+  });
+
+  it('picks a chain from its slogan in the footer', () => {
+    const lines = [
+      'T-1234',
+      ...Array.from({ length: 10 }, (_, index) => `212060099 ITEM ${index} NF $1.00`),
+      'SUBTOTAL 10.00',
+      'EXPECT MORE. PAY LESS.'
+    ];
+
+    expect(detectStoreTemplate(lines)?.id).toBe('target');
+  });
+
+  it("doesn't look for slogans in the middle of a long receipt", () => {
+    const lines = [
+      'CORNER MARKET',
+      ...Array.from({ length: 8 }, (_, index) => `ITEM ${index} 1.00`),
+      'SAVE MONEY LIVE BETTER TOTE 1.00',
+      ...Array.from({ length: 10 }, (_, index) => `ITEM ${index + 8} 1.00`)
+    ];
+
+    expect(detectStoreTemplate(lines)).toBeUndefined();
+  });
+});
+
+describe('matchTemplateItem', () => {
+  it('reads name, price and tax flag with the chain grammar', () => {
+    expect(matchTemplateItem(template('safeway'), 'G-P MUSTARD                    6.49 S'))
+      .toEqual({ name: 'G-P MUSTARD', price: 6.49, taxFlag: 'S' });
+    expect(matchTemplateItem(template('walmart'), 'GV WHL MLK 007874235186 F 3.48 N'))
+      .toEqual({ name: 'GV WHL MLK', price: 3.48, taxFlag: 'N' });
+    expect(matchTemplateItem(template('target'), '212060099  GG MILK  NF  $3.49'))
+      .toEqual({ name: 'GG MILK', price: 3.49, taxFlag: 'NF' });
+  });
+
+  it('drops a tax flag the chain does not print', () => {
+    expect(matchTemplateItem(template('publix'), 'PUB DICED TOMATOES 0.67 TT'))
+      .toEqual({ name: 'PUB DICED TOMATOES', price: 0.67, taxFlag: undefined });
+  });
+
+  it("doesn't match a line outside the grammar", () => {
+    expect(matchTemplateItem(template('safeway'), 'REGULAR PRICE 7.99')).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+// Per-chain receipt templates for the rule-based parser
+// Each template is plain data - adding a chain means adding an entry to STORE_TEMPLATES.
+
+export interface StoreTemplate {
+  id: string;
+  // Store name reported on parsed receipts
+  name: string;
+  // Any match in the first lines of the receipt selects this template
+  detect: RegExp[];
+  // Slogans only this chain prints - unlike a bare store name, safe to look for in the footer
+  slogans: RegExp[];
+  // Header lines that are never items (store number, slogan, address formats unique to the chain)
+  header: RegExp[];
+  // Item line grammar, with the capture group index for each field
+  itemLine: {
+    pattern: RegExp;
+    name: number;
+    price: number;
+    taxFlag?: number;
+  };
+  // Tax flag printed in the item's flag column, and what it means
+  taxFlags: Record<string, string>;
+  // Department headings printed above groups of items
+  departments: string[];
+  // Lines after which no more items are printed
+  footer: RegExp[];
+  // Other lines to skip, e.g. regular price references
+  ignore: RegExp[];
+  // Item prices are printed after savings, so savings lines under an item are informational
+  savingsIncludedInPrice: boolean;
+  // Chain-specific abbreviations used in item names
+  abbreviations: Record<string, string>;
+}
+
+// How many lines from the top to look for the chain's name
+const DETECTION_LINES = 8;
+// How many lines from the bottom to look for a chain's slogan
+const FOOTER_DETECTION_LINES = 8;
+
+export const STORE_TEMPLATES: StoreTemplate[] = [
+  {
+    id: 'safeway',
+    name: 'Safeway',
+    detect: [/\bsafeway\b/i],
+    slogans: [/\bsafeway\s+for\s+u\b/i],
+    header: [/^store\s+\d+/i, /^main:/i, /^(pharmacy|bakery|deli):/i],
+    itemLine: {
+      // "G-P MUSTARD                    6.49 S"
+      pattern: /^(.+?)\s+(\d+\.\d{2})\s+([STB])$/,
+      name: 1,
+      price: 2,
+      taxFlag: 3
+    },
+    taxFlags: {
+      S: 'Non-taxable',
+      T: 'Taxable',
+      B: 'Bottle deposit'
+    },
+    departments: [
+      'GROCERY',
+      'GROC NONEDIBLE',
+      'REFRIG/FROZEN',
+      'GEN MERCHANDISE',
+      'BAKED GOODS',
+      'PRODUCE',
+      'MEAT',
+      'DELI',
+      'LIQUOR',
+      'MISCELLANEOUS'
+    ],
+    footer: [/^\**\s*balance\b/i, /^credit purchase\b/i, /^your savings\b/i],
+    ignore: [/^regular price\b/i],
+    savingsIncludedInPrice: true,
+    abbreviations: {
+      'G-P': 'Grey Poupon',
+      'TATES': 'Tate\'s',
+      'SPINDRIFT': 'Spindrift',
+      'LND O LKS': 'Land O Lakes',
+      'AMYS': 'Amy\'s',
+      'SIG': 'Signature',
+      'WT': 'Weight',
+      'CRV': 'California Redemption Value',
+      'GALBANI': 'Galbani',
+      'PUFFS': 'Puffs',
+      'BOUNCE': 'Bounce',
+      'PRECIOUS GALBANI': 'Precious Galbani',
+      'WHOLE GRAIN': 'Whole Grain'
+    }
+  },
+  {
+    id: 'publix',
+    name: 'Publix',
+    detect: [/\bpublix\b/i],
+    slogans: [/where shopping is a pleasure/i],
+    header: [/where shopping is a pleasure/i, /^store\s*#?\s*\d+/i],
+    itemLine: {
+      // "PUB DICED TOMATOES             0.67 F"
+      pattern: /^(.+?)\s+(\d+\.\d{2})\s+([FT]{1,2})$/,
+      name: 1,
+      price: 2,
+      taxFlag: 3
+    },
+    taxFlags: {
+      F: 'Food (non-taxable)',
+      T: 'Taxable',
+      FT: 'Food, taxable'
+    },
+    departments: [],
+    footer: [/^order total\b/i, /^grand total\b/i],
+    ignore: [/^you saved\b/i],
+    savingsIncludedInPrice: false,
+    abbreviations: {
+      'PUB': 'Publix',
+      'PBX': 'Publix',
+      'PF': 'Pepperidge Farm',
+      'PAC': 'Pacific',
+      'HZ': 'Heinz',
+      'IMPOSS': 'Impossible'
+    }
+  },
+  {
+    id: 'walmart',
+    name: 'Walmart',
+    detect: [/\bwal[\s-]?mart\b/i],
+    slogans: [/save money\.?\s*live better/i],
+    header: [/save money\.?\s*live better/i, /^st#\s*\d+/i, /^mgr\b/i],
+    itemLine: {
+      // "GV WHL MLK 007874235186 F 3.48 N" - name, UPC, SNAP flag, price, tax flag
+      pattern: /^(.+?)\s+\d{8,13}\s*[A-Z]?\s+(\d+\.\d{2})\s*([NXOT])?$/,
+      name: 1,
+      price: 2,
+      taxFlag: 3
+    },
+    taxFlags: {
+      N: 'Non-taxable',
+      X: 'Taxable',
+      T: 'Taxable',
+      O: 'Other tax rate'
+    },
+    departments: [],
+    footer: [/^\s*subtotal\b/i, /^# items sold\b/i],
+    ignore: [/^\d+\s+items?\s+sold\b/i],
+    savingsIncludedInPrice: false,
+    abbreviations: {
+      'GV': 'Great Value',
+      'MM': 'Marketside',
+      'EQ': 'Equate',
+      'MV': 'Member\'s Mark',
+      'HRI': 'Hormel',
+      'CL': 'Classic',
+      'CHS': 'Cheese',
+      'PEP': 'Pepperoni',
+      'USG': 'Usage',
+      'SC': 'South Carolina',
+      'BCN': 'Bacon',
+      'CHDDR': 'Cheddar',
+      'ABF': 'ABF',
+      'THINBRST': 'Thin Crust',
+      'DV': 'Dove',
+      'RSE': 'Rose',
+      'LT': 'Light',
+      'SWT': 'Sweet',
+      'BUTTR': 'Butter',
+      'AVO': 'Avocado',
+      'VERDE': 'Verde',
+      'BTS': 'Boots',
+      'BLON': 'Blonde',
+      'TR': 'Trail',
+      'HS': 'House',
+      'FRM': 'From',
+      'HNY': 'Honey',
+      'GRMS': 'Grams',
+      'ENTYSAS': 'Entity SAS',
+      'PAL ORI': 'Palmolive Original',
+      'TIDEHEORG': 'Tide HE Original',
+      'CHRMNSF': 'Charmin Soft',
+      'WHT GRAN SUG': 'White Granulated Sugar',
+      'ZPR SANDW': 'Zipper Sandwich',
+      'POUF': 'Pouf',
+      'PALOMA': 'Paloma',
+      'CCSERVINGBWL': 'CC Serving Bowl',
+      'FUSILL': 'Fusilli',
+      'MS10X14BOARD': 'MS 10x14 Board',
+      'ELD-HARV': 'Eldorado Harvest',
+      'CHK BST BNLS': 'Chicken Breast Boneless',
+      'MIX VEG': 'Mixed Vegetables'
+    }
+  },
+  {
+    id: 'target',
+    name: 'Target',
+    detect: [/\btarget\b/i],
+    slogans: [/expect more\.?\s*pay less/i],
+    header: [/expect more\.?\s*pay less/i, /^store\s*t-?\d+/i],
+    itemLine: {
+      // "212060099  GG MILK  NF  $3.49" - DPCI, name, tax flag, price
+      pattern: /^\d{3}-?\d{2}-?\d{4}\s+(.+?)\s+(T|N|NF|TF)?\s*\$?(\d+\.\d{2})$/,
+      name: 1,
+      price: 3,
+      taxFlag: 2
+    },
+    taxFlags: {
+      T: 'Taxable',
+      N: 'Non-taxable',
+      NF: 'Non-taxable food',
+      TF: 'Taxable food'
+    },
+    departments: ['GROCERY', 'HOME', 'HEALTH AND BEAUTY', 'HOUSEHOLD ESSENTIALS', 'ELECTRONICS', 'APPAREL'],
+    footer: [/^\s*subtotal\b/i],
+    ignore: [/^regular price\b/i],
+    savingsIncludedInPrice: false,
+    abbreviations: {
+      'UP&UP': 'Up & Up',
+      'GH': 'Good & Gather',
+      'GG': 'Good & Gather',
+      'MW': 'Market Pantry'
+    }
+  }
+];
+
+// Pick the template for the chain named near the top of the receipt
+export function detectStoreTemplate(lines: string[]): StoreTemplate | undefined {
+  const header = lines.slice(0, DETECTION_LINES).join('\n');
+  const footer = lines.slice(-FOOTER_DETECTION_LINES).join('\n');
+  const template = STORE_TEMPLATES.find(t => [...t.detect, ...t.slogans].some(pattern => pattern.test(header)))
+    // Some chains only print their slogan in the footer. Names aren't looked for there - "target"
+    // or "publix" in an item or promo line says nothing about where the receipt is from.
+    ?? STORE_TEMPLATES.find(t => t.slogans.some(pattern => pattern.test(footer)));
+
+  if (template) {
+    console.log(`🏪 Using ${template.name} receipt template`);
+  }
+  return template;
+}
+
+export function getStoreTemplate(storeName: string): StoreTemplate | undefined {
+  return STORE_TEMPLATES.find(t => t.id === storeName.toLowerCase() || t.detect.some(pattern => pattern.test(storeName)));
+}
+
+// Department heading for this line, if the template lists one
+export function matchDepartment(template: StoreTemplate, line: string): string | undefined {
+  const heading = line.trim().toUpperCase();
+  return template.departments.find(department => department === heading);
+}
+
+// Read an item line with the template's grammar
+export function matchTemplateItem(template: StoreTemplate, line: string): { name: string; price: number; taxFlag?: string } | null {
+  const { pattern, name, price, taxFlag } = template.itemLine;
+  const match = line.match(pattern);
+  if (!match) return null;
+  
+  const flag = taxFlag !== undefined ? match[taxFlag]?.toUpperCase() : undefined;
+  return {
+    name: match[name],
+    price: parseFloat(match[price]),
+    // Only flags the template knows about - anything else is OCR noise
+    taxFlag: flag && flag in template.taxFlags ? flag : undefined
+  };
+}
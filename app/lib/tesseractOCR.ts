@@ -0,0 +1,189 @@
+// Tesseract OCR engine (runs in the browser, no API key needed)
+// Tesseract's worker, WASM core and English model are served from /tesseract - copied out of
+// node_modules by scripts/copy-tesseract-assets.js - so scanning keeps working offline.
+
+import type { Block, PSM, Worker } from 'tesseract.js';
+import type { OCRResult } from './googleVisionOCR';
+import { buildReceiptLayout, OCRWord } from './receiptLayout';
+
+const TESSERACT_ASSET_PATH = '/tesseract';
+
+const CHAR_WHITELIST = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-$()&%*@#:;';
+
+// Page segmentation modes tried on each image - receipts read best as one block,
+// but crumpled or multi-column ones need Tesseract's own layout analysis. The most confident read wins.
+const TESSERACT_PASSES = [
+  { name: 'single block', pageSegMode: '6' as PSM },
+  { name: 'automatic', pageSegMode: '3' as PSM }
+];
+
+let workerPromise: Promise<Worker> | undefined;
+
+// One worker for the whole session - loading the model takes seconds, recognizing doesn't
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const { createWorker, OEM } = await import('tesseract.js');
+      // The worker runs from a blob URL, so asset paths must be absolute
+      const base = `${window.location.origin}${TESSERACT_ASSET_PATH}`;
+
+      console.log('🤖 Creating Tesseract worker...');
+      return createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath: `${base}/worker.min.js`,
+        corePath: `${base}/core`,
+        langPath: `${base}/lang`
+      });
+    })();
+
+    // A failed load (e.g. assets missing) must not stick for the rest of the session
+    workerPromise.catch(() => {
+      workerPromise = undefined;
+    });
+  }
+  return workerPromise;
+};
+
+export const processImageWithTesseract = async (
+  imageBlob: Blob,
+  onProgress?: (step: string) => void
+): Promise<OCRResult> => {
+  const startTime = performance.now();
+
+  try {
+    console.log('🔍 Processing with Tesseract OCR...');
+    onProgress?.('Initializing OCR engine...');
+    const worker = await getWorker();
+
+    onProgress?.('Reading text from your receipt...');
+    const image = await preprocessForTesseract(imageBlob);
+
+    let best: { pass: string; text: string; confidence: number; words: OCRWord[] } | undefined;
+    for (const pass of TESSERACT_PASSES) {
+      try {
+        await worker.setParameters({
+          tessedit_char_whitelist: CHAR_WHITELIST,
+          tessedit_pageseg_mode: pass.pageSegMode,
+          preserve_interword_spaces: '1'
+        });
+
+        console.log(`🔄 Trying Tesseract pass: ${pass.name}...`);
+        const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+        const text = data.text.trim();
+        console.log(`📊 ${pass.name}: ${text.length} characters, ${data.confidence}% confidence`);
+
+        if (text && (!best || data.confidence > best.confidence)) {
+          best = { pass: pass.name, text, confidence: data.confidence, words: collectWords(data.blocks) };
+        }
+      } catch (error) {
+        console.warn(`Tesseract pass ${pass.name} failed:`, error);
+      }
+    }
+
+    // Accept results even with lower confidence
+    if (!best || best.text.length < 2) {
+      console.warn('⚠️ Tesseract produced very short text output:', best?.text);
+      throw new Error('Tesseract produced insufficient text output');
+    }
+
+    // Clean up the extracted text
+    const cleanedText = best.text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+
+    console.log(`🏆 Best Tesseract pass: ${best.pass}`);
+    console.log(`📝 First 100 characters: "${cleanedText.substring(0, 100)}..."`);
+
+    const confidence = best.confidence / 100; // Convert to 0-1 range
+    return {
+      text: cleanedText,
+      confidence,
+      quality: {
+        imageSize: Math.round(imageBlob.size / 1024), // KB
+        processingTime: performance.now() - startTime,
+        confidence,
+        textBlockCount: best.words.length,
+        averageWordConfidence: best.words.length
+          ? best.words.reduce((sum, word) => sum + word.confidence, 0) / best.words.length
+          : confidence
+      },
+      words: best.words,
+      layout: buildReceiptLayout(best.words)
+    };
+
+  } catch (error) {
+    console.error('❌ Tesseract OCR error:', error);
+    throw new Error(`Tesseract OCR failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Flatten Tesseract's block > paragraph > line > word tree
+function collectWords(blocks: Block[] | null): OCRWord[] {
+  return (blocks || []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines.flatMap(line =>
+    line.words.map(word => ({
+      text: word.text,
+      confidence: word.confidence / 100,
+      minSymbolConfidence: word.symbols.length
+        ? Math.min(...word.symbols.map(symbol => symbol.confidence)) / 100
+        : undefined,
+      box: {
+        x: word.bbox.x0,
+        y: word.bbox.y0,
+        width: word.bbox.x1 - word.bbox.x0,
+        height: word.bbox.y1 - word.bbox.y0
+      }
+    }))
+  )));
+}
+
+// Gentle preprocessing that preserves text quality - Tesseract reads small receipt print better at 2x
+const preprocessForTesseract = (imageBlob: Blob): Promise<HTMLCanvasElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(imageBlob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d')!;
+
+      // Moderate scaling for better OCR (2x instead of 3x to reduce noise)
+      const scale = 2;
+      canvas.width = img.width * scale;
+      canvas.height = img.height * scale;
+
+      // Enable high-quality image smoothing for cleaner scaling
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
+
+      for (let i = 0; i < data.length; i += 4) {
+        // Standard grayscale conversion
+        const gray = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+        // Moderate contrast enhancement - dark text darker, light background lighter
+        const enhanced = gray < 120 ? Math.max(0, gray - 30) : Math.min(255, gray + 30);
+
+        data[i] = enhanced;     // Red
+        data[i + 1] = enhanced; // Green
+        data[i + 2] = enhanced; // Blue
+        // Alpha channel stays the same
+      }
+
+      ctx.putImageData(imageData, 0, 0);
+
+      console.log(`📐 Gentle preprocessing: ${img.width}x${img.height} → ${canvas.width}x${canvas.height} (${scale}x scale)`);
+      resolve(canvas);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not load the image'));
+    };
+
+    img.src = url;
+  });
+};
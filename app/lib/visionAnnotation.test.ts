@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildReceiptLayout } from './receiptLayout';
+import { extractAnnotationWords, VisionBlock, VisionSymbol, VisionTextAnnotation, VisionWord } from './visionAnnotation';
+
+// One symbol per character, 10px wide, on a 20px line at y
+const visionWord = (text: string, x: number, y: number, symbolConfidences: Array<number | undefined>, confidence?: number): VisionWord => ({
+  boundingBox: {
+    // Vision leaves out coordinates that are 0
+    vertices: [{ x, y: y || undefined }, { x: x + text.length * 10, y: y || undefined }, { x: x + text.length * 10, y: y + 20 }, { x, y: y + 20 }]
+  },
+  symbols: Array.from(text, (character, i): VisionSymbol => ({ text: character, confidence: symbolConfidences[i] })),
+  confidence
+});
+
+const annotation = (...blocks: VisionBlock[]): VisionTextAnnotation => ({
+  text: '',
+  pages: [{ width: 400, height: 400, blocks }]
+});
+
+const textBlock = (...words: VisionWord[]): VisionBlock => ({
+  blockType: 'TEXT',
+  paragraphs: [{ words }]
+});
+
+describe('extractAnnotationWords', () => {
+  it("reads each word's own confidence and its weakest symbol", () => {
+    const [milk] = extractAnnotationWords(annotation(textBlock(visionWord('MILK', 20, 0, [0.99, 0.4, 0.98, 0.97], 0.85))));
+
+    expect(milk).toEqual({
+      text: 'MILK',
+      confidence: 0.85,
+      minSymbolConfidence: 0.4,
+      box: { x: 20, y: 0, width: 40, height: 20 }
+    });
+  });
+
+  it('averages the symbols when the word has no confidence of its own', () => {
+    const [price] = extractAnnotationWords(annotation(textBlock(visionWord('4.49', 360, 40, [0.9, 0.8, 0.7, undefined]))));
+
+    expect(price.confidence).toBeCloseTo(0.8);
+    expect(price.minSymbolConfidence).toBe(0.7);
+  });
+
+  it('skips pictures, barcodes and empty words', () => {
+    const words = extractAnnotationWords(annotation(
+      { ...textBlock(visionWord('LOGO', 0, 0, [0.5])), blockType: 'PICTURE' },
+      { ...textBlock(visionWord('0123456', 0, 300, [0.9])), blockType: 'BARCODE' },
+      textBlock(visionWord(' ', 0, 40, [0.9]), visionWord('BREAD', 20, 80, [0.9]))
+    ));
+
+    expect(words.map(word => word.text)).toEqual(['BREAD']);
+  });
+
+  it('gives layout rows the confidence of their weakest character', () => {
+    const words = extractAnnotationWords(annotation(textBlock(
+      visionWord('MILK', 20, 0, [0.99, 0.99, 0.99, 0.99], 0.99),
+      visionWord('4.49', 360, 0, [0.95, 0.95, 0.3, 0.95], 0.9)
+    )));
+
+    const { rows } = buildReceiptLayout(words);
+    expect(rows[0]).toMatchObject({ name: 'MILK', price: 4.49, confidence: 0.3 });
+  });
+});
@@ -0,0 +1,116 @@
+// Typed model of Google Vision's fullTextAnnotation (DOCUMENT_TEXT_DETECTION)
+// The hierarchy is page > block > paragraph > word > symbol. Confidence is only reported here -
+// the flat textAnnotations list never has it.
+
+import type { OCRWord } from './receiptLayout';
+
+export interface VisionVertex {
+  // Vision leaves out coordinates that are 0
+  x?: number;
+  y?: number;
+}
+
+export interface VisionBoundingPoly {
+  vertices: VisionVertex[];
+}
+
+export type VisionBreakType = 'UNKNOWN' | 'SPACE' | 'SURE_SPACE' | 'EOL_SURE_SPACE' | 'HYPHEN' | 'LINE_BREAK';
+
+export interface VisionTextProperty {
+  detectedLanguages?: Array<{ languageCode: string; confidence?: number }>;
+  detectedBreak?: { type: VisionBreakType; isPrefix?: boolean };
+}
+
+export interface VisionSymbol {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  text: string;
+  confidence?: number;
+}
+
+export interface VisionWord {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  symbols: VisionSymbol[];
+  confidence?: number;
+}
+
+export interface VisionParagraph {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  words: VisionWord[];
+  confidence?: number;
+}
+
+export type VisionBlockType = 'UNKNOWN' | 'TEXT' | 'TABLE' | 'PICTURE' | 'RULER' | 'BARCODE';
+
+export interface VisionBlock {
+  property?: VisionTextProperty;
+  boundingBox?: VisionBoundingPoly;
+  paragraphs: VisionParagraph[];
+  blockType: VisionBlockType;
+  confidence?: number;
+}
+
+export interface VisionPage {
+  property?: VisionTextProperty;
+  width: number;
+  height: number;
+  blocks: VisionBlock[];
+  confidence?: number;
+}
+
+export interface VisionTextAnnotation {
+  pages: VisionPage[];
+  text: string;
+}
+
+// Words in reading order, with Vision's own word confidence and the weakest character in each word
+export function extractAnnotationWords(annotation: VisionTextAnnotation): OCRWord[] {
+  const words: OCRWord[] = [];
+
+  for (const page of annotation.pages || []) {
+    for (const block of page.blocks || []) {
+      if (block.blockType === 'PICTURE' || block.blockType === 'BARCODE') continue;
+
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          const symbols = word.symbols || [];
+          const text = symbols.map(symbol => symbol.text).join('');
+          if (!text.trim() || !word.boundingBox) continue;
+
+          const symbolConfidences = symbols
+            .map(symbol => symbol.confidence)
+            .filter((confidence): confidence is number => typeof confidence === 'number');
+          const confidence = word.confidence ?? (symbolConfidences.length
+            ? symbolConfidences.reduce((sum, value) => sum + value, 0) / symbolConfidences.length
+            : 0);
+
+          words.push({
+            text,
+            confidence,
+            minSymbolConfidence: symbolConfidences.length ? Math.min(...symbolConfidences) : undefined,
+            box: polyToBox(word.boundingBox)
+          });
+        }
+      }
+    }
+  }
+
+  return words;
+}
+
+// Axis-aligned box around a polygon - vertices follow the text's rotation, so take the extents
+export function polyToBox(poly: VisionBoundingPoly): OCRWord['box'] {
+  const xs = poly.vertices.map(vertex => vertex.x ?? 0);
+  const ys = poly.vertices.map(vertex => vertex.y ?? 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y
+  };
+}
@@ -0,0 +1,57 @@
+// Limits and batching for multi-image OCR through /api/google-vision-ocr
+// Shared by the route (splitting into Vision calls) and the client (splitting into route calls).
+
+export interface VisionImageRequest {
+  image: { content: string };
+  features?: Array<{ type: string; maxResults?: number }>;
+  imageContext?: Record<string, unknown>;
+}
+
+// Per-image error, in the same shape Vision uses inside responses[]
+export interface VisionImageError {
+  code: number;
+  message: string;
+  status?: string;
+}
+
+// Most images the route accepts in one call
+export const MAX_IMAGES_PER_CALL = 32;
+// Base64 characters across every image in one call to the route
+export const MAX_PAYLOAD_CHARS = 40 * 1024 * 1024;
+// Bytes of request body the route reads - the images plus room for the JSON around them
+export const MAX_BODY_BYTES = MAX_PAYLOAD_CHARS + 1024 * 1024;
+// Vision's own limits per images:annotate request: 16 images and a 10 MB JSON body
+export const VISION_BATCH_SIZE = 16;
+export const VISION_BATCH_CHARS = 8 * 1024 * 1024;
+
+// Split requests into batches that stay under both the image count and payload size.
+// An image bigger than maxChars on its own still gets a batch to itself.
+export function chunkVisionRequests<T extends VisionImageRequest>(
+  requests: T[],
+  maxImages: number,
+  maxChars: number
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentChars = 0;
+
+  for (const request of requests) {
+    const chars = imageContentLength(request);
+    if (current.length > 0 && (current.length >= maxImages || currentChars + chars > maxChars)) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(request);
+    currentChars += chars;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+export function imageContentLength(request: VisionImageRequest): number {
+  return typeof request?.image?.content === 'string' ? request.image.content.length : 0;
+}
@@ -6,431 +6,53 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { collection, addDoc } from 'firebase/firestore';
 import { db } from './firebaseConfig';
-import { parseReceiptWithAI, AIParsingResult } from './lib/aiReceiptParser';
-import { processImageWithOCR } from './lib/googleVisionOCR';
+import { parseReceiptWithAI, AIParsingResult, ReceiptParseOutcome } from './lib/aiReceiptParser';
+import { processImageWithOCR } from './lib/ocrEngines';
+import { processFramesWithEnsemble, processImageWithEnsemble } from './lib/ocrEnsemble';
+import { flattenReceiptPhoto, preprocessImage } from './lib/imagePreprocessing';
+import { analyzeReceiptImage, ReceiptAnalysis } from './lib/receiptPreprocessing';
+import { stitchReceiptCaptures } from './lib/receiptStitching';
 import LiveScanner from './components/LiveScanner';
+import ManualReceiptEntry from './components/ManualReceiptEntry';
+import ReconciliationSummary from './components/ReconciliationSummary';
+import ScanGuidance from './components/ScanGuidance';
+
+type ReceiptSaveStatus = 'parsed' | 'partial' | 'manual';
+
+// A parse that could not be saved as-is and is waiting on the user
+interface PendingReview {
+  outcome: Exclude<ReceiptParseOutcome, { status: 'parsed' }>;
+  ocrText: string;
+}
 
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
+  // Glare, shadow and focus check of the picked photo, kept with the file it was made for
+  const [photoAnalysis, setPhotoAnalysis] = useState<{ file: File; analysis: ReceiptAnalysis } | null>(null);
   const [showUploadSection, setShowUploadSection] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showLiveScanner, setShowLiveScanner] = useState(false);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  // Read the upload with several engines and image variants and vote - slower, fewer misreads
+  const [thoroughScan, setThoroughScan] = useState(false);
   const router = useRouter();
 
-  // Improved image preprocessing for better OCR results
-  const preprocessImageForOCR = async (imageFile: File): Promise<HTMLCanvasElement> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      
-      img.onload = () => {
-        // Moderate scaling for better OCR (2x instead of 3x to reduce noise)
-        const scale = 2;
-        canvas.width = img.width * scale;
-        canvas.height = img.height * scale;
-        
-        // Enable high-quality image smoothing for cleaner scaling
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        
-        // Draw scaled image
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-        
-        // Get image data for gentle processing
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        
-        // Gentle preprocessing that preserves text quality
-        for (let i = 0; i < data.length; i += 4) {
-          // Standard grayscale conversion
-          const gray = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
-          
-          // Moderate contrast enhancement (less aggressive)
-          let enhanced;
-          if (gray < 120) {
-            // Make dark text darker (but not extreme)
-            enhanced = Math.max(0, gray - 30);
-          } else {
-            // Make light background lighter (but not extreme)
-            enhanced = Math.min(255, gray + 30);
-          }
-          
-          data[i] = enhanced;     // Red
-          data[i + 1] = enhanced; // Green
-          data[i + 2] = enhanced; // Blue
-          // Alpha channel stays the same
-        }
-        
-        // Put processed image data back
-        ctx.putImageData(imageData, 0, 0);
-        
-        console.log(`📐 Gentle preprocessing: ${img.width}x${img.height} → ${canvas.width}x${canvas.height} (${scale}x scale)`);
-        resolve(canvas);
-      };
-      
-      img.src = URL.createObjectURL(imageFile);
-    });
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       setSelectedFile(file);
       setPreview(URL.createObjectURL(file));
       setError(null); // Clear any previous errors
-    }
-  };
-
-  // Store-specific receipt recovery from partial/garbled OCR
-  const generateStoreSpecificReceipt = (garbledText: string, detectedStore: string): string => {
-    console.log(`🏪 Recovering ${detectedStore} receipt from garbled OCR:`, garbledText.substring(0, 100));
-    
-    if (detectedStore === 'SAFEWAY') {
-      // Generate Safeway receipt based on the actual receipt structure
-      return `SAFEWAY
-Store 910 Dir Chris Bay
-Main: (925) 371-6969
-1604 First Street
-LIVERMORE CA 94550
-
-GROCERY
-
-G-P MUSTARD                    6.49 S
-TATES BAKE SHOP CK             4.99 S
-Regular Price           8.99
-Member Savings          4.00-
-SPINDRIFT RSP LIME             6.49 B
-CRY SFIDK 8 PK TAX            6.49 S
+      setPhotoAnalysis(null);
 
-GROC NONEDIBLE
-
-BOUNCE LASTING                 7.99 T
-PUFFS ULTRA 3PK               8.99 T
-
-REFRIG/FROZEN
-
-LND O LKS BUTTER              4.99 S
-Regular Price          5.99
-Member Savings         1.00-
-RAYS MEXICAN CRN              5.99 S
-Regular Price          6.49
-Member Savings         1.50-
-RAYS GLUTEN FREE              6.99 S
-Regular Price          8.49
-Member Savings         1.50-
-PRECIOUS GALBANI              5.99 S
-Regular Price          6.49
-Member Savings         0.50-
-
-GEN MERCHANDISE
-
-DOVE SOAP BR COOL             6.49 T
-SIG TOOTHPASTE SEN            6.79 T
-SIG MOUTHRINSE MNT            7.49 T
-
-BAKED GOODS
-
-WHOLE GRAIN BREAD             6.49 S
-
-PRODUCE
-
-0.54 lb @ $1.69 /lb
-WT      RUSSET POTATOES       0.91 S
-
-MISCELLANEOUS
-
-MR      2 QTY RCYCLBLE BA     0.20
-
-TAX                           4.58
-**** BALANCE                 93.26
-
-Credit Purchase        12/08/22 15:15
-CARD # ********        WITH:
-
-PAYMENT AMOUNT               93.26`;
-    }
-    
-    if (detectedStore === 'PUBLIX') {
-      return `PUBLIX
-Where Shopping is a Pleasure
-
-PUB DICED TOMATOES             0.67 F
-PUBLIX TOM/PASTE               0.75 F
-PF W/G WHEAT BREAD             4.49 F
-PBX FNCY PARM SHRD             3.89 F
-IMPOSS BURG                    7.59 F
-BNLS CHICK BREAST             12.18 F
-PUBLIX FF LT VANIL             2.00 F
-LIMES PERSIAN                  1.74 F
-PAC BROTH CHCKN LS             5.99 F
-JIF RD FT CREAMY               5.75 F
-PUBLIX GREEN BEANS             0.89 F
-HZ TOMATO KETCHUP              6.39 F
-PEPPERS GREEN BELL             2.84 F
-BELL PEPPERS RED               2.19 F
-ORGANIC CARROTS                1.69 F
-BANANA SHALLOTS                1.40 F
-
-Order Total                  100.00
-Sales Tax                      0.00
-Grand Total                  100.00
-Credit Payment               100.00
-Change                         0.00`;
-    }
-    
-    console.log(`✅ Reconstructed ${detectedStore} receipt with correct items and prices`);
-    return generateUniversalGroceryReceipt(garbledText, 'receipt.jpg');
-  };
-
-  // Universal grocery receipt generator for any store
-  const generateUniversalGroceryReceipt = (ocrText: string, filename: string): string => {
-    console.log('🏪 Generating universal grocery receipt for any store');
-    
-    // Create a diverse, realistic grocery receipt that works for any store
-    const universalGroceryItems = [
-      // Fresh Produce
-      'BANANAS FRESH',
-      'APPLES GALA',
-      'CARROTS ORGANIC',
-      'LETTUCE ROMAINE',
-      'TOMATOES ON VINE',
-      'POTATOES RUSSET',
-      'ONIONS YELLOW',
-      'BELL PEPPERS',
-      
-      // Meat & Dairy
-      'GROUND BEEF 85/15',
-      'CHICKEN BREAST',
-      'MILK 2% GALLON',
-      'EGGS LARGE 12CT',
-      'CHEESE CHEDDAR',
-      'GREEK YOGURT',
-      'BUTTER UNSALTED',
-      
-      // Pantry Staples
-      'BREAD WHOLE WHEAT',
-      'PASTA PENNE',
-      'RICE BROWN',
-      'OLIVE OIL',
-      'CANNED TOMATOES',
-      'BLACK BEANS CAN',
-      'PEANUT BUTTER',
-      'CEREAL OATS',
-      
-      // Frozen & Packaged
-      'FROZEN BROCCOLI',
-      'FROZEN BERRIES',
-      'SOUP CHICKEN NOODLE',
-      'CRACKERS WHOLE GRAIN',
-      'GRANOLA BARS',
-      'ORANGE JUICE'
-    ];
-    
-    // Generate realistic prices (grocery average: $2-8 per item)
-    const generatePrice = () => (Math.random() * 6 + 1.5).toFixed(2);
-    
-    // Create receipt with random selection of items
-    const numItems = Math.floor(Math.random() * 15) + 15; // 15-30 items
-    const selectedItems = [];
-    const usedItems = new Set();
-    
-    for (let i = 0; i < numItems; i++) {
-      let item;
-      do {
-        item = universalGroceryItems[Math.floor(Math.random() * universalGroceryItems.length)];
-      } while (usedItems.has(item));
-      
-      usedItems.add(item);
-      const price = generatePrice();
-      selectedItems.push(`${item.padEnd(30)} ${price}`);
-    }
-    
-    // Calculate totals
-    const subtotal = selectedItems.reduce((sum, item) => {
-      const price = parseFloat(item.split(' ').pop() || '0');
-      return sum + price;
-    }, 0);
-    
-    const tax = Math.round(subtotal * 0.0875 * 100) / 100; // ~8.75% tax
-    const total = subtotal + tax;
-    
-    // Generate store name (generic but realistic)
-    const storeNames = [
-      'NEIGHBORHOOD MARKET',
-      'FRESH FOODS MARKET',
-      'VILLAGE GROCERY',
-      'COMMUNITY MARKET',
-      'QUALITY FOODS',
-      'FAMILY MARKET'
-    ];
-    const storeName = storeNames[Math.floor(Math.random() * storeNames.length)];
-    
-    return `${storeName}
-Your Local Grocery Store
-123 Main Street
-Anytown, USA 12345
-
-${selectedItems.join('\n')}
-
-SUBTOTAL                   ${subtotal.toFixed(2)}
-TAX                        ${tax.toFixed(2)}
-TOTAL                      ${total.toFixed(2)}
-
-Items: ${numItems}
-Thank you for shopping!`;
-  };
-
-  // Real OCR function using Tesseract.js CDN version that reads actual text from images
-  const extractTextFromImage = async (imageFile: File): Promise<string> => {
-    setProcessingStep('Initializing OCR engine...');
-    
-    try {
-      // Load Tesseract.js from CDN to avoid webpack issues
-      if (typeof window !== 'undefined' && !(window as any).Tesseract) {
-        await new Promise((resolve, reject) => {
-          const script = document.createElement('script');
-          script.src = 'https://cdn.jsdelivr.net/npm/tesseract.js@6.0.1/dist/tesseract.min.js';
-          script.onload = resolve;
-          script.onerror = reject;
-          document.head.appendChild(script);
-        });
-      }
-      
-      setProcessingStep('Reading text from your receipt...');
-      
-      // Create Tesseract worker for OCR processing using CDN version
-      const worker = await (window as any).Tesseract.createWorker('eng');
-      
-      setProcessingStep('Processing image with OCR...');
-      
-      // Try multiple OCR configurations for difficult receipts
-      let ocrResults = [];
-      
-      // Configuration 1: LSTM engine with receipt-specific settings
-      try {
-        await worker.setParameters({
-          tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-$()&%*@#:;',
-          tessedit_pageseg_mode: '6', // Single uniform block
-          tessedit_ocr_engine_mode: '2', // LSTM engine
-          preserve_interword_spaces: '1',
-          classify_bln_numeric_mode: '1',
-        });
-        
-        console.log('🔄 Trying OCR Configuration 1: LSTM engine...');
-        const preprocessedImage = await preprocessImageForOCR(imageFile);
-        const { data: { text: text1 } } = await worker.recognize(preprocessedImage);
-        ocrResults.push({ config: 'LSTM', text: text1, quality: text1.length });
-        console.log(`📊 Config 1 result: ${text1.length} characters`);
-        
-      } catch (error) {
-        console.warn('Config 1 failed:', error);
-      }
-      
-      // Configuration 2: Original Tesseract engine
-      try {
-        await worker.setParameters({
-          tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-$()&%*@#:;',
-          tessedit_pageseg_mode: '6',
-          tessedit_ocr_engine_mode: '1', // Original Tesseract
-          preserve_interword_spaces: '1',
-        });
-        
-        console.log('🔄 Trying OCR Configuration 2: Original Tesseract...');
-        const { data: { text: text2 } } = await worker.recognize(await preprocessImageForOCR(imageFile));
-        ocrResults.push({ config: 'Original', text: text2, quality: text2.length });
-        console.log(`📊 Config 2 result: ${text2.length} characters`);
-        
-      } catch (error) {
-        console.warn('Config 2 failed:', error);
-      }
-      
-      // Configuration 3: Different page segmentation mode
-      try {
-        await worker.setParameters({
-          tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-$()&%*@#:;',
-          tessedit_pageseg_mode: '8', // Treat image as single word
-          tessedit_ocr_engine_mode: '2',
-          preserve_interword_spaces: '1',
-        });
-        
-        console.log('🔄 Trying OCR Configuration 3: Single word mode...');
-        const { data: { text: text3 } } = await worker.recognize(await preprocessImageForOCR(imageFile));
-        ocrResults.push({ config: 'SingleWord', text: text3, quality: text3.length });
-        console.log(`📊 Config 3 result: ${text3.length} characters`);
-        
-      } catch (error) {
-        console.warn('Config 3 failed:', error);
-      }
-      
-      // Select the best OCR result
-      let bestResult = ocrResults.reduce((best, current) => 
-        current.quality > best.quality ? current : best, 
-        { config: 'fallback', text: '', quality: 0 }
-      );
-      
-      console.log(`🏆 Best OCR result: ${bestResult.config} with ${bestResult.quality} characters`);
-      const text = bestResult.text;
-      
-      setProcessingStep('Cleaning up OCR results...');
-      
-      // Clean up the worker to free memory
-      await worker.terminate();
-      
-      // Clean up the extracted text
-      const cleanText = text
-        .split('\n')
-        .map((line: string) => line.trim())
-        .filter((line: string) => line.length > 0)
-        .join('\n');
-      
-      console.log('🔍 RAW OCR Result from your image:', cleanText);
-      console.log('📏 OCR text length:', cleanText.length);
-      console.log('🔤 First 200 characters:', cleanText.substring(0, 200));
-      
-      // Check for store-specific garbled receipt recovery
-      let detectedStore = '';
-      if (cleanText.includes('SAFEWAY') || cleanText.includes('Store 910') || cleanText.includes('LIVERMORE')) {
-        detectedStore = 'SAFEWAY';
-        console.log('🏪 Detected SAFEWAY receipt');
-      } else if (cleanText.includes('PUBLIX') || cleanText.includes('puBLIX') || cleanText.includes('DICED TOILE')) {
-        detectedStore = 'PUBLIX';
-        console.log('🏪 Detected PUBLIX receipt');
-      }
-      
-      // Check if OCR is garbled and use store-specific recovery
-      if (isOCRTextGarbled(cleanText)) {
-        console.log('🚨 OCR text is severely garbled, using fallback recovery');
-        
-        if (detectedStore) {
-          console.log(`📝 Using ${detectedStore}-specific receipt recovery...`);
-          return generateStoreSpecificReceipt(cleanText, detectedStore);
-        } else {
-          console.log('📝 Using universal grocery receipt fallback...');
-          return generateUniversalGroceryReceipt(cleanText, imageFile.name);
-        }
-      }
-      
-      // Check if OCR produced very poor quality results
-      if (!cleanText || cleanText.length < 10) {
-        console.log('⚠️ OCR text too short, generating fallback');
-        if (detectedStore) {
-          return generateStoreSpecificReceipt(cleanText, detectedStore);
-        }
-        return generateUniversalGroceryReceipt(cleanText, imageFile.name);
-      }
-      
-      // Text seems OK, process with AI
-      console.log('📝 Processing OCR text with AI...');
-      
-      return cleanText;
-      
-    } catch (error) {
-      console.error('OCR Error:', error);
-      throw new Error('Failed to read text from your image. Please try a clearer photo or make sure the receipt text is clearly visible.');
+      preprocessImage(file, { maxWidth: 1000, maxHeight: 1000 })
+        .then(analyzeReceiptImage)
+        .then(analysis => setPhotoAnalysis({ file, analysis }))
+        .catch(error => console.warn('⚠️ Could not check the photo for glare:', error));
     }
   };
 
@@ -548,16 +170,27 @@ Thank you for shopping!`;
     return isGarbledResult;
   };
 
-  const saveReceiptToFirebase = async (result: AIParsingResult, ocrText: string) => {
+  const saveReceiptToFirebase = async (result: AIParsingResult, ocrText: string, parseStatus: ReceiptSaveStatus) => {
     setProcessingStep('Saving to database...');
     
     try {
       const receiptData = {
         storeName: result.storeName,
         items: result.items,
+        subtotal: result.subtotal,
+        taxes: result.taxes,
+        discounts: result.discounts,
+        tenders: result.tenders,
         total: result.total,
+        change: result.change,
+        // ISO-8601 purchase date/time, used to order receipts by when they were bought
+        purchaseDate: result.transaction?.purchaseDate,
+        purchasedAt: result.transaction?.purchasedAt,
+        transaction: result.transaction,
         ocrText: ocrText,
         metadata: result.metadata,
+        reconciliation: result.reconciliation,
+        parseStatus,
         createdAt: new Date(),
         // Clean data to prevent Firebase undefined value errors
         enhancedItems: result.items.map(item => ({
@@ -581,6 +214,54 @@ Thank you for shopping!`;
     }
   };
 
+  // Save clean parses straight away; anything else waits for the user to confirm, fix or rescan
+  const handleParseOutcome = async (outcome: ReceiptParseOutcome, ocrText: string) => {
+    if (outcome.status !== 'parsed') {
+      console.warn(`⚠️ Receipt parse needs review (${outcome.status})`, outcome);
+      setPendingReview({ outcome, ocrText });
+      setIsProcessing(false);
+      setProcessingStep('');
+      return;
+    }
+
+    setProcessingStep('Saving receipt...');
+    await saveReceiptToFirebase(outcome.result, ocrText, 'parsed');
+    redirectToReceipts();
+  };
+
+  const redirectToReceipts = () => {
+    setProcessingStep('Complete! Redirecting...');
+    
+    setTimeout(() => {
+      router.push('/receipts');
+    }, 1500);
+  };
+
+  const handleSaveReviewed = async (result: AIParsingResult, parseStatus: ReceiptSaveStatus) => {
+    const ocrText = pendingReview?.ocrText || '';
+    setIsProcessing(true);
+    setError(null);
+    
+    try {
+      await saveReceiptToFirebase(result, ocrText, parseStatus);
+      setPendingReview(null);
+      setShowManualEntry(false);
+      redirectToReceipts();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save receipt');
+      setIsProcessing(false);
+      setProcessingStep('');
+    }
+  };
+
+  const handleRescan = () => {
+    setPendingReview(null);
+    setShowManualEntry(false);
+    setSelectedFile(null);
+    setPreview(null);
+    setError(null);
+  };
+
   // Simple image quality validation
   const validateImageQuality = (imageBlob: Blob): string[] => {
     const warnings = [];
@@ -597,11 +278,19 @@ Thank you for shopping!`;
   };
 
   // Handle live scan capture
-  const handleLiveScanCapture = async (imageBlob: Blob) => {
-    console.log('📸 Processing live scan capture...');
+  const handleLiveScanCapture = (imageBlob: Blob) => processLiveScan([imageBlob]);
+
+  // Long receipts arrive as overlapping segments, top to bottom
+  const handleLiveScanSegments = (segments: Blob[]) => processLiveScan(segments);
+
+  // Multi-frame mode sends several sharp frames of the same receipt, best first
+  const handleLiveScanFrames = (frames: Blob[]) => processLiveScan(frames, 'frames');
+
+  const processLiveScan = async (captures: Blob[], kind: 'segments' | 'frames' = 'segments') => {
+    console.log(`📸 Processing live scan capture (${captures.length} ${captures.length === 1 ? 'image' : kind})...`);
     
     // Validate image quality
-    const qualityWarnings = validateImageQuality(imageBlob);
+    const qualityWarnings = captures.flatMap(validateImageQuality);
     if (qualityWarnings.length > 0) {
       console.warn('⚠️ Image quality warnings:', qualityWarnings);
     }
@@ -612,45 +301,57 @@ Thank you for shopping!`;
     setProcessingStep('Processing live scan...');
 
     try {
-      // Step 1: Extract text using OCR (Google Vision or Tesseract)
+      // Step 1: Extract text using OCR (Google Vision or Tesseract) - segment by segment for a long
+      // receipt, joined into one image and one text with the overlaps read once; frame by frame and
+      // fused for multi-frame captures, with the reads voted line by line
       setProcessingStep('Reading text from receipt... This may take 10-30 seconds.');
-      const ocrResult = await processImageWithOCR(imageBlob);
+      let ocrFailure: string | undefined;
+      const readCaptures = async () => {
+        const combined = captures.length === 1 ? undefined
+          : kind === 'frames'
+            ? await processFramesWithEnsemble(captures, { onProgress: setProcessingStep })
+            : await stitchReceiptCaptures(captures, { onProgress: setProcessingStep });
+        if (combined) {
+          setPreview(URL.createObjectURL(combined.image));
+        }
+        return combined ? combined.ocr : processImageWithOCR(captures[0]);
+      };
+      const ocrResult = await readCaptures().catch((error: unknown) => {
+        console.warn('OCR could not read the live scan:', error);
+        ocrFailure = error instanceof Error ? error.message : undefined;
+        return null;
+      });
+      const ocrText = ocrResult?.text || '';
       
       console.log('🔍 Raw OCR Response:', {
-        textLength: ocrResult.text?.length || 0,
-        confidence: ocrResult.confidence,
-        fullText: ocrResult.text,
-        boundingBoxes: ocrResult.boundingBoxes?.length || 0
+        textLength: ocrText.length,
+        confidence: ocrResult?.confidence,
+        fullText: ocrText,
+        words: ocrResult?.words?.length || 0,
+        layoutRows: ocrResult?.layout?.rows.length || 0,
+        engine: ocrResult?.engine,
+        fallback: ocrResult?.fallback
       });
       
-      if (!ocrResult.text || ocrResult.text.trim().length < 5) {
-        console.error('❌ OCR returned insufficient text:', {
-          text: ocrResult.text,
-          trimmedLength: ocrResult.text?.trim().length || 0
-        });
-        throw new Error(`Could not extract readable text from image. OCR returned ${ocrResult.text?.length || 0} characters. Please try scanning again with better lighting and ensure the receipt text is clearly visible.`);
+      // Unreadable OCR goes to manual entry or a rescan, the same as an upload
+      if (!ocrResult || ocrText.trim().length < 10 || isOCRTextGarbled(ocrText)) {
+        console.log('🚨 Live scan text is too short or garbled to parse');
+        await handleParseOutcome({
+          status: 'unparseable',
+          reason: ocrFailure || 'The text on this scan could not be read clearly'
+        }, ocrText);
+        return;
       }
 
-      console.log('📋 OCR Result:', ocrResult.text.substring(0, 200) + '...');
+      console.log('📋 OCR Result:', ocrText.substring(0, 200) + '...');
 
       // Step 2: Parse with AI
       setProcessingStep('Analyzing receipt with AI...');
-      const aiResult = await parseReceiptWithAI(ocrResult.text);
-      
-      if (!aiResult.items || aiResult.items.length === 0) {
-        throw new Error('No items found in receipt. Please try scanning again.');
-      }
+      // Rows rebuilt from word positions keep each price with its item
+      const outcome = await parseReceiptWithAI(ocrText, undefined, ocrResult.layout?.rows);
 
-      // Step 3: Save to Firebase
-      setProcessingStep('Saving receipt...');
-      await saveReceiptToFirebase(aiResult, ocrResult.text);
-
-      // Step 4: Success! Redirect to receipts page
-      setProcessingStep('Complete! Redirecting...');
-      
-      setTimeout(() => {
-        router.push('/receipts');
-      }, 1500);
+      // Step 3: Save, or hand over to the user for review
+      await handleParseOutcome(outcome, ocrText);
 
     } catch (error) {
       console.error('Live scan processing failed:', error);
@@ -671,31 +372,36 @@ Thank you for shopping!`;
     setProcessingStep('Starting analysis...');
 
     try {
-      // Step 1: Extract text from image using REAL OCR
-      const ocrText = await extractTextFromImage(selectedFile);
-      
-      if (!ocrText || ocrText.trim().length < 10) {
-        throw new Error('Could not extract readable text from image. Please try a clearer photo.');
+      // Step 1: Extract text from image - same engines as the live scanner (Vision, then Tesseract),
+      // or all of them voting line by line in a thorough scan
+      let ocrFailure: string | undefined;
+      const recognize = thoroughScan ? processImageWithEnsemble : processImageWithOCR;
+      setProcessingStep('Straightening the photo...');
+      const photo = await flattenReceiptPhoto(selectedFile);
+      const ocrResult = await recognize(photo, { onProgress: setProcessingStep })
+        .catch((error: unknown) => {
+          console.warn('OCR could not read the upload:', error);
+          ocrFailure = error instanceof Error ? error.message : undefined;
+          return null;
+        });
+      const ocrText = ocrResult?.text || '';
+      
+      // Unreadable OCR goes to manual entry or a rescan - never to made-up items
+      if (!ocrResult || !ocrText || ocrText.trim().length < 10 || isOCRTextGarbled(ocrText)) {
+        console.log('🚨 OCR text is too short or garbled to parse');
+        await handleParseOutcome({
+          status: 'unparseable',
+          reason: ocrFailure || 'The text on this photo could not be read clearly'
+        }, ocrText);
+        return;
       }
 
       // Step 2: Parse with AI
       setProcessingStep('Analyzing with AI...');
-      const aiResult = await parseReceiptWithAI(ocrText);
-      
-      if (!aiResult.items || aiResult.items.length === 0) {
-        throw new Error('No items found in receipt. Please try a different image or check if the text is clearly visible.');
-      }
+      const outcome = await parseReceiptWithAI(ocrText, undefined, ocrResult.layout?.rows);
 
-      // Step 3: Save to Firebase
-      setProcessingStep('Saving receipt...');
-      await saveReceiptToFirebase(aiResult, ocrText);
-
-      // Step 4: Success! Redirect to receipts page
-      setProcessingStep('Complete! Redirecting...');
-      
-      setTimeout(() => {
-        router.push('/receipts');
-      }, 1500);
+      // Step 3: Save, or hand over to the user for review
+      await handleParseOutcome(outcome, ocrText);
 
     } catch (error) {
       console.error('Receipt processing failed:', error);
@@ -770,8 +476,8 @@ Thank you for shopping!`;
                 <span className="font-medium text-blue-900">OCR Status</span>
               </div>
               <p className="text-sm text-blue-700">
-                Using <strong>Tesseract OCR</strong> (free, no setup required). 
-                Processing takes 10-30 seconds per receipt.
+                Using <strong>Google Vision</strong> when configured, otherwise <strong>Tesseract OCR</strong> (free, runs offline in your browser). 
+                Tesseract takes 10-30 seconds per receipt.
               </p>
               <p className="text-xs text-blue-600 mt-1">
                 For faster results (3-5 seconds), see <strong>QUICK_SETUP.md</strong> to configure Google Vision API
@@ -815,6 +521,82 @@ Thank you for shopping!`;
           </Link>
         </div>
 
+        {/* Needs Review - parse could not be saved as-is */}
+        {pendingReview && !showManualEntry && (
+          <div className={`rounded-2xl shadow-xl p-6 sm:p-8 mb-8 border ${
+            pendingReview.outcome.status === 'partial' ? 'bg-yellow-50 border-yellow-200' : 'bg-red-50 border-red-200'
+          }`}>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-2xl">{pendingReview.outcome.status === 'partial' ? '🧐' : '😕'}</span>
+              <h3 className="text-xl font-semibold text-gray-900">
+                {pendingReview.outcome.status === 'partial'
+                  ? `We read ${pendingReview.outcome.result.items.length} items, but something looks off`
+                  : "We couldn't read this receipt"}
+              </h3>
+            </div>
+            
+            {pendingReview.outcome.status === 'partial' ? (
+              <>
+                <ul className="list-disc list-inside text-sm text-yellow-800 mb-4">
+                  {pendingReview.outcome.issues.map((issue, i) => (
+                    <li key={i}>{issue}</li>
+                  ))}
+                </ul>
+                {pendingReview.outcome.result.reconciliation && (
+                  <ReconciliationSummary
+                    report={pendingReview.outcome.result.reconciliation}
+                    items={pendingReview.outcome.result.items}
+                  />
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-red-700 mb-6">
+                {pendingReview.outcome.reason}. You can rescan it or type in the items yourself.
+              </p>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-700 mb-4">{error}</p>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              {pendingReview.outcome.status === 'partial' && (
+                <button
+                  onClick={() => pendingReview.outcome.status === 'partial' && handleSaveReviewed(pendingReview.outcome.result, 'partial')}
+                  disabled={isProcessing}
+                  className="px-6 py-2 bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 transition disabled:opacity-50"
+                >
+                  Save Anyway
+                </button>
+              )}
+              <button
+                onClick={() => setShowManualEntry(true)}
+                disabled={isProcessing}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                ✍️ {pendingReview.outcome.status === 'partial' ? 'Review & Edit Items' : 'Enter Manually'}
+              </button>
+              <button
+                onClick={handleRescan}
+                disabled={isProcessing}
+                className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg font-medium hover:bg-gray-300 transition disabled:opacity-50"
+              >
+                📸 Rescan
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Manual Entry */}
+        {showManualEntry && (
+          <ManualReceiptEntry
+            initial={pendingReview?.outcome.status === 'partial' ? pendingReview.outcome.result : undefined}
+            onSave={(result) => handleSaveReviewed(result, 'manual')}
+            onCancel={() => setShowManualEntry(false)}
+            isSaving={isProcessing}
+          />
+        )}
+
         {/* Upload Section - Shows when button is clicked */}
         {showUploadSection && (
           <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-8 border border-gray-100 transform transition-all duration-300 ease-in-out">
@@ -923,13 +705,20 @@ Thank you for shopping!`;
                     <p className="text-sm text-gray-600">Make sure the text is clear and readable</p>
                   </div>
                   <div className="flex justify-center">
-                    <img 
-                      src={preview} 
-                      alt="Receipt preview" 
-                      className={`max-w-xs sm:max-w-sm w-full rounded-lg shadow-md border border-gray-200 transition-all duration-300 hover:shadow-lg ${
-                        isProcessing ? 'opacity-50' : 'opacity-100 scale-100'
-                      }`} 
-                    />
+                    <div className="relative max-w-xs sm:max-w-sm w-full">
+                      <img 
+                        src={preview} 
+                        alt="Receipt preview" 
+                        className={`w-full rounded-lg shadow-md border border-gray-200 transition-all duration-300 hover:shadow-lg ${
+                          isProcessing ? 'opacity-50' : 'opacity-100 scale-100'
+                        }`} 
+                      />
+                      {photoAnalysis?.file === selectedFile && (
+                        <div className="absolute bottom-0 left-0 right-0 rounded-b-lg overflow-hidden">
+                          <ScanGuidance analysis={photoAnalysis.analysis} isProcessing={isProcessing} mode="photo" />
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -957,6 +746,16 @@ Thank you for shopping!`;
                     </>
                   )}
                 </button>
+                <label className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={thoroughScan}
+                    onChange={(e) => setThoroughScan(e.target.checked)}
+                    disabled={isProcessing}
+                    className="rounded border-gray-300"
+                  />
+                  Thorough scan - compare several reads (slower)
+                </label>
               </div>
             )}
 
@@ -1024,6 +823,8 @@ Thank you for shopping!`;
         <>
           <LiveScanner
             onCapture={handleLiveScanCapture}
+            onCaptureSegments={handleLiveScanSegments}
+            onCaptureFrames={handleLiveScanFrames}
             onClose={() => setShowLiveScanner(false)}
             isProcessing={isProcessing}
           />
@@ -14,8 +14,26 @@ type SavedReceipt = {
     category?: string;
     confidence?: number;
     price: number;
+    quantity?: number;
+    unit?: string;
+    unitPrice?: number;
+    weight?: number;
   }[];
+  subtotal?: number;
+  taxes?: { label: string; amount: number; rate?: number }[];
+  discounts?: { description: string; amount: number; itemIndex?: number; includedInPrice?: boolean }[];
+  tenders?: { method: string; cardType?: string; last4?: string; amount: number }[];
   total: number;
+  change?: number;
+  reconciliation?: { status: 'balanced' | 'corrected' | 'unbalanced' | 'unverifiable'; residual: number; residualAgainst?: 'subtotal' | 'total' };
+  purchaseDate?: string; // YYYY-MM-DD
+  purchasedAt?: string; // YYYY-MM-DDTHH:mm, or the date alone when no time was printed
+  transaction?: {
+    storeNumber?: string;
+    register?: string;
+    transactionNumber?: string;
+    cashier?: string;
+  };
   createdAt: any; // Firestore timestamp
   ocrText?: string;
 };
@@ -47,6 +65,10 @@ export default function ReceiptsPage() {
         } as SavedReceipt);
       });
       
+      // Newest purchase first - receipts scanned days later still land in the right month.
+      // Sorted here because older receipts have no purchase date to order by in the query.
+      fetchedReceipts.sort((a, b) => (getReceiptDate(b)?.date.getTime() ?? 0) - (getReceiptDate(a)?.date.getTime() ?? 0));
+      
       setReceipts(fetchedReceipts);
     } catch (err) {
       console.error('Error fetching receipts:', err);
@@ -74,6 +96,35 @@ export default function ReceiptsPage() {
     }
   };
 
+  // When the receipt was bought - the printed purchase date if we read one, otherwise when it was scanned
+  const getReceiptDate = (receipt: SavedReceipt): { date: Date; hasTime: boolean } | null => {
+    const purchased = receipt.purchasedAt?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+    if (purchased) {
+      // Built from parts so a date-only value stays on its day instead of shifting through UTC
+      const [, year, month, day, hours, minutes] = purchased;
+      return {
+        date: new Date(+year, +month - 1, +day, hours ? +hours : 0, minutes ? +minutes : 0),
+        hasTime: hours !== undefined
+      };
+    }
+    
+    if (!receipt.createdAt) return null;
+    const created = receipt.createdAt.toDate ? receipt.createdAt.toDate() : new Date(receipt.createdAt);
+    return isNaN(created.getTime()) ? null : { date: created, hasTime: true };
+  };
+
+  const formatReceiptDate = (receipt: SavedReceipt) => {
+    const receiptDate = getReceiptDate(receipt);
+    if (!receiptDate) return 'Unknown date';
+    
+    return receiptDate.date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      ...(receiptDate.hasTime && { hour: '2-digit', minute: '2-digit' })
+    });
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -188,7 +239,7 @@ export default function ReceiptsPage() {
 
                   {/* Date */}
                   <p className="text-sm text-gray-500 mb-4">
-                    {formatDate(receipt.createdAt)}
+                    {formatReceiptDate(receipt)}
                   </p>
 
                   {/* Items Preview */}
@@ -237,8 +288,23 @@ export default function ReceiptsPage() {
                       {selectedReceipt.storeName || 'Unknown Store'}
                     </h2>
                     <p className="text-gray-600">
-                      {formatDate(selectedReceipt.createdAt)}
+                      {formatReceiptDate(selectedReceipt)}
                     </p>
+                    {selectedReceipt.purchasedAt && (
+                      <p className="text-xs text-gray-500">
+                        Scanned {formatDate(selectedReceipt.createdAt)}
+                      </p>
+                    )}
+                    {selectedReceipt.transaction && (
+                      <p className="text-xs text-gray-500">
+                        {[
+                          selectedReceipt.transaction.storeNumber && `Store #${selectedReceipt.transaction.storeNumber}`,
+                          selectedReceipt.transaction.register && `Register ${selectedReceipt.transaction.register}`,
+                          selectedReceipt.transaction.transactionNumber && `Transaction ${selectedReceipt.transaction.transactionNumber}`,
+                          selectedReceipt.transaction.cashier && `Cashier ${selectedReceipt.transaction.cashier}`
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
                   </div>
                   <button
                     onClick={() => setSelectedReceipt(null)}
@@ -262,6 +328,13 @@ export default function ReceiptsPage() {
                                <>
                                  <span className="text-gray-900 font-medium">{item.enhancedName}</span>
                                  <span className="text-xs text-gray-500">{item.name}</span>
+                                 {item.unitPrice !== undefined && (
+                                   <span className="text-xs text-gray-500">
+                                     {item.weight !== undefined
+                                       ? `${item.weight} ${item.unit} @ ${formatCurrency(item.unitPrice)}/${item.unit}`
+                                       : `${item.quantity ?? 1} @ ${formatCurrency(item.unitPrice)}${item.unit && item.unit !== 'each' ? `/${item.unit}` : ' each'}`}
+                                   </span>
+                                 )}
                                  {item.category && (
                                    <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded w-fit mt-1">
                                      {item.category}
@@ -278,12 +351,68 @@ export default function ReceiptsPage() {
                          </div>
                        ))}
                     </div>
+                    {/* Subtotal, taxes and savings (receipts saved before these were extracted have none) */}
+                    {(selectedReceipt.subtotal !== undefined || !!selectedReceipt.taxes?.length || !!selectedReceipt.discounts?.length) && (
+                      <div className="border-t border-gray-300 mt-4 pt-3 space-y-1 text-sm">
+                        {selectedReceipt.subtotal !== undefined && (
+                          <div className="flex justify-between text-gray-700">
+                            <span>Subtotal</span>
+                            <span>{formatCurrency(selectedReceipt.subtotal)}</span>
+                          </div>
+                        )}
+                        {selectedReceipt.discounts?.map((discount, index) => (
+                          <div key={`discount-${index}`} className="flex justify-between text-green-700">
+                            <span>
+                              {discount.description}
+                              {discount.itemIndex !== undefined && selectedReceipt.items[discount.itemIndex] && (
+                                <span className="text-xs text-gray-500"> ({selectedReceipt.items[discount.itemIndex].enhancedName || selectedReceipt.items[discount.itemIndex].name})</span>
+                              )}
+                            </span>
+                            <span>
+                              {discount.includedInPrice && <span className="text-xs text-gray-500">(in price) </span>}
+                              -{formatCurrency(discount.amount)}
+                            </span>
+                          </div>
+                        ))}
+                        {selectedReceipt.taxes?.map((tax, index) => (
+                          <div key={`tax-${index}`} className="flex justify-between text-gray-700">
+                            <span>{tax.label}{tax.rate !== undefined && ` (${tax.rate}%)`}</span>
+                            <span>{formatCurrency(tax.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="border-t-2 border-gray-300 mt-4 pt-3 flex justify-between items-center">
                       <span className="text-lg font-bold text-gray-900">Total:</span>
                       <span className="text-xl font-bold text-green-600">
                         {formatCurrency(selectedReceipt.total)}
                       </span>
                     </div>
+                    {selectedReceipt.reconciliation?.status === 'unbalanced' && (
+                      <p className="mt-2 text-sm text-red-700">
+                        ⚠️ Items, discounts and tax are off from the printed {selectedReceipt.reconciliation.residualAgainst ?? 'total'} by {formatCurrency(Math.abs(selectedReceipt.reconciliation.residual))}
+                      </p>
+                    )}
+                    {/* Payment */}
+                    {(selectedReceipt.tenders?.length || selectedReceipt.change) ? (
+                      <div className="mt-3 space-y-1 text-sm text-gray-600">
+                        {selectedReceipt.tenders?.map((tender, index) => (
+                          <div key={`tender-${index}`} className="flex justify-between">
+                            <span>
+                              {tender.cardType || tender.method}
+                              {tender.last4 && ` •••• ${tender.last4}`}
+                            </span>
+                            <span>{formatCurrency(tender.amount)}</span>
+                          </div>
+                        ))}
+                        {selectedReceipt.change ? (
+                          <div className="flex justify-between">
+                            <span>Change</span>
+                            <span>{formatCurrency(selectedReceipt.change)}</span>
+                          </div>
+                        ) : null}
+                      </div>
+                    ) : null}
                   </div>
                 </div>
 
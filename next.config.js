@@ -3,6 +3,17 @@ const nextConfig = {
   env: {
     GOOGLE_CLOUD_VISION_API_KEY: process.env.GOOGLE_CLOUD_VISION_API_KEY,
   },
+  experimental: {
+    // node-canvas is a native module - load it from node_modules at runtime instead of bundling it
+    serverComponentsExternalPackages: ['canvas'],
+  },
+  webpack: (config, { isServer }) => {
+    // Image preprocessing only loads node-canvas on the server - leave it out of browser and worker bundles
+    if (!isServer) {
+      config.resolve.alias = { ...config.resolve.alias, canvas: false };
+    }
+    return config;
+  },
 };
 
 module.exports = nextConfig; 
\ No newline at end of file
@@ -0,0 +1,35 @@
+// Copy Tesseract's worker, WASM cores and English model into public/tesseract
+// so the browser OCR engine loads them from this app instead of a CDN (and works offline).
+// Runs after every install; the copied files are git-ignored.
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const modules = path.join(root, 'node_modules');
+const target = path.join(root, 'public', 'tesseract');
+
+const copy = (from, to) => {
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.copyFileSync(from, to);
+  console.log(`📦 ${path.relative(root, from)} → ${path.relative(root, to)}`);
+};
+
+try {
+  copy(path.join(modules, 'tesseract.js', 'dist', 'worker.min.js'), path.join(target, 'worker.min.js'));
+
+  // The worker picks the SIMD and/or LSTM-only build at runtime, so ship all of them
+  const coreDir = path.join(modules, 'tesseract.js-core');
+  fs.readdirSync(coreDir)
+    .filter(file => /^tesseract-core.*\.wasm\.js$/.test(file))
+    .forEach(file => copy(path.join(coreDir, file), path.join(target, 'core', file)));
+
+  // best_int is the model trained for the LSTM-only engine mode we use
+  copy(
+    path.join(modules, '@tesseract.js-data', 'eng', '4.0.0_best_int', 'eng.traineddata.gz'),
+    path.join(target, 'lang', 'eng.traineddata.gz')
+  );
+} catch (error) {
+  // Don't fail the install - only the offline Tesseract fallback depends on these files
+  console.warn('⚠️ Could not copy Tesseract assets:', error.message);
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // Tests don't load styles - keep Vite from picking up the Tailwind PostCSS setup
+  css: { postcss: {} },
+  test: {
+    include: ['app/**/*.test.ts'],
+    environment: 'node'
+  }
+});